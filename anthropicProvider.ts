@@ -0,0 +1,131 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+    ChatMessage,
+    ChatOptions,
+    ChatProvider,
+    ChatResult,
+    parseToolArguments,
+    splitSystemPrompt,
+    StreamEvent,
+    ToolCall
+} from './llmProvider.ts';
+
+// Tool results go back as user turns; consecutive results share one turn.
+// A conversation must contain at least one user turn.
+function toMessages(turns: ChatMessage[]): Anthropic.MessageParam[] {
+    const messages: Anthropic.MessageParam[] = [];
+    for (const turn of turns) {
+        if (turn.role === 'tool') {
+            const block: Anthropic.ToolResultBlockParam = {
+                type: 'tool_result',
+                tool_use_id: turn.toolCallId || '',
+                content: turn.content
+            };
+            const last = messages[messages.length - 1];
+            if (last?.role === 'user' && Array.isArray(last.content) && last.content.every(part => part.type === 'tool_result')) {
+                last.content.push(block);
+            } else {
+                messages.push({ role: 'user', content: [block] });
+            }
+        } else if (turn.role === 'assistant' && turn.toolCalls?.length) {
+            messages.push({
+                role: 'assistant',
+                content: [
+                    ...(turn.content ? [{ type: 'text' as const, text: turn.content }] : []),
+                    ...turn.toolCalls.map(call => ({
+                        type: 'tool_use' as const,
+                        id: call.id,
+                        name: call.name,
+                        input: call.arguments
+                    }))
+                ]
+            });
+        } else {
+            messages.push({ role: turn.role as 'user' | 'assistant', content: turn.content });
+        }
+    }
+    return messages.length > 0 ? messages : [{ role: 'user', content: 'Please respond.' }];
+}
+
+function toTools(options: ChatOptions): { tools?: Anthropic.Tool[] } {
+    if (!options.tools?.length) return {};
+    return {
+        tools: options.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters as Anthropic.Tool.InputSchema
+        }))
+    };
+}
+
+// Anthropic does not offer an embedding model, so only chat is supported here.
+export class AnthropicChatProvider implements ChatProvider {
+    readonly provider = 'anthropic';
+    private client: Anthropic;
+
+    constructor(readonly model: string = 'claude-3-5-haiku-latest') {
+        if (!process.env.ANTHROPIC_API_KEY) {
+            throw new Error('ANTHROPIC_API_KEY is not set');
+        }
+        // Retries are left to ResilientChatProvider.
+        this.client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY, maxRetries: 0 });
+    }
+
+    async complete(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+        const { system, turns } = splitSystemPrompt(messages);
+        const response = await this.client.messages.create({
+            model: this.model,
+            max_tokens: options.maxTokens || 1024,
+            temperature: options.temperature,
+            // Anthropic has no JSON mode; the prompt already asks for JSON only.
+            system: system || undefined,
+            messages: toMessages(turns),
+            ...toTools(options)
+        }, { signal: options.signal });
+        const content = response.content
+            .map(block => block.type === 'text' ? block.text : '')
+            .join('');
+        const toolCalls: ToolCall[] = response.content.flatMap(block => block.type === 'tool_use'
+            ? [{ id: block.id, name: block.name, arguments: block.input as Record<string, unknown> }]
+            : []);
+        return {
+            content,
+            usage: {
+                inputTokens: response.usage.input_tokens,
+                outputTokens: response.usage.output_tokens
+            },
+            ...(toolCalls.length > 0 ? { toolCalls } : {})
+        };
+    }
+
+    async *stream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<StreamEvent> {
+        const { system, turns } = splitSystemPrompt(messages);
+        const stream = await this.client.messages.create({
+            model: this.model,
+            max_tokens: options.maxTokens || 1024,
+            temperature: options.temperature,
+            system: system || undefined,
+            messages: toMessages(turns),
+            ...toTools(options),
+            stream: true
+        }, { signal: options.signal });
+        // Tool input arrives as JSON fragments, per content block.
+        const pending = new Map<number, { id: string; name: string; input: string }>();
+        for await (const event of stream) {
+            if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+                pending.set(event.index, { id: event.content_block.id, name: event.content_block.name, input: '' });
+            } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+                yield { type: 'text', text: event.delta.text };
+            } else if (event.type === 'content_block_delta' && event.delta.type === 'input_json_delta') {
+                const call = pending.get(event.index);
+                if (call) call.input += event.delta.partial_json;
+            } else if (event.type === 'content_block_stop') {
+                const call = pending.get(event.index);
+                if (call) {
+                    pending.delete(event.index);
+                    yield { type: 'tool_call', call: { id: call.id, name: call.name, arguments: parseToolArguments(call.input) } };
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,105 @@
+// who an HTTP API request acts as
+
+import { IncomingMessage } from 'http';
+import { HttpError, readBearerToken, tokensEqual } from './httpUtils.ts';
+import { DEFAULT_USER, validateUserId } from './memoryManager.ts';
+
+/**
+ * Who may act as which user. A per-user token only ever acts as its user. The
+ * shared token acts as the default user; it may pick another with X-User-Id only
+ * when the deployment trusts every holder of it with every user's memories.
+ */
+export interface ApiAuth {
+    // PETER_API_TOKEN, if set.
+    apiToken?: string;
+    // PETER_ADMIN_TOKEN, if set: admin routes need it, and it may act as any user.
+    adminToken?: string;
+    // PETER_USER_TOKENS, as "userId:token" pairs separated by commas.
+    userTokens: { userId: string; token: string }[];
+    // PETER_TRUST_USER_HEADER=true: the shared token may act as any user.
+    trustUserHeader: boolean;
+}
+
+// An authenticated request: the user it acts as, and whether it holds the admin token.
+export interface ApiCaller {
+    userId: string;
+    admin: boolean;
+}
+
+// Reads PETER_USER_TOKENS: "alice:token1,bob:token2".
+export function parseUserTokens(setting: string | undefined): ApiAuth['userTokens'] {
+    if (!setting) return [];
+    return setting.split(',').map(pair => pair.trim()).filter(Boolean).map(pair => {
+        const separator = pair.indexOf(':');
+        const userId = pair.slice(0, separator);
+        const token = pair.slice(separator + 1);
+        if (separator < 1 || !token) {
+            throw new Error('PETER_USER_TOKENS must be comma-separated "userId:token" pairs');
+        }
+        validateUserId(userId);
+        return { userId, token };
+    });
+}
+
+/**
+ * Reads the API tokens from the environment. At least one of PETER_API_TOKEN and
+ * PETER_USER_TOKENS must be set.
+ */
+export function readApiAuth(): ApiAuth {
+    const auth: ApiAuth = {
+        apiToken: process.env.PETER_API_TOKEN || undefined,
+        adminToken: process.env.PETER_ADMIN_TOKEN || undefined,
+        userTokens: parseUserTokens(process.env.PETER_USER_TOKENS),
+        trustUserHeader: process.env.PETER_TRUST_USER_HEADER === 'true'
+    };
+    if (!auth.apiToken && auth.userTokens.length === 0) {
+        throw new Error('Set PETER_API_TOKEN or PETER_USER_TOKENS');
+    }
+    return auth;
+}
+
+/**
+ * Checks the request's bearer token and returns who it acts as. Throws a 401
+ * HttpError for a missing or unknown token, and a 403 when X-User-Id names a user
+ * the token may not act as.
+ *
+ * @param req The request.
+ * @param auth The configured tokens.
+ */
+export function authenticate(req: IncomingMessage, auth: ApiAuth): ApiCaller {
+    const token = readBearerToken(req);
+    const userHeader = req.headers['x-user-id'];
+    const requested = Array.isArray(userHeader) ? userHeader[0] : userHeader;
+
+    if (auth.adminToken && tokensEqual(token, auth.adminToken)) {
+        return { userId: requested || DEFAULT_USER, admin: true };
+    }
+    const bound = auth.userTokens.find(entry => tokensEqual(token, entry.token));
+    if (bound) {
+        if (requested && requested !== bound.userId) {
+            throw new HttpError(403, 'This token can only act as its own user');
+        }
+        return { userId: bound.userId, admin: false };
+    }
+    if (!auth.apiToken || !tokensEqual(token, auth.apiToken)) {
+        throw new HttpError(401, 'Invalid bearer token');
+    }
+    if (requested && requested !== DEFAULT_USER && !auth.trustUserHeader) {
+        throw new HttpError(403, 'X-User-Id needs a per-user token (PETER_USER_TOKENS) or PETER_TRUST_USER_HEADER=true');
+    }
+    return { userId: requested || DEFAULT_USER, admin: false };
+}
+
+/**
+ * Refuses an admin route to a caller without the admin token. With no
+ * PETER_ADMIN_TOKEN configured, admin routes are refused to everyone.
+ *
+ * @param caller The authenticated caller.
+ * @param auth The configured tokens.
+ */
+export function requireAdmin(caller: ApiCaller, auth: ApiAuth): void {
+    if (caller.admin) return;
+    throw new HttpError(403, auth.adminToken
+        ? 'This route needs the admin token'
+        : 'Admin routes are disabled; set PETER_ADMIN_TOKEN to use them');
+}
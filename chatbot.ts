@@ -1,83 +1,183 @@
-import { ChatOpenAI } from "@langchain/openai";
-import { HumanMessage, SystemMessage } from "@langchain/core/messages";
-import { MemoryManager } from "./memoryManager.ts";
+import { BuiltContext, ContextBudgetOptions, ContextBuilder } from "./contextBuilder.ts";
+import { citationFor, citedSummary, DOCUMENT_CITATION_NOTE } from "./documentIngestion.ts";
+import { dataPath } from "./fileStorage.ts";
+import { IngestionQueue } from "./ingestionQueue.ts";
+import { ChatProvider, isAbortError, streamText } from "./llmProvider.ts";
+import { log } from "./logger.ts";
+import { DEFAULT_USER, Memory, MemoryManager, MemoryManagerOptions } from "./memoryManager.ts";
+import { createModelRoles } from "./providers.ts";
+import { ServiceUnavailableError } from "./resilience.ts";
+import { reminderNote } from "./reminders.ts";
+import { defaultTimeZone, ParsedTime, parseReminderRequest, validateTimeZone } from "./reminderTime.ts";
+import { ThreadStore } from "./threadStore.ts";
+import { traceModels, traceStream, traceTask } from "./tracing.ts";
+
+export interface ChatbotOptions extends MemoryManagerOptions {
+    // Where conversation threads are kept. Defaults to a file in the data directory.
+    threads?: ThreadStore;
+    // Prompt size limits; see contextBuilder.ts.
+    context?: ContextBudgetOptions;
+    // Time zone reminder requests are read in. Defaults to PETER_TIME_ZONE, or the system's.
+    timeZone?: string;
+    // Where messages are stored after the reply. Defaults to a queue of its own.
+    ingestion?: IngestionQueue;
+}
 
 export class Chatbot {
-    private model: ChatOpenAI;
+    private model: ChatProvider;
     private memory: MemoryManager;
-    private activeThreads: Map<string, string[]>;  // Track conversation history per thread
+    private threads: ThreadStore;
+    private contextBuilder: ContextBuilder;
+    private timeZone: string;
+    private ingestion: IngestionQueue;
 
-    constructor() {
-        this.memory = new MemoryManager();
-        this.model = new ChatOpenAI({
-            modelName: "gpt-4o-mini",
-            temperature: 0.5
-        });
-        this.activeThreads = new Map();
+    constructor(options: ChatbotOptions = {}) {
+        const { threads, context, timeZone, ingestion, ...memoryOptions } = options;
+        const models = traceModels(memoryOptions.models || createModelRoles());
+        this.memory = new MemoryManager({ ...memoryOptions, models });
+        this.model = models.reply;
+        this.threads = threads || new ThreadStore(dataPath("threads.json"));
+        this.contextBuilder = new ContextBuilder(models.reply, models.summarizer, context);
+        this.timeZone = validateTimeZone(timeZone || defaultTimeZone());
+        this.ingestion = ingestion || new IngestionQueue();
     }
 
     /**
-     * Main chat function with Pinecone context retrieval.
-     * The incoming message is enhanced with context from Pinecone if available.
+     * Main chat function with memory context retrieval.
+     * The incoming message is enhanced with context from stored memories if available,
+     * and sent along with as much of the thread as fits the prompt budget.
      *
      * @param message User input.
      * @param threadId ID for the conversation thread.
+     * @param userId ID of the user; memories are scoped to them.
      * @returns Assistant's response.
      */
-    async chat(message: string, threadId: string = "default"): Promise<string> {
-        // Retrieve relevant memories using getRelatedMemories
-        const relatedMemories = await this.memory.getRelatedMemories(message);
-        let context = "";
-        if (relatedMemories.length > 0) {
-            context = relatedMemories.map((mem: { metadata: { summary: string } }) => mem.metadata.summary).join("\n");
+    async chat(message: string, threadId: string = "default", userId: string = DEFAULT_USER): Promise<string> {
+        let response = "";
+        for await (const chunk of this.chatStream(message, threadId, userId)) {
+            response += chunk.content;
         }
+        return response.trim();
+    }
+
+    /**
+     * Streams the response as it is generated. The message is stored and the
+     * thread (message and reply) updated only after the stream completes; aborting through the signal
+     * ends the stream without storing anything. Due reminders are brought up in the reply, and a
+     * "remind me to ..." message schedules a reminder once the stream completes.
+     * The message is stored as a memory in the background (see ingestionQueue.ts). If memory
+     * is unavailable, the reply is given without it, reported through onMemoryUnavailable,
+     * and the message stays queued until it can be stored.
+     *
+     * @param message User input.
+     * @param threadId ID for the conversation thread.
+     * @param userId ID of the user; memories are scoped to them.
+     * @param signal (Optional) Cancels the model request.
+     * @param onMemoryUnavailable (Optional) Called with a notice when memory could not be reached.
+     */
+    async *chatStream(
+        message: string,
+        threadId: string = "default",
+        userId: string = DEFAULT_USER,
+        signal?: AbortSignal,
+        onMemoryUnavailable?: (message: string) => void
+    ): AsyncIterable<{ content: string }> {
+        yield* traceStream("chat", { userId, threadId }, () => this.streamTurn(message, threadId, userId, signal, onMemoryUnavailable));
+    }
+
+    // The body of chatStream, run inside the turn's trace.
+    private async *streamTurn(
+        message: string,
+        threadId: string,
+        userId: string,
+        signal?: AbortSignal,
+        onMemoryUnavailable?: (message: string) => void
+    ): AsyncGenerator<{ content: string }> {
+        const memory = this.memory.forUser(userId);
 
-        const systemPrompt = context
-            ? `You are a helpful assistant. Here is some background context: ${context}`
-            : "You are a helpful assistant.";
+        // Retrieve relevant memories using getRelatedMemories; if memory is down, answer without it
+        let relatedMemories: Memory[] = [];
+        try {
+            relatedMemories = await memory.getRelatedMemories(message);
+        } catch (error) {
+            if (!(error instanceof ServiceUnavailableError)) throw error;
+            log.warn("Memory unavailable; answering without it", { error });
+            onMemoryUnavailable?.("Memory is unavailable; answering without it.");
+        }
+        const thread = await this.threads.get(userId, threadId);
+        const dueReminders = await memory.getUnannouncedReminders();
+        let requested: ParsedTime | null = null;
+        try {
+            requested = parseReminderRequest(message, { timeZone: this.timeZone });
+        } catch (error) {
+            log.error('Error in reading reminder request', { error });
+        }
+        const note = reminderNote(dueReminders, requested && { ...requested, timeZone: this.timeZone });
 
-        const messages = [
-            new SystemMessage(systemPrompt),
-            new HumanMessage(message),
-        ];
+        // Build the prompt within budget, then stream from the language model.
+        let reply = "";
+        let context: BuiltContext;
+        try {
+            context = await this.contextBuilder.build({
+                persona: "You are a helpful assistant." +
+                    (relatedMemories.some(memory => citationFor(memory)) ? ` ${DOCUMENT_CITATION_NOTE}` : "") +
+                    (note ? `\n\n${note}` : ""),
+                memories: relatedMemories,
+                memoryHeader: "Here is some background context:",
+                formatMemory: memory => `- ${citedSummary(memory)}`,
+                history: thread?.messages || [],
+                summary: thread?.summary,
+                message,
+                signal,
+            });
+            for await (const delta of streamText(this.model.stream(context.messages, { temperature: 0.5, signal }))) {
+                reply += delta;
+                yield { content: delta };
+            }
+        } catch (error) {
+            if (isAbortError(error, signal)) return;
+            throw error;
+        }
+        if (signal?.aborted) return;
 
-        // Invoke the language model.
-        const response = await this.model.invoke(messages);
-        const content = response.content;
-        const finalContent =
-            typeof content === "string"
-                ? content
-                : Array.isArray(content)
-                    ? content.join(" ")
-                    : "";
-        const trimmedResponse = finalContent.trim();
+        await memory.markRemindersAnnounced(dueReminders.map(reminder => reminder.id));
 
-        // Store conversation parts in Pinecone for later retrieval.
-        await this.memory.addMemory(message, "conversation", [], []);
+        // Queue conversation parts for storing in the background; the reminder points at the write until then.
+        const write = await memory.queueMemory(message, "conversation", [], []);
+        if (requested) {
+            await memory.addReminder({
+                text: requested.text,
+                dueAt: requested.dueAt,
+                timeZone: this.timeZone,
+                recurrence: requested.recurrence,
+                sourceMemoryId: write.id,
+            });
+        }
+        this.ingestion.enqueue(userId, () => traceTask("ingestion.job", { userId }, async () => {
+            await memory.replayPendingWrites();
+        }));
 
-        // Still update thread history if needed.
-        this.updateThreadHistory(threadId, message);
-        
-        return trimmedResponse;
+        if (context.summary) {
+            await this.threads.setSummary(userId, threadId, context.summary);
+        }
+        await this.threads.append(userId, threadId, [
+            { role: "user", content: await memory.shieldText(message) },
+            { role: "assistant", content: await memory.shieldText(reply.trim()) },
+        ]);
     }
 
-    private updateThreadHistory(threadId: string, conversation: string) {
-        const history = this.activeThreads.get(threadId) || [];
-        history.push(conversation);
-        if (history.length > 10) history.shift();
-        this.activeThreads.set(threadId, history);
+    // Waits until every message queued so far has been stored, or left queued because memory is unavailable.
+    async flushIngestion(): Promise<void> {
+        await this.ingestion.flush();
     }
 
-    async endThread(threadId: string) {
-        this.activeThreads.delete(threadId);
+    // The thread store, for listing, renaming and deleting threads.
+    getThreads(): ThreadStore {
+        return this.threads;
     }
 
-    async *chatStream(message: string, threadId: string = "default"): AsyncIterable<{ content: string }> {
-        const response = await this.chat(message, threadId);
-        const chunkSize = 1;
-        for (let i = 0; i < response.length; i += chunkSize) {
-            await new Promise(resolve => setTimeout(resolve, 20));
-            yield { content: response.substring(i, i + chunkSize) };
-        }
+    // The memory manager scoped to the given user, for direct memory management.
+    getMemoryManager(userId: string = DEFAULT_USER): MemoryManager {
+        return this.memory.forUser(userId);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,244 @@
+// token-budgeted prompt assembly: persona, memories, rolling summary and recent turns
+
+import { ChatMessage, ChatProvider, ToolDefinition } from './llmProvider.ts';
+import { log } from './logger.ts';
+import { Memory } from './memoryManager.ts';
+import { RollingSummary, ThreadMessage } from './threadStore.ts';
+import { contextWindow, countTokens, truncateToTokens } from './tokenCounter.ts';
+
+export interface ContextBudgetOptions {
+    // Tokens the prompt may use. Defaults to PETER_CONTEXT_TOKENS, or 6000, and never exceeds the model's window.
+    maxTokens?: number;
+    // Room kept free in the model's window for the reply.
+    replyTokens?: number;
+    // Share of what is left after the persona, tools and new message that memories may take.
+    memoryShare?: number;
+    // Share of the history budget the rolling summary may take once the thread overflows.
+    summaryShare?: number;
+}
+
+export interface ContextInput {
+    persona: string;
+    // Retrieved memories, best first.
+    memories: Memory[];
+    memoryHeader?: string;
+    formatMemory?: (memory: Memory) => string;
+    // Tool definitions sent with the request; they count against the budget.
+    tools?: ToolDefinition[];
+    // The thread so far, oldest first, and its rolling summary if it has one.
+    history: ThreadMessage[];
+    summary?: RollingSummary | null;
+    // The user's new message.
+    message: string;
+    // Cancels the summarizer call, if one is needed.
+    signal?: AbortSignal;
+}
+
+/**
+ * What went into a prompt and what was left out, for debugging.
+ */
+export interface ContextReport {
+    budget: number;
+    used: number;
+    // Estimated tokens per section.
+    tokens: { persona: number; tools: number; memories: number; summary: number; history: number; message: number };
+    // IDs of the memories that fit, and of those that did not.
+    memories: { included: string[]; cut: string[] };
+    // Thread messages sent verbatim, covered by the summary, and lost (when summarizing failed).
+    history: { included: number; summarized: number; dropped: number };
+    // Whether older turns were folded into the summary for this prompt.
+    summaryUpdated: boolean;
+}
+
+export interface BuiltContext {
+    messages: ChatMessage[];
+    report: ContextReport;
+    // The thread's new rolling summary, when it changed; the caller saves it with the thread.
+    summary: RollingSummary | null;
+}
+
+const DEFAULT_MAX_TOKENS = 6000;
+const DEFAULT_REPLY_TOKENS = 1024;
+const DEFAULT_MEMORY_SHARE = 0.35;
+const DEFAULT_SUMMARY_SHARE = 0.25;
+// Below this, a summary would say too little to be worth a model call.
+const MIN_SUMMARY_TOKENS = 40;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const DEFAULT_MEMORY_HEADER = 'Here are relevant facts I know:';
+const SUMMARY_HEADER = 'Summary of the earlier conversation:';
+
+const SUMMARY_PROMPT = `
+You keep a running summary of a conversation between a user and their assistant, Peter.
+You get the summary so far and the messages that followed it. Reply with an updated summary
+that keeps names, facts, decisions, commitments and open questions, and drops small talk.
+Reply with the summary only, in at most WORDS words.
+`;
+
+// Reads PETER_CONTEXT_TOKENS, falling back to the default when it is unset.
+function configuredMaxTokens(): number {
+    const setting = process.env.PETER_CONTEXT_TOKENS;
+    if (!setting) return DEFAULT_MAX_TOKENS;
+    const maxTokens = Number(setting);
+    if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+        throw new Error(`PETER_CONTEXT_TOKENS must be a positive integer, got "${setting}"`);
+    }
+    return maxTokens;
+}
+
+function defaultFormatMemory(memory: Memory): string {
+    return `- ${memory.metadata.summary || memory.content}`;
+}
+
+function transcript(messages: ThreadMessage[]): string {
+    return messages
+        .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+        .join('\n');
+}
+
+/**
+ * ContextBuilder - Assembles the prompt for a reply within a token budget. The
+ * persona, tool definitions and the new message always go in; memories get a
+ * share of the rest, best first; the remainder goes to the thread, newest turns
+ * first. When the thread no longer fits, the turns that fall off are folded into
+ * a rolling summary (one summarizer call) that is sent in their place.
+ */
+export class ContextBuilder {
+    readonly budget: number;
+    private memoryShare: number;
+    private summaryShare: number;
+
+    constructor(private model: ChatProvider, private summarizer: ChatProvider, options: ContextBudgetOptions = {}) {
+        const maxTokens = options.maxTokens ?? configuredMaxTokens();
+        this.budget = Math.min(maxTokens, contextWindow(model) - (options.replyTokens ?? DEFAULT_REPLY_TOKENS));
+        this.memoryShare = options.memoryShare ?? DEFAULT_MEMORY_SHARE;
+        this.summaryShare = options.summaryShare ?? DEFAULT_SUMMARY_SHARE;
+    }
+
+    /**
+     * Builds the prompt and reports what it contains.
+     *
+     * @param input The persona, memories, thread and new message.
+     */
+    async build(input: ContextInput): Promise<BuiltContext> {
+        const tokens = (text: string) => countTokens(text, this.model);
+        const messageCost = (text: string) => tokens(text) + MESSAGE_OVERHEAD_TOKENS;
+
+        const report: ContextReport = {
+            budget: this.budget,
+            used: 0,
+            tokens: {
+                persona: messageCost(input.persona),
+                tools: input.tools && input.tools.length > 0 ? tokens(JSON.stringify(input.tools)) : 0,
+                memories: 0,
+                summary: 0,
+                history: 0,
+                message: messageCost(input.message)
+            },
+            memories: { included: [], cut: [] },
+            history: { included: 0, summarized: input.summary?.messageCount ?? 0, dropped: 0 },
+            summaryUpdated: false
+        };
+        let remaining = Math.max(0, this.budget - report.tokens.persona - report.tokens.tools - report.tokens.message);
+
+        // Memories, best first; one that doesn't fit may leave room for a shorter one.
+        const memoryHeader = input.memoryHeader ?? DEFAULT_MEMORY_HEADER;
+        const formatMemory = input.formatMemory ?? defaultFormatMemory;
+        const memoryBudget = Math.floor(remaining * this.memoryShare);
+        const memoryLines: string[] = [];
+        for (const memory of input.memories) {
+            const line = formatMemory(memory);
+            const cost = tokens(line) + 1 + (memoryLines.length === 0 ? messageCost(memoryHeader) : 0);
+            if (report.tokens.memories + cost > memoryBudget) {
+                report.memories.cut.push(memory.id);
+                continue;
+            }
+            memoryLines.push(line);
+            report.memories.included.push(memory.id);
+            report.tokens.memories += cost;
+        }
+        remaining -= report.tokens.memories;
+
+        // The thread: everything since the summary if it fits, else the newest turns plus a fresh summary.
+        let summary = input.summary ?? null;
+        let summaryText = summary?.text ?? '';
+        const pending = input.history.slice(summary?.messageCount ?? 0);
+        const pendingCost = pending.reduce((total, message) => total + messageCost(message.content), 0);
+        let recent = pending;
+        if (pendingCost + (summaryText ? messageCost(`${SUMMARY_HEADER}\n${summaryText}`) : 0) > remaining) {
+            const summaryBudget = Math.floor(remaining * this.summaryShare);
+            recent = this.newestThatFit(pending, remaining - summaryBudget);
+            const overflow = pending.slice(0, pending.length - recent.length);
+            if (overflow.length > 0) {
+                try {
+                    if (summaryBudget < MIN_SUMMARY_TOKENS) {
+                        throw new Error(`No room for a summary (${summaryBudget} tokens)`);
+                    }
+                    summaryText = await this.summarize(summaryText, overflow, summaryBudget, input.signal);
+                    summary = {
+                        text: summaryText,
+                        messageCount: (summary?.messageCount ?? 0) + overflow.length,
+                        updatedAt: Date.now()
+                    };
+                    report.summaryUpdated = true;
+                    report.history.summarized = summary.messageCount;
+                } catch (error) {
+                    if (input.signal?.aborted) throw error;
+                    log.error('Error in summarizing thread', { error });
+                    report.history.dropped = overflow.length;
+                }
+            }
+            if (summaryText) {
+                summaryText = truncateToTokens(summaryText, Math.max(0, summaryBudget - messageCost(SUMMARY_HEADER)), this.model);
+            }
+        }
+        report.history.included = recent.length;
+        report.tokens.history = recent.reduce((total, message) => total + messageCost(message.content), 0);
+        report.tokens.summary = summaryText ? messageCost(`${SUMMARY_HEADER}\n${summaryText}`) : 0;
+
+        const messages: ChatMessage[] = [{ role: 'system', content: input.persona }];
+        if (memoryLines.length > 0) {
+            messages.push({ role: 'system', content: `${memoryHeader}\n${memoryLines.join('\n')}` });
+        }
+        if (summaryText) {
+            messages.push({ role: 'system', content: `${SUMMARY_HEADER}\n${summaryText}` });
+        }
+        messages.push(
+            ...recent.map(message => ({ role: message.role, content: message.content })),
+            { role: 'user', content: input.message }
+        );
+
+        const { persona, tools, memories, history, message } = report.tokens;
+        report.used = persona + tools + memories + report.tokens.summary + history + message;
+        return { messages, report, summary: report.summaryUpdated ? summary : null };
+    }
+
+    // The longest run of newest messages that fits the budget, starting with a user turn.
+    private newestThatFit(messages: ThreadMessage[], budget: number): ThreadMessage[] {
+        let used = 0;
+        let start = messages.length;
+        while (start > 0) {
+            const cost = countTokens(messages[start - 1].content, this.model) + MESSAGE_OVERHEAD_TOKENS;
+            if (used + cost > budget) break;
+            used += cost;
+            start--;
+        }
+        // Some providers reject a conversation that opens with the assistant.
+        while (start < messages.length && messages[start].role !== 'user') start++;
+        return messages.slice(start);
+    }
+
+    // Folds messages into the running summary with one summarizer call.
+    private async summarize(previous: string, messages: ThreadMessage[], maxTokens: number, signal?: AbortSignal): Promise<string> {
+        const words = Math.max(20, Math.floor(maxTokens * 0.7));
+        const result = await this.summarizer.complete([
+            { role: 'system', content: SUMMARY_PROMPT.replace('WORDS', String(words)) },
+            { role: 'user', content: `Summary so far:\n${previous || '(none)'}\n\nNew messages:\n${transcript(messages)}` }
+        ], { temperature: 0.2, signal });
+        const text = result.content.trim();
+        if (!text) {
+            throw new Error('Summarizer returned an empty summary');
+        }
+        return text;
+    }
+}
@@ -0,0 +1,417 @@
+// splitting documents into chunks along their structure
+
+import * as path from 'path';
+
+export type DocumentFormat = 'text' | 'markdown' | 'html' | 'json' | 'csv';
+
+export const DOCUMENT_FORMATS: DocumentFormat[] = ['text', 'markdown', 'html', 'json', 'csv'];
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+    '.txt': 'text',
+    '.text': 'text',
+    '.md': 'markdown',
+    '.markdown': 'markdown',
+    '.html': 'html',
+    '.htm': 'html',
+    '.json': 'json',
+    '.csv': 'csv'
+};
+
+/**
+ * One piece of a document, small enough to embed and to quote in a prompt.
+ */
+export interface DocumentChunk {
+    // Where it sits: a heading path ("Deploying > Rollback"), a JSON key path or a CSV row.
+    // Empty for text without any structure.
+    section: string;
+    // Character offsets of the chunk in the source text, end exclusive.
+    start: number;
+    end: number;
+    // The chunk as stored: markup removed, data rendered as "key: value" lines.
+    text: string;
+}
+
+// Longest chunk, in characters; longer sections are split between paragraphs.
+export const MAX_CHUNK_CHARS = 1500;
+
+interface Span {
+    start: number;
+    end: number;
+}
+
+// The format a file's extension stands for, or null if it isn't supported.
+export function formatOfPath(filePath: string): DocumentFormat | null {
+    return EXTENSIONS[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+export function validateFormat(format: string): DocumentFormat {
+    if (!DOCUMENT_FORMATS.includes(format as DocumentFormat)) {
+        throw new Error(`Unknown document format "${format}"; use ${DOCUMENT_FORMATS.join(', ')}`);
+    }
+    return format as DocumentFormat;
+}
+
+/**
+ * Splits a document into chunks along its structure: Markdown and HTML by
+ * heading, JSON by key or array element, CSV by row, plain text by paragraph.
+ * Sections longer than maxChars are split between paragraphs (or, failing that,
+ * between words); each chunk keeps the offsets of the source text it came from.
+ *
+ * @param source The document's text.
+ * @param format Its format (see formatOfPath).
+ * @param maxChars (Optional) The longest chunk, in characters.
+ */
+export function chunkDocument(source: string, format: DocumentFormat, maxChars: number = MAX_CHUNK_CHARS): DocumentChunk[] {
+    switch (format) {
+        case 'text':
+            return groupBlocks(source, '', paragraphs(source, 0, source.length), plainText, maxChars);
+        case 'markdown':
+            return chunkMarkdown(source, maxChars);
+        case 'html':
+            return chunkHtml(source, maxChars);
+        case 'json':
+            return chunkJson(source, maxChars);
+        case 'csv':
+            return chunkCsv(source, maxChars);
+    }
+}
+
+function plainText(source: string, span: Span): string {
+    return source.slice(span.start, span.end).trim();
+}
+
+// Paragraphs of a range: runs of text between blank lines.
+function paragraphs(source: string, start: number, end: number): Span[] {
+    const spans: Span[] = [];
+    const blank = /\n[ \t\r]*\n/g;
+    blank.lastIndex = start;
+    let from = start;
+    const push = (to: number) => {
+        while (from < to && /\s/.test(source[from])) from++;
+        if (to > from) spans.push({ start: from, end: to });
+    };
+    for (let match = blank.exec(source); match && match.index < end; match = blank.exec(source)) {
+        push(match.index);
+        from = match.index + match[0].length;
+    }
+    push(end);
+    return spans;
+}
+
+// Splits text longer than maxChars at whitespace.
+function splitLongText(text: string, maxChars: number): string[] {
+    const pieces: string[] = [];
+    let rest = text;
+    while (rest.length > maxChars) {
+        const cut = rest.lastIndexOf(' ', maxChars);
+        const at = cut > maxChars / 2 ? cut : maxChars;
+        pieces.push(rest.slice(0, at).trim());
+        rest = rest.slice(at).trim();
+    }
+    if (rest) pieces.push(rest);
+    return pieces;
+}
+
+// Packs consecutive blocks of one section into chunks of at most maxChars rendered characters.
+function groupBlocks(
+    source: string,
+    section: string,
+    blocks: Span[],
+    render: (source: string, span: Span) => string,
+    maxChars: number
+): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+    let group: Span | null = null;
+    const emit = (span: Span) => {
+        const text = render(source, span);
+        if (!text) return;
+        for (const piece of text.length > maxChars ? splitLongText(text, maxChars) : [text]) {
+            chunks.push({ section, start: span.start, end: span.end, text: piece });
+        }
+    };
+    for (const block of blocks) {
+        if (group && render(source, { start: group.start, end: block.end }).length > maxChars) {
+            emit(group);
+            group = null;
+        }
+        group = group ? { start: group.start, end: block.end } : { ...block };
+    }
+    if (group) emit(group);
+    return chunks;
+}
+
+// Keeps the path of headings above the current one, e.g. ["Deploying", "Rollback"].
+function headingPath(stack: { level: number; title: string }[], level: number, title: string): string {
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+    stack.push({ level, title });
+    return stack.map(heading => heading.title).join(' > ');
+}
+
+function chunkMarkdown(source: string, maxChars: number): DocumentChunk[] {
+    // The heading line itself is left out of the chunks; their section names it.
+    const sections: { section: string; start: number; bodyStart: number }[] = [{ section: '', start: 0, bodyStart: 0 }];
+    const stack: { level: number; title: string }[] = [];
+    let fence: string | null = null;
+    let offset = 0;
+    for (const line of source.split('\n')) {
+        const lineEnd = offset + line.length + 1;
+        const fenceMatch = /^\s*(```|~~~)/.exec(line);
+        if (fenceMatch) {
+            if (!fence) fence = fenceMatch[1];
+            else if (fenceMatch[1] === fence) fence = null;
+        }
+        const heading = fence ? null : /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+        if (heading && !fenceMatch) {
+            sections.push({ section: headingPath(stack, heading[1].length, heading[2]), start: offset, bodyStart: Math.min(lineEnd, source.length) });
+        }
+        offset = lineEnd;
+    }
+    return sections.flatMap((section, index) => {
+        const end = index + 1 < sections.length ? sections[index + 1].start : source.length;
+        // A heading followed straight by a subheading is only part of the path.
+        if (!source.slice(section.bodyStart, end).trim()) return [];
+        return groupBlocks(source, section.section, paragraphs(source, section.bodyStart, end), plainText, maxChars);
+    });
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === '#') {
+            const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+        }
+        return ENTITIES[name.toLowerCase()] ?? entity;
+    });
+}
+
+// The readable text of an HTML fragment, one line per block.
+function htmlToText(html: string): string {
+    return decodeEntities(
+        html
+            .replace(/<!--[\s\S]*?-->/g, '')
+            .replace(/<(head|script|style|noscript|template)\b[\s\S]*?<\/\1\s*>/gi, '')
+            .replace(/<br\s*\/?>|<\/(p|div|li|tr|h[1-6]|pre|blockquote|section|article|table|ul|ol)\s*>/gi, '\n')
+            .replace(/<[^>]*>/g, '')
+    )
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n');
+}
+
+// Ends of block elements in a range: the places an HTML section may be split.
+function htmlBlocks(source: string, start: number, end: number): Span[] {
+    const spans: Span[] = [];
+    const boundary = /<br\s*\/?>|<\/(p|div|li|tr|pre|blockquote|section|article|table|ul|ol)\s*>/gi;
+    boundary.lastIndex = start;
+    let from = start;
+    for (let match = boundary.exec(source); match && match.index < end; match = boundary.exec(source)) {
+        const to = match.index + match[0].length;
+        spans.push({ start: from, end: to });
+        from = to;
+    }
+    if (from < end) spans.push({ start: from, end });
+    return spans;
+}
+
+function chunkHtml(source: string, maxChars: number): DocumentChunk[] {
+    const sections: { section: string; start: number; bodyStart: number }[] = [{ section: '', start: 0, bodyStart: 0 }];
+    const stack: { level: number; title: string }[] = [];
+    const heading = /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi;
+    for (let match = heading.exec(source); match; match = heading.exec(source)) {
+        const title = htmlToText(match[2]).replace(/\n/g, ' ');
+        if (!title) continue;
+        sections.push({ section: headingPath(stack, Number(match[1]), title), start: match.index, bodyStart: match.index + match[0].length });
+    }
+    const render = (text: string, span: Span) => htmlToText(text.slice(span.start, span.end));
+    return sections.flatMap((section, index) => {
+        const end = index + 1 < sections.length ? sections[index + 1].start : source.length;
+        if (!htmlToText(source.slice(section.bodyStart, end))) return [];
+        return groupBlocks(source, section.section, htmlBlocks(source, section.bodyStart, end), render, maxChars);
+    });
+}
+
+interface JsonEntry {
+    // The key in an object; the index in an array.
+    key: string | number;
+    // From the key (or the element) to the end of the value.
+    start: number;
+    valueStart: number;
+    end: number;
+}
+
+function skipWhitespace(source: string, index: number): number {
+    while (index < source.length && /\s/.test(source[index])) index++;
+    return index;
+}
+
+// The end of the JSON value starting at index (which must be valid JSON).
+function skipJsonValue(source: string, index: number): number {
+    if (source[index] === '"') {
+        for (let i = index + 1; i < source.length; i++) {
+            if (source[i] === '\\') i++;
+            else if (source[i] === '"') return i + 1;
+        }
+        return source.length;
+    }
+    if (source[index] === '{' || source[index] === '[') {
+        let depth = 0;
+        for (let i = index; i < source.length; i++) {
+            const char = source[i];
+            if (char === '"') i = skipJsonValue(source, i) - 1;
+            else if (char === '{' || char === '[') depth++;
+            else if ((char === '}' || char === ']') && --depth === 0) return i + 1;
+        }
+        return source.length;
+    }
+    let i = index;
+    while (i < source.length && !/[\s,\]}]/.test(source[i])) i++;
+    return i;
+}
+
+// The entries of the object or array starting at index, with their offsets.
+function jsonEntries(source: string, index: number): JsonEntry[] {
+    const isObject = source[index] === '{';
+    const entries: JsonEntry[] = [];
+    let i = skipWhitespace(source, index + 1);
+    while (i < source.length && source[i] !== '}' && source[i] !== ']') {
+        const start = i;
+        let key: string | number = entries.length;
+        if (isObject) {
+            const keyEnd = skipJsonValue(source, i);
+            key = JSON.parse(source.slice(i, keyEnd));
+            i = skipWhitespace(source, skipWhitespace(source, keyEnd) + 1);
+        }
+        const end = skipJsonValue(source, i);
+        entries.push({ key, start, valueStart: i, end });
+        i = skipWhitespace(source, end);
+        if (source[i] === ',') i = skipWhitespace(source, i + 1);
+    }
+    return entries;
+}
+
+function isScalar(value: unknown): boolean {
+    return value === null || typeof value !== 'object';
+}
+
+// Renders JSON as indented "key: value" lines.
+function renderJson(value: unknown, indent: string = ''): string {
+    if (isScalar(value)) return `${indent}${value}`;
+    if (Array.isArray(value)) {
+        if (value.every(isScalar)) return `${indent}${value.join(', ')}`;
+        return value.map(item => `${indent}- ${renderJson(item, `${indent}  `).trimStart()}`).join('\n');
+    }
+    return Object.entries(value as Record<string, unknown>)
+        .map(([key, item]) => isScalar(item) || (Array.isArray(item) && item.every(isScalar))
+            ? `${indent}${key}: ${renderJson(item)}`
+            : `${indent}${key}:\n${renderJson(item, `${indent}  `)}`)
+        .join('\n');
+}
+
+// The label of an array element: its title, name or id if it has one.
+function elementLabel(value: unknown, index: number): string {
+    if (!isScalar(value) && !Array.isArray(value)) {
+        const record = value as Record<string, unknown>;
+        const label = [record.title, record.name, record.id].find(candidate => typeof candidate === 'string' || typeof candidate === 'number');
+        if (label !== undefined) return String(label);
+    }
+    return `[${index}]`;
+}
+
+// The element of an array, or the property of an object, under a key from jsonEntries.
+function jsonChild(container: unknown, key: string | number): unknown {
+    return Array.isArray(container)
+        ? (container as unknown[])[key as number]
+        : (container as Record<string, unknown>)[key];
+}
+
+function chunkJson(source: string, maxChars: number): DocumentChunk[] {
+    const root: unknown = JSON.parse(source);
+    const chunks: DocumentChunk[] = [];
+    const visit = (value: unknown, section: string[], span: Span, valueStart: number, label?: string) => {
+        const text = label === undefined ? renderJson(value) : renderJson({ [label]: value });
+        if (text.length <= maxChars || isScalar(value)) {
+            for (const piece of text.length > maxChars ? splitLongText(text, maxChars) : [text]) {
+                if (piece.trim()) chunks.push({ section: section.join(' > '), start: span.start, end: span.end, text: piece });
+            }
+            return;
+        }
+        const isArray = Array.isArray(value);
+        for (const entry of jsonEntries(source, valueStart)) {
+            const item = jsonChild(value, entry.key);
+            const name = isArray ? elementLabel(item, entry.key as number) : String(entry.key);
+            visit(item, [...section, name], entry, entry.valueStart, isArray ? undefined : String(entry.key));
+        }
+    };
+    const start = skipWhitespace(source, 0);
+    if (isScalar(root)) {
+        visit(root, [], { start, end: skipJsonValue(source, start) }, start);
+        return chunks;
+    }
+    // Every top-level entry is a chunk of its own, however small.
+    const isArray = Array.isArray(root);
+    for (const entry of jsonEntries(source, start)) {
+        const item = jsonChild(root, entry.key);
+        const name = isArray ? elementLabel(item, entry.key as number) : String(entry.key);
+        visit(item, [name], entry, entry.valueStart, isArray ? undefined : String(entry.key));
+    }
+    return chunks;
+}
+
+// Parses CSV (RFC 4180 quoting) into rows of cells, with each row's offsets.
+function csvRows(source: string): { cells: string[]; start: number; end: number }[] {
+    const rows: { cells: string[]; start: number; end: number }[] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    let rowStart = 0;
+    const endRow = (end: number) => {
+        cells.push(cell);
+        if (cells.some(value => value.trim())) rows.push({ cells, start: rowStart, end });
+        cells = [];
+        cell = '';
+    };
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            cells.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            endRow(i);
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            rowStart = i + 1;
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || cells.length > 0) endRow(source.length);
+    return rows;
+}
+
+function chunkCsv(source: string, maxChars: number): DocumentChunk[] {
+    const [header, ...rows] = csvRows(source);
+    if (!header) return [];
+    const columns = header.cells.map((name, index) => name.trim() || `column ${index + 1}`);
+    return rows.flatMap((row, index) => {
+        const text = row.cells
+            .map((value, column) => value.trim()
+                ? `${columns[column] || `column ${column + 1}`}: ${value.trim().replace(/\r\n?/g, '\n')}`
+                : '')
+            .filter(Boolean)
+            .join('\n');
+        return splitLongText(text, maxChars).map(piece => ({ section: `Row ${index + 1}`, start: row.start, end: row.end, text: piece }));
+    });
+}
@@ -0,0 +1,109 @@
+// loading local notes and documents into memory
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { chunkDocument, DocumentFormat, formatOfPath } from './documentChunker.ts';
+import { DOCUMENT_MEMORY_TYPE, DocumentSyncReport, Memory, MemoryManager } from './memoryManager.ts';
+
+export interface IngestReport {
+    documents: DocumentSyncReport[];
+    // Files under an ingested directory that are not in a supported format.
+    skipped: string[];
+    // Files that could not be read or parsed, with the reason.
+    errors: { source: string; message: string }[];
+}
+
+// Largest file ingested; bigger ones are reported as errors.
+const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
+// Added to the persona when the context holds document chunks.
+export const DOCUMENT_CITATION_NOTE =
+    'Some memories are excerpts from the user\'s documents, marked with the file and section they come from. '
+    + 'When your answer uses one, cite its file and section, e.g. (notes.md § Setup).';
+
+/**
+ * Chunks a document and syncs its chunks into the user's memories (see
+ * MemoryManager.syncDocument): only chunks that changed since it was last
+ * ingested are re-embedded.
+ *
+ * @param memory The memory manager (scoped to the user).
+ * @param source The name chunks are stored and cited under.
+ * @param content The document's text.
+ * @param format Its format.
+ */
+export async function ingestText(
+    memory: MemoryManager,
+    source: string,
+    content: string,
+    format: DocumentFormat
+): Promise<DocumentSyncReport> {
+    return memory.syncDocument(source, chunkDocument(content, format));
+}
+
+async function listFiles(directory: string): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+        if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) files.push(...await listFiles(entryPath));
+        else if (entry.isFile()) files.push(entryPath);
+    }
+    return files.sort();
+}
+
+/**
+ * Ingests a file, or every supported file under a directory (hidden files and
+ * node_modules aside). Files are stored under their absolute path, so ingesting
+ * the same path again updates them in place.
+ *
+ * @param memory The memory manager (scoped to the user).
+ * @param target The file or directory.
+ */
+export async function ingestPath(memory: MemoryManager, target: string): Promise<IngestReport> {
+    const root = path.resolve(target);
+    const report: IngestReport = { documents: [], skipped: [], errors: [] };
+    const isDirectory = (await fs.stat(root)).isDirectory();
+    if (!isDirectory && !formatOfPath(root)) {
+        throw new Error(`Unsupported file type: ${target} (use .txt, .md, .html, .json or .csv)`);
+    }
+
+    for (const file of isDirectory ? await listFiles(root) : [root]) {
+        const format = formatOfPath(file);
+        if (!format) {
+            report.skipped.push(file);
+            continue;
+        }
+        try {
+            const { size } = await fs.stat(file);
+            if (size > MAX_DOCUMENT_BYTES) {
+                throw new Error(`larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`);
+            }
+            report.documents.push(await ingestText(memory, file, await fs.readFile(file, 'utf8'), format));
+        } catch (error: any) {
+            report.errors.push({ source: file, message: error.message || String(error) });
+        }
+    }
+    return report;
+}
+
+// A document's name as shown to the user: relative to the working directory when under it.
+export function displaySource(source: string): string {
+    if (!path.isAbsolute(source)) return source;
+    const relative = path.relative(process.cwd(), source);
+    return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : source;
+}
+
+// Where a document chunk came from, e.g. "notes.md § Setup"; null for other memories.
+export function citationFor(memory: Memory): string | null {
+    const { type, source, section } = memory.metadata;
+    if (type !== DOCUMENT_MEMORY_TYPE || !source) return null;
+    return section ? `${displaySource(source)} § ${section}` : displaySource(source);
+}
+
+// The memory's summary, preceded by its citation if it is a document chunk. Later
+// lines of a chunk are indented, to keep it one item of a bulleted list.
+export function citedSummary(memory: Memory): string {
+    const summary = memory.metadata.summary || memory.content;
+    const citation = citationFor(memory);
+    return citation ? `(from ${citation}) ${summary.replace(/\n/g, '\n  ')}` : summary;
+}
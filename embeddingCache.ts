@@ -0,0 +1,223 @@
+// persistent embedding cache
+
+import { createHash } from 'crypto';
+import { dataPath, readJsonFile, writeJsonFile } from './fileStorage.ts';
+import { EmbeddingProvider } from './llmProvider.ts';
+import { log } from './logger.ts';
+
+// On-disk format. Vectors are stored as base64 float32 to keep the file small.
+interface EmbeddingCacheFile {
+    version: 1;
+    // The "provider:model/dimension" the vectors came from; a different model discards them.
+    model: string;
+    // Least recently used first.
+    entries: [string, string][];
+}
+
+export interface EmbeddingCacheStats {
+    hits: number;
+    misses: number;
+    evictions: number;
+    size: number;
+    maxEntries: number;
+}
+
+// Cached vectors kept before the least recently used ones are evicted.
+const DEFAULT_MAX_ENTRIES = 2000;
+// Writes are batched: the file is saved at most this often.
+const FLUSH_DELAY_MS = 1000;
+
+// Collapses whitespace so trivially different copies of a text share an entry.
+function normalizeText(text: string): string {
+    return text.normalize('NFC').trim().replace(/\s+/g, ' ');
+}
+
+function encodeVector(vector: number[]): string {
+    return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): number[] {
+    const buffer = Buffer.from(encoded, 'base64');
+    return Array.from(new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4));
+}
+
+/**
+ * EmbeddingCache - Embedding vectors keyed by a hash of the model and the
+ * normalized text, with least-recently-used eviction. It is persisted to a JSON
+ * file (in memory only without a path) and is independent of the vector store.
+ *
+ * The cache belongs to one embedding model: when it is opened for a different
+ * model, the stored vectors are discarded.
+ */
+export class EmbeddingCache {
+    private entries = new Map<string, string>();
+    private model: string | null = null;
+    private loading: Promise<void> | null = null;
+    private flushTimer: NodeJS.Timeout | null = null;
+    private writeChain: Promise<void> = Promise.resolve();
+    private hits = 0;
+    private misses = 0;
+    private evictions = 0;
+
+    constructor(private filePath?: string, private maxEntries: number = DEFAULT_MAX_ENTRIES) {
+        if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+            throw new Error('Embedding cache size must be a positive integer');
+        }
+    }
+
+    // Loads the file once and drops its entries if they belong to another model.
+    private async open(model: string): Promise<void> {
+        if (!this.loading) {
+            this.loading = (async () => {
+                if (!this.filePath) return;
+                const file = await readJsonFile<EmbeddingCacheFile | null>(this.filePath, null);
+                if (file && file.version === 1) {
+                    this.model = file.model;
+                    this.entries = new Map(file.entries);
+                }
+            })();
+        }
+        await this.loading;
+        if (this.model !== model) {
+            if (this.model !== null && this.entries.size > 0) {
+                log.info('Embedding model changed; clearing the embedding cache', { model });
+                this.scheduleFlush();
+            }
+            this.entries.clear();
+            this.model = model;
+        }
+    }
+
+    private key(model: string, text: string): string {
+        return createHash('sha256').update(`${model}\n${normalizeText(text)}`).digest('hex');
+    }
+
+    /**
+     * Looks up cached vectors for a batch of texts.
+     *
+     * @param model The embedding model spec (provider, model and dimension).
+     * @param texts The texts.
+     * @returns One vector per text, or undefined where nothing is cached.
+     */
+    async getMany(model: string, texts: string[]): Promise<(number[] | undefined)[]> {
+        await this.open(model);
+        return texts.map(text => {
+            const key = this.key(model, text);
+            const encoded = this.entries.get(key);
+            if (encoded === undefined) {
+                this.misses++;
+                return undefined;
+            }
+            this.hits++;
+            // Re-insert so the entry becomes the most recently used.
+            this.entries.delete(key);
+            this.entries.set(key, encoded);
+            return decodeVector(encoded);
+        });
+    }
+
+    /**
+     * Stores vectors for a batch of texts, evicting the least recently used
+     * entries beyond the size limit.
+     *
+     * @param model The embedding model spec (provider, model and dimension).
+     * @param texts The texts.
+     * @param vectors Their vectors, in the same order.
+     */
+    async setMany(model: string, texts: string[], vectors: number[][]): Promise<void> {
+        await this.open(model);
+        texts.forEach((text, i) => {
+            const key = this.key(model, text);
+            this.entries.delete(key);
+            this.entries.set(key, encodeVector(vectors[i]));
+        });
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+            this.evictions++;
+        }
+        this.scheduleFlush();
+    }
+
+    stats(): EmbeddingCacheStats {
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions,
+            size: this.entries.size,
+            maxEntries: this.maxEntries
+        };
+    }
+
+    private scheduleFlush(): void {
+        if (!this.filePath || this.flushTimer) return;
+        this.flushTimer = setTimeout(() => {
+            this.flush().catch(error => log.error('Error in EmbeddingCache.flush', { error }));
+        }, FLUSH_DELAY_MS);
+        // A pending write should never keep the process alive.
+        this.flushTimer.unref();
+    }
+
+    /**
+     * Writes the cache to disk now instead of waiting for the batched write.
+     */
+    async flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        if (!this.filePath || this.model === null) return;
+        const filePath = this.filePath;
+        const snapshot: EmbeddingCacheFile = { version: 1, model: this.model, entries: [...this.entries] };
+        const write = this.writeChain.then(() => writeJsonFile(filePath, snapshot));
+        // A failed write is the caller's error; later flushes still go ahead.
+        this.writeChain = write.catch(() => undefined);
+        await write;
+    }
+}
+
+/**
+ * CachedEmbeddingProvider - Wraps an embedding provider so texts that were
+ * embedded before are served from an EmbeddingCache. Only the cache misses of
+ * a batch are sent to the underlying model.
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+    readonly provider: string;
+    readonly model: string;
+    readonly dimension: number;
+    private modelKey: string;
+
+    constructor(readonly inner: EmbeddingProvider, readonly cache: EmbeddingCache) {
+        this.provider = inner.provider;
+        this.model = inner.model;
+        this.dimension = inner.dimension;
+        this.modelKey = `${inner.provider}:${inner.model}/${inner.dimension}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const cached = await this.cache.getMany(this.modelKey, texts);
+        const missing = [...new Set(texts.filter((_, i) => cached[i] === undefined))];
+        if (missing.length > 0) {
+            const vectors = await this.inner.embed(missing);
+            await this.cache.setMany(this.modelKey, missing, vectors);
+            const fresh = new Map(missing.map((text, i) => [text, vectors[i]]));
+            return texts.map((text, i) => cached[i] ?? fresh.get(text)!);
+        }
+        return cached as number[][];
+    }
+}
+
+/**
+ * Creates the embedding cache configured by the environment: a file in the data
+ * directory holding PETER_EMBEDDING_CACHE_SIZE vectors, or none when
+ * PETER_EMBEDDING_CACHE=off.
+ */
+export function createEmbeddingCache(): EmbeddingCache | null {
+    if (process.env.PETER_EMBEDDING_CACHE === 'off') return null;
+    const size = process.env.PETER_EMBEDDING_CACHE_SIZE;
+    const maxEntries = size ? Number(size) : DEFAULT_MAX_ENTRIES;
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+        throw new Error(`PETER_EMBEDDING_CACHE_SIZE must be a positive integer, got "${size}"`);
+    }
+    return new EmbeddingCache(dataPath('embedding-cache.json'), maxEntries);
+}
@@ -0,0 +1,75 @@
+// scripted conversations for the memory-quality evaluation (see memoryEval.ts)
+
+import { EvalScenario } from './memoryEval.ts';
+
+export const SCENARIOS: EvalScenario[] = [
+    {
+        name: 'name-correction',
+        description: 'A corrected name replaces the old one instead of adding a second name',
+        turns: [
+            { user: 'Hi, my name is John.', salient: true },
+            { user: 'Actually, call me Jack.', salient: true, correction: { now: 'Jack', replaced: 'John' } }
+        ],
+        expect: { facts: { 'user.name': 'Jack' }, memoryCount: 1 },
+        probes: [{ ask: 'What is my name?', expect: 'Jack' }]
+    },
+    {
+        name: 'greetings',
+        description: 'Small talk is not remembered',
+        turns: [
+            { user: 'hey', salient: false },
+            { user: 'Good morning!', salient: false },
+            { user: 'How are you doing today?', salient: false },
+            { user: 'Thanks, that was helpful.', salient: false }
+        ],
+        expect: { memoryCount: 0 }
+    },
+    {
+        name: 'repeated-fact',
+        description: 'Saying the same thing twice does not store it twice',
+        turns: [
+            { user: 'My favourite color is green.', salient: true },
+            { user: 'Like I said, my favourite color is green.', salient: false }
+        ],
+        expect: { facts: { 'user.favourite_color': 'green' }, memoryCount: 1 }
+    },
+    {
+        name: 'family-facts',
+        description: 'Facts about other people are kept apart and each one can be found',
+        turns: [
+            { user: 'My sister is called Ana.', salient: true },
+            { user: "My sister's birthday is March 12.", salient: true },
+            { user: 'My brother is called Leo.', salient: true }
+        ],
+        expect: {
+            memories: ['Ana', 'March 12', 'Leo'],
+            facts: { 'sister.name': 'Ana', 'sister.birthday': 'March 12', 'brother.name': 'Leo' }
+        },
+        probes: [
+            { ask: "When is my sister's birthday?", expect: 'March 12' },
+            { ask: 'What is my brother called?', expect: 'Leo' }
+        ]
+    },
+    {
+        name: 'move',
+        description: 'Moving replaces the old city, and unrelated facts survive',
+        turns: [
+            { user: 'I live in Berlin.', salient: true },
+            { user: 'I work at Acme.', salient: true },
+            { user: 'Big news: I moved to Lisbon!', salient: true, correction: { now: 'Lisbon', replaced: 'Berlin' } }
+        ],
+        expect: { memories: ['Acme'], facts: { 'user.city': 'Lisbon', 'user.employer': 'Acme' } },
+        probes: [{ ask: 'Do I live in Berlin or in Lisbon these days?', expect: 'Lisbon' }]
+    },
+    {
+        name: 'preferences-in-chatter',
+        description: 'A preference mentioned in passing is remembered, the chatter around it is not',
+        turns: [
+            { user: 'Ugh, long day.', salient: false },
+            { user: 'Anyway. I hate cilantro, by the way.', salient: true },
+            { user: 'Can you suggest something for dinner?', salient: false }
+        ],
+        expect: { memories: ['cilantro'], memoryCount: 1 },
+        probes: [{ ask: 'Should I avoid cilantro?', expect: 'cilantro' }]
+    }
+];
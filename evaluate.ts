@@ -0,0 +1,93 @@
+import dotenv from 'dotenv';
+import { readFile } from 'fs/promises';
+import { SCENARIOS } from './evalScenarios.ts';
+import { readJsonFile, writeJsonFile } from './fileStorage.ts';
+import { setLogLevel } from './logger.ts';
+import { compareToBaseline, createScriptedModels, EvalReport, EvalScenario, formatReport, runEvaluation } from './memoryEval.ts';
+import { createModelRoles } from './providers.ts';
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage: evaluate.ts [options]
+  --real               Use the models configured in the environment instead of the scripted ones
+  --tools              Let Peter use its memory tools during the scenarios
+  --scenario <name>    Run only this scenario (repeatable)
+  --scenarios <file>   Load scenarios from a JSON file instead of the built-in ones
+  --baseline <file>    Compare against a recorded report; regressions fail the run
+  --record <file>      Save this run's report, e.g. as a new baseline
+  --verbose            Show Peter's own logging while the scenarios run`;
+
+interface EvaluateArgs {
+    real: boolean;
+    tools: boolean;
+    only: string[];
+    scenariosPath?: string;
+    baselinePath?: string;
+    recordPath?: string;
+    verbose: boolean;
+}
+
+function parseArgs(argv: string[]): EvaluateArgs {
+    const args: EvaluateArgs = { real: false, tools: false, only: [], verbose: false };
+    for (let i = 0; i < argv.length; i++) {
+        const value = () => {
+            const next = argv[++i];
+            if (next === undefined) throw new Error(`${argv[i - 1]} needs a value\n${USAGE}`);
+            return next;
+        };
+        switch (argv[i]) {
+            case '--real': args.real = true; break;
+            case '--tools': args.tools = true; break;
+            case '--scenario': args.only.push(value()); break;
+            case '--scenarios': args.scenariosPath = value(); break;
+            case '--baseline': args.baselinePath = value(); break;
+            case '--record': args.recordPath = value(); break;
+            case '--verbose': args.verbose = true; break;
+            default: throw new Error(`Unknown option ${argv[i]}\n${USAGE}`);
+        }
+    }
+    return args;
+}
+
+async function evaluate() {
+    const args = parseArgs(process.argv.slice(2));
+    let scenarios: EvalScenario[] = args.scenariosPath ? JSON.parse(await readFile(args.scenariosPath, 'utf8')) : SCENARIOS;
+    if (args.only.length > 0) {
+        const unknown = args.only.filter(name => !scenarios.some(scenario => scenario.name === name));
+        if (unknown.length > 0) throw new Error(`Unknown scenario(s): ${unknown.join(', ')}`);
+        scenarios = scenarios.filter(scenario => args.only.includes(scenario.name));
+    }
+    const baseline = args.baselinePath ? await readJsonFile<EvalReport | null>(args.baselinePath, null) : null;
+    if (args.baselinePath && !baseline) throw new Error(`No baseline at ${args.baselinePath}`);
+
+    // The memory pipeline logs every step; keep the report readable unless asked.
+    setLogLevel(args.verbose ? 'debug' : 'warn');
+    const report = await runEvaluation(scenarios, args.real ? createModelRoles() : createScriptedModels(), {
+        memoryTools: args.tools,
+        onScenario: result => console.log(`${result.failures.length === 0 ? 'pass' : 'FAIL'}  ${result.name}`)
+    });
+
+    console.log(`\n${formatReport(report, baseline ?? undefined)}`);
+    if (args.recordPath) {
+        await writeJsonFile(args.recordPath, report);
+        console.log(`Report saved to ${args.recordPath}.`);
+    }
+    if (baseline) {
+        const regressions = compareToBaseline(report, baseline);
+        if (regressions.length > 0) {
+            console.log(`\nRegressions against ${args.baselinePath}:`);
+            regressions.forEach(regression => console.log(`- ${regression}`));
+            process.exitCode = 1;
+        } else {
+            console.log(`\nNo regressions against ${args.baselinePath}.`);
+        }
+    } else if (report.metrics.scenariosPassed < report.metrics.scenarios) {
+        process.exitCode = 1;
+    }
+}
+
+evaluate().catch(error => {
+    console.error('Error in evaluation:', error.message || error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,196 @@
+// structured facts: subject.attribute = value, with validity ranges
+
+import { v4 as uuidv4 } from 'uuid';
+import { JsonDocument } from './fileStorage.ts';
+
+/**
+ * One value of one property of one entity, e.g. sister.birthday = "March 12".
+ * A fact is current until a different value for the same key replaces it; the
+ * old fact then gets a validTo and stays as history.
+ */
+export interface StructuredFact {
+    id: string;
+    // Entity and property keys, lowercase (e.g. "user", "name").
+    subject: string;
+    attribute: string;
+    value: string;
+    // 0 to 1: how sure the source was.
+    confidence: number;
+    // The memory the fact was extracted from; null when set directly.
+    sourceMemoryId: string | null;
+    validFrom: number;
+    // When the fact was replaced or retracted; null while it is current.
+    validTo: number | null;
+}
+
+export type FactInput = Pick<StructuredFact, 'subject' | 'attribute' | 'value' | 'confidence' | 'sourceMemoryId'>;
+
+export interface FactChange {
+    outcome: 'created' | 'updated' | 'unchanged';
+    fact: StructuredFact;
+    // The fact that was replaced, for updates.
+    previous?: StructuredFact;
+}
+
+// Per namespace: every fact, current and historical.
+type FactFile = Record<string, StructuredFact[]>;
+
+/**
+ * Normalizes an entity or property name into a key part: lowercase, with runs
+ * of other characters turned into underscores ("Date of Birth" -> "date_of_birth").
+ *
+ * @param name The name.
+ */
+export function normalizeKeyPart(name: string): string {
+    return name.trim().toLowerCase().replace(/[^a-z0-9-]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Parses a fact key such as "user.name" or "sister.birthday".
+ *
+ * @param key The key.
+ */
+export function parseFactKey(key: string): { subject: string; attribute: string } {
+    const separator = key.indexOf('.');
+    const subject = separator === -1 ? '' : normalizeKeyPart(key.slice(0, separator));
+    const attribute = separator === -1 ? '' : normalizeKeyPart(key.slice(separator + 1));
+    if (!subject || !attribute) {
+        throw new Error(`Invalid fact key "${key}": use subject.attribute, e.g. sister.birthday`);
+    }
+    return { subject, attribute };
+}
+
+export function formatFactKey(fact: { subject: string; attribute: string }): string {
+    return `${fact.subject}.${fact.attribute}`;
+}
+
+function sameValue(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * FactStore - Keeps structured facts per namespace in a local JSON file. Facts
+ * are keyed by subject and attribute, so a new value replaces the old one
+ * deterministically instead of relying on text similarity.
+ */
+export class FactStore {
+    private document: JsonDocument<FactFile>;
+
+    constructor(filePath?: string) {
+        this.document = new JsonDocument<FactFile>(filePath, () => ({}));
+    }
+
+    /**
+     * Records a fact. The same value as the current one only refreshes its
+     * confidence and source; a different value closes the current fact and
+     * becomes the new current one.
+     *
+     * @param namespace The owner's namespace.
+     * @param input The fact.
+     */
+    async assert(namespace: string, input: FactInput): Promise<FactChange> {
+        const subject = normalizeKeyPart(input.subject);
+        const attribute = normalizeKeyPart(input.attribute);
+        if (!subject || !attribute || !input.value.trim()) {
+            throw new Error('A fact needs a subject, an attribute and a value');
+        }
+        const now = Date.now();
+        return this.document.update(file => {
+            const facts = file[namespace] = file[namespace] || [];
+            const current = facts.find(fact =>
+                fact.subject === subject && fact.attribute === attribute && fact.validTo === null
+            );
+            if (current && sameValue(current.value, input.value)) {
+                current.confidence = Math.max(current.confidence, input.confidence);
+                current.sourceMemoryId = input.sourceMemoryId ?? current.sourceMemoryId;
+                return { outcome: 'unchanged' as const, fact: { ...current } };
+            }
+            const fact: StructuredFact = {
+                id: uuidv4(),
+                subject,
+                attribute,
+                value: input.value.trim(),
+                confidence: Math.min(1, Math.max(0, input.confidence)),
+                sourceMemoryId: input.sourceMemoryId,
+                validFrom: now,
+                validTo: null
+            };
+            facts.push(fact);
+            if (!current) {
+                return { outcome: 'created' as const, fact: { ...fact } };
+            }
+            current.validTo = now;
+            return { outcome: 'updated' as const, fact: { ...fact }, previous: { ...current } };
+        });
+    }
+
+    /**
+     * Current facts, optionally narrowed down.
+     *
+     * @param namespace The owner's namespace.
+     * @param filter (Optional) Subject, attribute or source memory to match.
+     */
+    async current(
+        namespace: string,
+        filter: { subject?: string; attribute?: string; sourceMemoryId?: string } = {}
+    ): Promise<StructuredFact[]> {
+        const file = await this.document.read();
+        return (file[namespace] || [])
+            .filter(fact => fact.validTo === null
+                && (filter.subject === undefined || fact.subject === normalizeKeyPart(filter.subject))
+                && (filter.attribute === undefined || fact.attribute === normalizeKeyPart(filter.attribute))
+                && (filter.sourceMemoryId === undefined || fact.sourceMemoryId === filter.sourceMemoryId))
+            .map(fact => ({ ...fact }))
+            .sort((a, b) => a.subject.localeCompare(b.subject) || a.attribute.localeCompare(b.attribute));
+    }
+
+    // Every value a key has had, oldest first.
+    async history(namespace: string, subject: string, attribute: string): Promise<StructuredFact[]> {
+        const file = await this.document.read();
+        return (file[namespace] || [])
+            .filter(fact => fact.subject === subject && fact.attribute === attribute)
+            .map(fact => ({ ...fact }))
+            .sort((a, b) => a.validFrom - b.validFrom);
+    }
+
+    /**
+     * Ends the current facts taken from a memory, e.g. when it is deleted or no
+     * longer states them. They stay as history.
+     *
+     * @param namespace The owner's namespace.
+     * @param memoryId The source memory.
+     * @param keep (Optional) Keys ("subject.attribute") to leave current.
+     * @returns How many facts were retracted.
+     */
+    async retractBySource(namespace: string, memoryId: string, keep: string[] = []): Promise<number> {
+        const stale = (await this.current(namespace, { sourceMemoryId: memoryId }))
+            .filter(fact => !keep.includes(formatFactKey(fact)));
+        if (stale.length === 0) return 0;
+        const now = Date.now();
+        const ids = new Set(stale.map(fact => fact.id));
+        await this.document.update(file => {
+            for (const fact of file[namespace] || []) {
+                if (ids.has(fact.id)) fact.validTo = now;
+            }
+        });
+        return stale.length;
+    }
+
+    // Points facts taken from some memories at another, e.g. after a merge.
+    async reassignSource(namespace: string, fromIds: string[], toId: string): Promise<void> {
+        const from = new Set(fromIds);
+        const file = await this.document.read();
+        if (!(file[namespace] || []).some(fact => fact.sourceMemoryId && from.has(fact.sourceMemoryId))) return;
+        await this.document.update(current => {
+            for (const fact of current[namespace] || []) {
+                if (fact.sourceMemoryId && from.has(fact.sourceMemoryId)) fact.sourceMemoryId = toId;
+            }
+        });
+    }
+
+    async deleteNamespace(namespace: string): Promise<void> {
+        await this.document.update(file => {
+            delete file[namespace];
+        });
+    }
+}
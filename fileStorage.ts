@@ -0,0 +1,94 @@
+// local file helpers
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+// Directory holding all of Peter's local state (vector store, caches, ...).
+export function dataDir(): string {
+    return process.env.PETER_DATA_DIR || '.peter';
+}
+
+export function dataPath(fileName: string): string {
+    return path.join(dataDir(), fileName);
+}
+
+/**
+ * Reads and parses a JSON file, returning the fallback if it does not exist yet.
+ *
+ * @param filePath Path to the file.
+ * @param fallback Value returned when the file is missing.
+ */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+    try {
+        const raw = await fs.readFile(filePath, 'utf8');
+        return JSON.parse(raw) as T;
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return fallback;
+        throw error;
+    }
+}
+
+/**
+ * Writes a JSON file atomically (write to a temp file, then rename) so a crash
+ * mid-write never leaves a truncated file behind.
+ *
+ * @param filePath Path to the file.
+ * @param data Value to serialize.
+ */
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+    await writeFileAtomic(filePath, JSON.stringify(data));
+}
+
+async function writeFileAtomic(filePath: string, text: string): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, text, 'utf8');
+    await fs.rename(tempPath, filePath);
+}
+
+/**
+ * JsonDocument - A JSON value persisted to one file. It is loaded lazily on first
+ * access and every update is written back atomically, one write at a time.
+ * Without a file path the document lives in memory only (useful for tests).
+ */
+export class JsonDocument<T> {
+    private value: T | null = null;
+    private loading: Promise<T> | null = null;
+    private writeChain: Promise<void> = Promise.resolve();
+
+    constructor(private filePath: string | undefined, private createDefault: () => T) {}
+
+    async read(): Promise<T> {
+        if (this.value !== null) return this.value;
+        if (!this.loading) {
+            this.loading = (async () => {
+                const value = this.filePath
+                    ? await readJsonFile<T | null>(this.filePath, null)
+                    : null;
+                this.value = value ?? this.createDefault();
+                return this.value;
+            })();
+        }
+        return this.loading;
+    }
+
+    /**
+     * Applies a mutation to the document and persists it.
+     *
+     * @param mutate Changes the value in place and may return a result.
+     */
+    async update<R>(mutate: (value: T) => R): Promise<R> {
+        const value = await this.read();
+        const result = mutate(value);
+        if (this.filePath) {
+            const filePath = this.filePath;
+            // Serialize now so later mutations don't leak into this write.
+            const snapshot = JSON.stringify(value);
+            const write = this.writeChain.then(() => writeFileAtomic(filePath, snapshot));
+            // A failed write is the caller's error; later writes still go ahead.
+            this.writeChain = write.catch(() => undefined);
+            await write;
+        }
+        return result;
+    }
+}
@@ -0,0 +1,167 @@
+import { randomUUID } from 'crypto';
+import {
+    Content,
+    FunctionCall,
+    FunctionDeclarationSchema,
+    GoogleGenerativeAI,
+    Part,
+    Tool
+} from '@google/generative-ai';
+import {
+    ChatMessage,
+    ChatOptions,
+    ChatProvider,
+    ChatResult,
+    EmbeddingProvider,
+    splitSystemPrompt,
+    StreamEvent,
+    ToolCall
+} from './llmProvider.ts';
+
+const EMBEDDING_DIMENSIONS: Record<string, number> = {
+    'text-embedding-004': 768,
+    'embedding-001': 768,
+};
+
+function createClient(): GoogleGenerativeAI {
+    if (!process.env.GEMINI_API_KEY) {
+        throw new Error('GEMINI_API_KEY is not set');
+    }
+    return new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+}
+
+// Gemini calls the assistant role "model", and tool results are "function" turns keyed by tool name.
+function toContents(turns: ChatMessage[]): Content[] {
+    const contents: Content[] = turns.map(turn => {
+        if (turn.role === 'tool') {
+            let response: object;
+            try {
+                const parsed = JSON.parse(turn.content);
+                response = typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : { result: parsed };
+            } catch {
+                response = { result: turn.content };
+            }
+            return { role: 'function', parts: [{ functionResponse: { name: turn.toolName || '', response } }] };
+        }
+        const parts: Part[] = turn.content ? [{ text: turn.content }] : [];
+        for (const call of turn.toolCalls || []) {
+            parts.push({ functionCall: { name: call.name, args: call.arguments } });
+        }
+        return { role: turn.role === 'assistant' ? 'model' : 'user', parts };
+    });
+    return contents.length > 0 ? contents : [{ role: 'user', parts: [{ text: 'Please respond.' }] }];
+}
+
+// Gemini accepts a subset of JSON Schema; drop the keywords it would reject.
+function toGeminiSchema(schema: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const key of ['type', 'description', 'enum', 'required', 'nullable', 'format']) {
+        if (schema[key] !== undefined) result[key] = schema[key];
+    }
+    if (schema.items) result.items = toGeminiSchema(schema.items);
+    if (schema.properties) {
+        result.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([name, property]) => [name, toGeminiSchema(property as Record<string, any>)])
+        );
+    }
+    return result;
+}
+
+function toTools(options: ChatOptions): Tool[] | undefined {
+    if (!options.tools?.length) return undefined;
+    return [{
+        functionDeclarations: options.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: toGeminiSchema(tool.parameters) as FunctionDeclarationSchema
+        }))
+    }];
+}
+
+// Gemini does not give calls an ID, so one is made up to pair each call with its result.
+function toToolCalls(calls: FunctionCall[] | undefined): ToolCall[] {
+    return (calls || []).map(call => ({
+        id: randomUUID(),
+        name: call.name,
+        arguments: (call.args || {}) as Record<string, unknown>
+    }));
+}
+
+export class GeminiChatProvider implements ChatProvider {
+    readonly provider = 'gemini';
+    private client: GoogleGenerativeAI;
+
+    constructor(readonly model: string = 'gemini-1.5-flash') {
+        this.client = createClient();
+    }
+
+    // Builds the model and request shared by complete() and stream().
+    private prepare(messages: ChatMessage[], options: ChatOptions) {
+        const { system, turns } = splitSystemPrompt(messages);
+        const generativeModel = this.client.getGenerativeModel({
+            model: this.model,
+            ...(system ? { systemInstruction: system } : {})
+        });
+        const request = {
+            contents: toContents(turns),
+            tools: toTools(options),
+            generationConfig: {
+                temperature: options.temperature,
+                maxOutputTokens: options.maxTokens,
+                ...(options.json ? { responseMimeType: 'application/json' } : {})
+            }
+        };
+        return { generativeModel, request };
+    }
+
+    async complete(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+        const { generativeModel, request } = this.prepare(messages, options);
+        const result = await generativeModel.generateContent(request, { signal: options.signal });
+        const usage = result.response.usageMetadata;
+        const toolCalls = toToolCalls(result.response.functionCalls());
+        return {
+            content: result.response.text(),
+            usage: usage && {
+                inputTokens: usage.promptTokenCount,
+                outputTokens: usage.candidatesTokenCount
+            },
+            ...(toolCalls.length > 0 ? { toolCalls } : {})
+        };
+    }
+
+    async *stream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<StreamEvent> {
+        const { generativeModel, request } = this.prepare(messages, options);
+        const result = await generativeModel.generateContentStream(request, { signal: options.signal });
+        for await (const chunk of result.stream) {
+            const delta = chunk.text();
+            if (delta) yield { type: 'text', text: delta };
+            for (const call of toToolCalls(chunk.functionCalls())) {
+                yield { type: 'tool_call', call };
+            }
+        }
+    }
+}
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+    readonly provider = 'gemini';
+    readonly dimension: number;
+    private client: GoogleGenerativeAI;
+
+    constructor(readonly model: string = 'text-embedding-004') {
+        const dimension = EMBEDDING_DIMENSIONS[model];
+        if (!dimension) {
+            throw new Error(`Unknown dimension for embedding model ${model}`);
+        }
+        this.dimension = dimension;
+        this.client = createClient();
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        if (texts.length === 0) return [];
+        const generativeModel = this.client.getGenerativeModel({ model: this.model });
+        const response = await generativeModel.batchEmbedContents({
+            requests: texts.map(text => ({ content: { role: 'user', parts: [{ text }] } }))
+        });
+        return response.embeddings.map(embedding => embedding.values);
+    }
+}
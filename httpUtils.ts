@@ -0,0 +1,165 @@
+// helpers for the HTTP API server
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { log } from './logger.ts';
+import { ServiceUnavailableError } from './resilience.ts';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * An error with an HTTP status, rendered to the client as a JSON error body.
+ */
+export class HttpError extends Error {
+    constructor(readonly status: number, message: string, readonly details?: unknown) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    const payload = JSON.stringify(body);
+    res.writeHead(status, {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Length': Buffer.byteLength(payload)
+    });
+    res.end(payload);
+}
+
+// Renders any error as { error: { status, message, details? } }. An unreachable backend is a 503.
+export function sendError(res: ServerResponse, error: unknown): void {
+    const httpError = error instanceof HttpError
+        ? error
+        : error instanceof ServiceUnavailableError
+            ? new HttpError(503, `${error.service} is unavailable; try again later`)
+            : new HttpError(500, 'Internal server error');
+    if (!(error instanceof HttpError)) {
+        log.error('Unhandled error in request', { error });
+    }
+    if (res.headersSent) {
+        res.end();
+        return;
+    }
+    sendJson(res, httpError.status, {
+        error: {
+            status: httpError.status,
+            message: httpError.message,
+            ...(httpError.details !== undefined ? { details: httpError.details } : {})
+        }
+    });
+}
+
+/**
+ * Reads and parses a JSON request body. An empty body parses as {}.
+ *
+ * @param req The incoming request.
+ */
+export async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw new HttpError(413, 'Request body too large');
+        }
+        chunks.push(chunk);
+    }
+    const raw = Buffer.concat(chunks).toString('utf8').trim();
+    if (!raw) return {};
+    let body: unknown;
+    try {
+        body = JSON.parse(raw);
+    } catch {
+        throw new HttpError(400, 'Request body is not valid JSON');
+    }
+    if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+        throw new HttpError(400, 'Request body must be a JSON object');
+    }
+    return body as Record<string, unknown>;
+}
+
+/**
+ * Reads the token of the request's "Authorization: Bearer <token>" header.
+ *
+ * @param req The incoming request.
+ */
+export function readBearerToken(req: IncomingMessage): string {
+    const header = req.headers.authorization || '';
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match) {
+        throw new HttpError(401, 'Missing bearer token');
+    }
+    return match[1].trim();
+}
+
+// Compares two tokens in constant time.
+export function tokensEqual(given: string, expected: string): boolean {
+    const a = Buffer.from(given);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Field validators. Each throws a 400 HttpError naming the offending field.
+
+export function requireString(body: Record<string, unknown>, field: string): string {
+    const value = body[field];
+    if (typeof value !== 'string' || value.trim() === '') {
+        throw new HttpError(400, `"${field}" must be a non-empty string`);
+    }
+    return value;
+}
+
+export function optionalString(body: Record<string, unknown>, field: string): string | undefined {
+    if (body[field] === undefined) return undefined;
+    return requireString(body, field);
+}
+
+export function optionalStringArray(body: Record<string, unknown>, field: string): string[] | undefined {
+    const value = body[field];
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+        throw new HttpError(400, `"${field}" must be an array of strings`);
+    }
+    return value;
+}
+
+export function optionalInteger(
+    value: string | null | undefined,
+    field: string,
+    min: number,
+    max: number
+): number | undefined {
+    if (value === null || value === undefined || value === '') return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+        throw new HttpError(400, `"${field}" must be an integer between ${min} and ${max}`);
+    }
+    return parsed;
+}
+
+export function optionalJsonObject(value: string | null, field: string): Record<string, any> | undefined {
+    if (value === null || value === '') return undefined;
+    try {
+        const parsed = JSON.parse(value);
+        if (parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+    } catch {
+        // fall through to the validation error
+    }
+    throw new HttpError(400, `"${field}" must be a JSON object`);
+}
+
+/**
+ * Starts a Server-Sent Events response and returns a function that sends one event.
+ *
+ * @param res The server response.
+ */
+export function startEventStream(res: ServerResponse): (event: string, data: unknown) => void {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+    });
+    return (event, data) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+}
@@ -0,0 +1,143 @@
+// search query syntax and rank fusion for hybrid keyword + vector search
+
+import { MetadataFilter } from './vectorStore.ts';
+
+/**
+ * A search query split into its parts. For example
+ * `tag:car type:important after:2024-01-01 "AB 123" plate` becomes the text
+ * `AB 123 plate`, the phrase `AB 123` and a filter on tags, type and timestamp.
+ */
+export interface ParsedQuery {
+    // Free text (including the words of quoted phrases), for the keyword and vector rankings.
+    text: string;
+    // Quoted phrases; results must contain each of them.
+    phrases: string[];
+    filter: MetadataFilter;
+}
+
+/**
+ * How a search result ranked on each signal. A signal is null when the result
+ * was not among that ranking's candidates.
+ */
+export interface SearchScores {
+    // Cosine similarity to the query.
+    vector: number | null;
+    // BM25 keyword score.
+    keyword: number | null;
+    // Reciprocal rank fusion of the two rankings; results are sorted by this.
+    fused: number;
+}
+
+// Reciprocal rank fusion constant: higher values flatten the gap between top ranks.
+const RRF_K = 60;
+
+function parseDate(value: string, operator: string): number {
+    const time = /^\d{4}-\d{2}-\d{2}$/.test(value) ? Date.parse(`${value}T00:00:00`) : Date.parse(value);
+    if (Number.isNaN(time)) {
+        throw new Error(`Invalid date in ${operator}:${value}; use YYYY-MM-DD`);
+    }
+    return time;
+}
+
+/**
+ * Parses search syntax: `tag:<tag>` (repeatable, all must match), `type:<type>`,
+ * `after:<date>` and `before:<date>` (YYYY-MM-DD, on the memory's timestamp;
+ * `before` excludes the day itself) and `"quoted phrases"`. Everything else is
+ * free text.
+ *
+ * @param query The raw query.
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+    const phrases: string[] = [];
+    const conditions: MetadataFilter[] = [];
+    const words: string[] = [];
+    const pattern = /"([^"]*)"|(\S+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(query)) !== null) {
+        if (match[1] !== undefined) {
+            const phrase = match[1].trim();
+            if (phrase) {
+                phrases.push(phrase);
+                words.push(phrase);
+            }
+            continue;
+        }
+        const token = match[2];
+        const operator = /^(tag|type|after|before):(.+)$/i.exec(token);
+        if (!operator) {
+            words.push(token);
+            continue;
+        }
+        const [, name, value] = operator;
+        switch (name.toLowerCase()) {
+            case 'tag':
+                conditions.push({ tags: value.toLowerCase() });
+                break;
+            case 'type':
+                conditions.push({ type: value });
+                break;
+            case 'after':
+                conditions.push({ timestamp: { $gte: parseDate(value, 'after') } });
+                break;
+            case 'before':
+                conditions.push({ timestamp: { $lt: parseDate(value, 'before') } });
+                break;
+        }
+    }
+    const filter = conditions.length === 0 ? {} : conditions.length === 1 ? conditions[0] : { $and: conditions };
+    return { text: words.join(' '), phrases, filter };
+}
+
+// Combines two filters so both must match.
+export function combineFilters(a: MetadataFilter, b: MetadataFilter): MetadataFilter {
+    if (Object.keys(a).length === 0) return b;
+    if (Object.keys(b).length === 0) return a;
+    return { $and: [a, b] };
+}
+
+/**
+ * Whether a text contains every phrase, ignoring case and spacing differences.
+ *
+ * @param text The text to check.
+ * @param phrases The phrases.
+ */
+export function containsPhrases(text: string, phrases: string[]): boolean {
+    const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ');
+    const normalized = normalize(text);
+    return phrases.every(phrase => normalized.includes(normalize(phrase.trim())));
+}
+
+/**
+ * Fuses two rankings with reciprocal rank fusion: each result scores the sum of
+ * 1 / (k + rank) over the rankings it appears in, so results both rankings like
+ * rise to the top without their raw scores needing to be comparable.
+ *
+ * @param vector IDs and similarities, best first.
+ * @param keyword IDs and BM25 scores, best first.
+ * @returns Scores per ID, best first.
+ */
+export function fuseRankings(
+    vector: { id: string; score: number }[],
+    keyword: { id: string; score: number }[]
+): Map<string, SearchScores> {
+    const fused = new Map<string, SearchScores>();
+    const entry = (id: string) => {
+        let scores = fused.get(id);
+        if (!scores) {
+            scores = { vector: null, keyword: null, fused: 0 };
+            fused.set(id, scores);
+        }
+        return scores;
+    };
+    vector.forEach((match, rank) => {
+        const scores = entry(match.id);
+        scores.vector = match.score;
+        scores.fused += 1 / (RRF_K + rank + 1);
+    });
+    keyword.forEach((match, rank) => {
+        const scores = entry(match.id);
+        scores.keyword = match.score;
+        scores.fused += 1 / (RRF_K + rank + 1);
+    });
+    return new Map([...fused.entries()].sort(([, a], [, b]) => b.fused - a.fused));
+}
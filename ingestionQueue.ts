@@ -0,0 +1,86 @@
+// background jobs that store what Peter learned, off the reply path
+
+import { log } from './logger.ts';
+
+export type IngestionJob = () => Promise<void>;
+
+// Jobs run at once, across users, unless PETER_INGESTION_CONCURRENCY says otherwise.
+const DEFAULT_CONCURRENCY = 2;
+
+function concurrencyFromEnv(): number {
+    const value = parseInt(process.env.PETER_INGESTION_CONCURRENCY || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : DEFAULT_CONCURRENCY;
+}
+
+/**
+ * IngestionQueue - Runs memory ingestion in the background, so a reply doesn't
+ * wait for the model and embedding calls that store it. Each user's jobs run
+ * one at a time, in the order they were queued, so two quick conflicting facts
+ * ("I live in Austin", "I moved to Denver") are resolved in order instead of
+ * racing each other's similarity checks. Jobs of different users run side by
+ * side, at most `concurrency` at once.
+ *
+ * The queue lives in memory only; callers make jobs durable themselves (see
+ * MemoryManager.queueMemory) and call flush() before exiting.
+ */
+export class IngestionQueue {
+    readonly concurrency: number;
+    // Per user: jobs waiting to run, oldest first. Map order is the order users first queued.
+    private waiting = new Map<string, IngestionJob[]>();
+    // Users with a job running.
+    private running = new Set<string>();
+    private drained: (() => void)[] = [];
+
+    constructor(concurrency: number = concurrencyFromEnv()) {
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+            throw new Error('Ingestion concurrency must be a positive integer');
+        }
+        this.concurrency = concurrency;
+    }
+
+    /**
+     * Queues a job behind the user's earlier ones. Failures are logged, never
+     * thrown: nobody is waiting on the result.
+     *
+     * @param userId The user the job belongs to.
+     * @param job The job.
+     */
+    enqueue(userId: string, job: IngestionJob): void {
+        this.waiting.set(userId, [...(this.waiting.get(userId) || []), job]);
+        this.pump();
+    }
+
+    // Jobs queued or running.
+    get size(): number {
+        let queued = 0;
+        for (const jobs of this.waiting.values()) queued += jobs.length;
+        return queued + this.running.size;
+    }
+
+    /**
+     * Resolves once every job queued so far, and any queued meanwhile, has
+     * finished.
+     */
+    flush(): Promise<void> {
+        if (this.size === 0) return Promise.resolve();
+        return new Promise(resolve => this.drained.push(resolve));
+    }
+
+    // Starts jobs while there are free slots and users without a job running.
+    private pump(): void {
+        for (const [userId, jobs] of this.waiting) {
+            if (this.running.size >= this.concurrency) return;
+            if (this.running.has(userId)) continue;
+            const job = jobs.shift()!;
+            if (jobs.length === 0) this.waiting.delete(userId);
+            this.running.add(userId);
+            job()
+                .catch(error => log.error('Error in background ingestion', { userId, error }))
+                .finally(() => {
+                    this.running.delete(userId);
+                    this.pump();
+                    if (this.size === 0) this.drained.splice(0).forEach(resolve => resolve());
+                });
+        }
+    }
+}
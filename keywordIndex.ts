@@ -0,0 +1,245 @@
+// local BM25 keyword index, kept in step with the vector store
+
+import { dataPath, JsonDocument } from './fileStorage.ts';
+import {
+    ListOptions,
+    ListPage,
+    RecordMetadata,
+    VectorMatch,
+    VectorQuery,
+    VectorRecord,
+    VectorStore
+} from './vectorStore.ts';
+
+export interface KeywordMatch {
+    id: string;
+    // BM25 score; only comparable within one search.
+    score: number;
+}
+
+interface NamespaceIndex {
+    // Whether every record already in the store has been indexed (see KeywordIndexedStore).
+    built: boolean;
+    // Term frequencies per document.
+    docs: Record<string, Record<string, number>>;
+}
+
+interface IndexFile {
+    version: 1;
+    namespaces: Record<string, NamespaceIndex>;
+}
+
+// BM25 parameters: term frequency saturation and document length normalization.
+const K1 = 1.2;
+const B = 0.75;
+// Records read per page when indexing an existing store.
+const BACKFILL_PAGE_SIZE = 100;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'he', 'in', 'is', 'it',
+    'its', 'of', 'on', 'or', 'she', 'that', 'the', 'to', 'was', 'were', 'will', 'with'
+]);
+
+/**
+ * Splits text into index terms: lowercased words and numbers, minus stopwords.
+ * Codes written with separators ("AB-123", "555-0100") are also indexed joined
+ * ("ab123", "5550100"), so they match however they are typed.
+ *
+ * @param text The text.
+ */
+export function tokenize(text: string): string[] {
+    const terms: string[] = [];
+    for (const chunk of text.toLowerCase().split(/\s+/)) {
+        const parts = chunk.match(/[\p{L}\p{N}]+/gu) || [];
+        terms.push(...parts.filter(part => !STOPWORDS.has(part)));
+        if (parts.length > 1 && parts.some(part => /\d/.test(part))) {
+            terms.push(parts.join(''));
+        }
+    }
+    return terms;
+}
+
+// The text of a record that is indexed: content, summary and tags.
+function indexedText(metadata: RecordMetadata): string {
+    const tags = Array.isArray(metadata.tags) ? metadata.tags.join(' ') : '';
+    return [metadata.content, metadata.summary, tags].filter(part => typeof part === 'string').join(' ');
+}
+
+function termFrequencies(text: string): Record<string, number> {
+    const frequencies: Record<string, number> = {};
+    for (const term of tokenize(text)) {
+        frequencies[term] = (frequencies[term] || 0) + 1;
+    }
+    return frequencies;
+}
+
+/**
+ * KeywordIndex - A BM25 inverted index over memory text, per namespace, persisted
+ * to a local JSON file. It complements embeddings for exact tokens such as names,
+ * phone numbers, plates and product codes.
+ */
+export class KeywordIndex {
+    private document: JsonDocument<IndexFile>;
+
+    constructor(filePath?: string) {
+        this.document = new JsonDocument<IndexFile>(filePath, () => ({ version: 1, namespaces: {} }));
+    }
+
+    async add(namespace: string, records: VectorRecord[]): Promise<void> {
+        if (records.length === 0) return;
+        await this.document.update(file => {
+            const index = file.namespaces[namespace] = file.namespaces[namespace] || { built: false, docs: {} };
+            for (const record of records) {
+                index.docs[record.id] = termFrequencies(indexedText(record.metadata));
+            }
+        });
+    }
+
+    async remove(namespace: string, ids: string[]): Promise<void> {
+        const file = await this.document.read();
+        const index = file.namespaces[namespace];
+        if (!index || !ids.some(id => index.docs[id])) return;
+        await this.document.update(current => {
+            ids.forEach(id => delete current.namespaces[namespace].docs[id]);
+        });
+    }
+
+    async isBuilt(namespace: string): Promise<boolean> {
+        const file = await this.document.read();
+        return file.namespaces[namespace]?.built === true;
+    }
+
+    async markBuilt(namespace: string): Promise<void> {
+        await this.document.update(file => {
+            const index = file.namespaces[namespace] = file.namespaces[namespace] || { built: false, docs: {} };
+            index.built = true;
+        });
+    }
+
+    async clearNamespace(namespace: string): Promise<void> {
+        await this.document.update(file => {
+            delete file.namespaces[namespace];
+        });
+    }
+
+    /**
+     * Ranks a namespace's documents against the query terms with BM25.
+     *
+     * @param namespace The namespace to search.
+     * @param query The query text; it is tokenized like the documents.
+     * @param limit Maximum number of matches.
+     */
+    async search(namespace: string, query: string, limit: number): Promise<KeywordMatch[]> {
+        const file = await this.document.read();
+        const docs = Object.entries(file.namespaces[namespace]?.docs || {});
+        const terms = [...new Set(tokenize(query))];
+        if (docs.length === 0 || terms.length === 0) return [];
+
+        const lengths = new Map(docs.map(([id, frequencies]) => [
+            id,
+            Object.values(frequencies).reduce((sum, count) => sum + count, 0)
+        ]));
+        const averageLength = [...lengths.values()].reduce((sum, length) => sum + length, 0) / docs.length || 1;
+        const idf = new Map(terms.map(term => {
+            const documentFrequency = docs.filter(([, frequencies]) => frequencies[term]).length;
+            return [term, Math.log(1 + (docs.length - documentFrequency + 0.5) / (documentFrequency + 0.5))];
+        }));
+
+        const matches: KeywordMatch[] = [];
+        for (const [id, frequencies] of docs) {
+            let score = 0;
+            for (const term of terms) {
+                const frequency = frequencies[term];
+                if (!frequency) continue;
+                const norm = 1 - B + B * (lengths.get(id)! / averageLength);
+                score += idf.get(term)! * (frequency * (K1 + 1)) / (frequency + K1 * norm);
+            }
+            if (score > 0) matches.push({ id, score });
+        }
+        return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+}
+
+/**
+ * KeywordIndexedStore - Wraps a vector store so every upsert, content change and
+ * delete also updates the keyword index. Stores that held records before the
+ * index existed are indexed in full on their first keyword search.
+ */
+export class KeywordIndexedStore implements VectorStore {
+    constructor(
+        private inner: VectorStore,
+        readonly index: KeywordIndex,
+        private namespaceName: string = ''
+    ) {}
+
+    async upsert(records: VectorRecord[]): Promise<void> {
+        await this.inner.upsert(records);
+        await this.index.add(this.namespaceName, records);
+    }
+
+    query(query: VectorQuery): Promise<VectorMatch[]> {
+        return this.inner.query(query);
+    }
+
+    fetch(ids: string[]): Promise<VectorRecord[]> {
+        return this.inner.fetch(ids);
+    }
+
+    async delete(ids: string[]): Promise<void> {
+        await this.inner.delete(ids);
+        await this.index.remove(this.namespaceName, ids);
+    }
+
+    list(options?: ListOptions): Promise<ListPage> {
+        return this.inner.list(options);
+    }
+
+    async updateMetadata(id: string, metadata: RecordMetadata): Promise<void> {
+        await this.inner.updateMetadata(id, metadata);
+        // Access stats and links don't change what is indexed; only reindex text changes.
+        if ('content' in metadata || 'summary' in metadata || 'tags' in metadata) {
+            await this.index.add(this.namespaceName, await this.inner.fetch([id]));
+        }
+    }
+
+    namespace(name: string): VectorStore {
+        return new KeywordIndexedStore(this.inner.namespace(name), this.index, name);
+    }
+
+    listNamespaces(): Promise<string[]> {
+        return this.inner.listNamespaces();
+    }
+
+    async deleteNamespace(name: string): Promise<void> {
+        await this.inner.deleteNamespace(name);
+        await this.index.clearNamespace(name);
+    }
+
+    /**
+     * Keyword search over this namespace.
+     *
+     * @param query The query text.
+     * @param limit Maximum number of matches.
+     */
+    async keywordSearch(query: string, limit: number): Promise<KeywordMatch[]> {
+        await this.backfill();
+        return this.index.search(this.namespaceName, query, limit);
+    }
+
+    // Indexes every record already in the namespace, once.
+    private async backfill(): Promise<void> {
+        if (await this.index.isBuilt(this.namespaceName)) return;
+        let cursor: string | undefined;
+        do {
+            const page = await this.inner.list({ limit: BACKFILL_PAGE_SIZE, cursor });
+            await this.index.add(this.namespaceName, page.records);
+            cursor = page.cursor;
+        } while (cursor);
+        await this.index.markBuilt(this.namespaceName);
+    }
+}
+
+// The index behind the default store, in the data directory.
+export function createKeywordIndex(): KeywordIndex {
+    return new KeywordIndex(dataPath('keyword-index.json'));
+}
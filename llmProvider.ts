@@ -0,0 +1,129 @@
+// provider-agnostic model interfaces
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    // On assistant messages: the tools the model called in that turn.
+    toolCalls?: ToolCall[];
+    // On tool messages: the call this message is the result of.
+    toolCallId?: string;
+    toolName?: string;
+}
+
+/**
+ * A function the model may call. Parameters are described with a JSON Schema
+ * object (type, properties, required, ...).
+ */
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+    id: string;
+    name: string;
+    arguments: Record<string, unknown>;
+}
+
+// What a streaming reply is made of: text deltas and, once complete, tool calls.
+export type StreamEvent =
+    | { type: 'text'; text: string }
+    | { type: 'tool_call'; call: ToolCall };
+
+export interface ChatOptions {
+    temperature?: number;
+    maxTokens?: number;
+    // Ask the provider for a JSON object response where supported.
+    json?: boolean;
+    // Cancels the request; streams stop yielding and throw.
+    signal?: AbortSignal;
+    // Tools the model may call instead of (or before) answering.
+    tools?: ToolDefinition[];
+}
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface ChatResult {
+    content: string;
+    usage?: TokenUsage;
+    // Present when the model called tools.
+    toolCalls?: ToolCall[];
+}
+
+/**
+ * ChatProvider - A chat completion model (OpenAI, Anthropic, Gemini or the local stub).
+ */
+export interface ChatProvider {
+    readonly provider: string;
+    readonly model: string;
+    complete(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult>;
+    // Streams the reply as text deltas as the model produces them, followed by any tool calls.
+    stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<StreamEvent>;
+}
+
+/**
+ * EmbeddingProvider - A text embedding model. The dimension is known up front so
+ * vector indexes can be created to match it.
+ */
+export interface EmbeddingProvider {
+    readonly provider: string;
+    readonly model: string;
+    readonly dimension: number;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * The models Peter uses, selectable per role.
+ */
+export interface ModelRoles {
+    // Generates the assistant's replies.
+    reply: ChatProvider;
+    // Summarizes and consolidates memories.
+    summarizer: ChatProvider;
+    // Classifies salience, importance and memory conflicts.
+    classifier: ChatProvider;
+    embedder: EmbeddingProvider;
+}
+
+// Whether an error was caused by aborting the request through ChatOptions.signal.
+export function isAbortError(error: unknown, signal?: AbortSignal): boolean {
+    if (signal?.aborted) return true;
+    const name = (error as { name?: string } | null)?.name;
+    return name === 'AbortError' || name === 'APIUserAbortError';
+}
+
+// Splits chat messages into a single system prompt and the remaining turns, for
+// providers that take the system prompt separately.
+export function splitSystemPrompt(messages: ChatMessage[]): { system: string; turns: ChatMessage[] } {
+    const system = messages
+        .filter(message => message.role === 'system' && message.content)
+        .map(message => message.content)
+        .join('\n\n');
+    return { system, turns: messages.filter(message => message.role !== 'system') };
+}
+
+/**
+ * Collects just the text of a streamed reply, for callers that don't use tools.
+ *
+ * @param events The stream.
+ */
+export async function* streamText(events: AsyncIterable<StreamEvent>): AsyncGenerator<string> {
+    for await (const event of events) {
+        if (event.type === 'text') yield event.text;
+    }
+}
+
+// Parses the JSON arguments of a tool call. Malformed arguments become an empty object,
+// which then fails argument validation with a message the model can act on.
+export function parseToolArguments(json: string): Record<string, unknown> {
+    try {
+        const parsed = JSON.parse(json || '{}');
+        return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+        return {};
+    }
+}
@@ -0,0 +1,91 @@
+// deterministic offline providers, for tests and running without API keys
+
+import { createHash } from 'crypto';
+import {
+    ChatMessage,
+    ChatOptions,
+    ChatProvider,
+    ChatResult,
+    EmbeddingProvider,
+    StreamEvent,
+    ToolCall
+} from './llmProvider.ts';
+
+// Returns the reply text, or the text plus tool calls to exercise tool use offline.
+export type LocalResponder = (
+    messages: ChatMessage[],
+    options: ChatOptions
+) => string | { content: string; toolCalls?: ToolCall[] };
+
+// Echoes the last user turn so replies are predictable.
+const echoResponder: LocalResponder = messages => {
+    const lastUser = [...messages].reverse().find(message => message.role === 'user');
+    return lastUser ? `You said: ${lastUser.content}` : '';
+};
+
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * LocalChatProvider - Never calls the network. Replies come from the given
+ * responder function, which defaults to echoing the last user message.
+ */
+export class LocalChatProvider implements ChatProvider {
+    readonly provider = 'local';
+
+    constructor(readonly model: string = 'stub', private responder: LocalResponder = echoResponder) {}
+
+    async complete(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+        options.signal?.throwIfAborted();
+        const reply = this.responder(messages, options);
+        const { content, toolCalls } = typeof reply === 'string' ? { content: reply, toolCalls: undefined } : reply;
+        return {
+            content,
+            usage: {
+                inputTokens: messages.reduce((sum, message) => sum + countWords(message.content), 0),
+                outputTokens: countWords(content)
+            },
+            ...(toolCalls?.length ? { toolCalls } : {})
+        };
+    }
+
+    // Yields the reply word by word, like a real model would, then any tool calls.
+    async *stream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<StreamEvent> {
+        const { content, toolCalls } = await this.complete(messages, options);
+        for (const piece of content.match(/\S+\s*|\s+/g) || []) {
+            await new Promise(resolve => setImmediate(resolve));
+            options.signal?.throwIfAborted();
+            yield { type: 'text', text: piece };
+        }
+        for (const call of toolCalls || []) {
+            yield { type: 'tool_call', call };
+        }
+    }
+}
+
+/**
+ * LocalEmbeddingProvider - Hashes words into a fixed-size bag-of-words vector.
+ * Texts sharing words end up close together, which is enough for offline runs.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+    readonly provider = 'local';
+
+    constructor(readonly model: string = 'hashed-bow', readonly dimension: number = 256) {}
+
+    private embedOne(text: string): number[] {
+        const vector = new Array(this.dimension).fill(0);
+        const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+        for (const word of words) {
+            const hash = createHash('sha256').update(word).digest();
+            const bucket = hash.readUInt32BE(0) % this.dimension;
+            vector[bucket] += (hash[4] & 1) ? 1 : -1;
+        }
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+        return norm === 0 ? vector : vector.map(value => value / norm);
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedOne(text));
+    }
+}
@@ -0,0 +1,166 @@
+// local file-backed vector store
+
+import { readJsonFile, writeJsonFile } from './fileStorage.ts';
+import {
+    calculateCosineSimilarity,
+    matchesFilter,
+    ListOptions,
+    ListPage,
+    RecordMetadata,
+    VectorMatch,
+    VectorQuery,
+    VectorRecord,
+    VectorStore
+} from './vectorStore.ts';
+
+type LocalStoreFile =
+    | { version: 1; records: Record<string, VectorRecord> }
+    | { version: 2; namespaces: Record<string, Record<string, VectorRecord>> };
+
+// State shared by every namespace view of the same store.
+interface LocalStoreState {
+    filePath?: string;
+    namespaces: Map<string, Map<string, VectorRecord>> | null;
+    loading: Promise<Map<string, Map<string, VectorRecord>>> | null;
+    writeChain: Promise<void>;
+}
+
+/**
+ * LocalVectorStore - A dependency-free vector store that keeps every record in
+ * memory and persists them to a JSON file. Queries are brute-force cosine
+ * similarity, which is plenty for a personal assistant's memory size.
+ *
+ * Pass no file path to get a purely in-memory store (useful for tests).
+ */
+export class LocalVectorStore implements VectorStore {
+    private state: LocalStoreState;
+
+    constructor(filePath?: string, private namespaceName: string = '', state?: LocalStoreState) {
+        this.state = state || { filePath, namespaces: null, loading: null, writeChain: Promise.resolve() };
+    }
+
+    private async loadAll(): Promise<Map<string, Map<string, VectorRecord>>> {
+        const state = this.state;
+        if (state.namespaces) return state.namespaces;
+        if (!state.loading) {
+            state.loading = (async () => {
+                const file: LocalStoreFile = state.filePath
+                    ? await readJsonFile<LocalStoreFile>(state.filePath, { version: 2, namespaces: {} })
+                    : { version: 2, namespaces: {} };
+                // Version 1 files predate namespaces; their records belong to the default namespace.
+                const namespaces = file.version === 1 ? { '': file.records } : file.namespaces;
+                state.namespaces = new Map(
+                    Object.entries(namespaces).map(([name, records]) => [name, new Map(Object.entries(records))])
+                );
+                return state.namespaces;
+            })();
+        }
+        return state.loading;
+    }
+
+    private async load(): Promise<Map<string, VectorRecord>> {
+        const namespaces = await this.loadAll();
+        let records = namespaces.get(this.namespaceName);
+        if (!records) {
+            records = new Map();
+            namespaces.set(this.namespaceName, records);
+        }
+        return records;
+    }
+
+    // Queues a write of the current state so concurrent mutations never interleave on disk.
+    private persist(): Promise<void> {
+        const state = this.state;
+        if (!state.filePath || !state.namespaces) return Promise.resolve();
+        const filePath = state.filePath;
+        const snapshot: LocalStoreFile = {
+            version: 2,
+            namespaces: Object.fromEntries(
+                [...state.namespaces]
+                    .filter(([, records]) => records.size > 0)
+                    .map(([name, records]) => [name, Object.fromEntries(records)])
+            )
+        };
+        const write = state.writeChain.then(() => writeJsonFile(filePath, snapshot));
+        // A failed write is the caller's error; later writes still go ahead.
+        state.writeChain = write.catch(() => undefined);
+        return write;
+    }
+
+    namespace(name: string): VectorStore {
+        return new LocalVectorStore(undefined, name, this.state);
+    }
+
+    async listNamespaces(): Promise<string[]> {
+        const namespaces = await this.loadAll();
+        return [...namespaces]
+            .filter(([, records]) => records.size > 0)
+            .map(([name]) => name);
+    }
+
+    async deleteNamespace(name: string): Promise<void> {
+        const namespaces = await this.loadAll();
+        namespaces.delete(name);
+        await this.persist();
+    }
+
+    async upsert(records: VectorRecord[]): Promise<void> {
+        const store = await this.load();
+        for (const record of records) {
+            store.set(record.id, {
+                id: record.id,
+                values: [...record.values],
+                metadata: { ...record.metadata }
+            });
+        }
+        await this.persist();
+    }
+
+    async query({ vector, topK, filter }: VectorQuery): Promise<VectorMatch[]> {
+        const store = await this.load();
+        const matches: VectorMatch[] = [];
+        for (const record of store.values()) {
+            if (!matchesFilter(record.metadata, filter)) continue;
+            matches.push({ ...record, score: calculateCosineSimilarity(vector, record.values) });
+        }
+        matches.sort((a, b) => b.score - a.score);
+        return matches.slice(0, topK);
+    }
+
+    async updateMetadata(id: string, metadata: RecordMetadata): Promise<void> {
+        const store = await this.load();
+        const record = store.get(id);
+        if (!record) return;
+        store.set(id, { ...record, metadata: { ...record.metadata, ...metadata } });
+        await this.persist();
+    }
+
+    async fetch(ids: string[]): Promise<VectorRecord[]> {
+        const store = await this.load();
+        return ids
+            .map(id => store.get(id))
+            .filter((record): record is VectorRecord => record !== undefined);
+    }
+
+    async delete(ids: string[]): Promise<void> {
+        const store = await this.load();
+        ids.forEach(id => store.delete(id));
+        await this.persist();
+    }
+
+    async list({ filter, limit = 100, cursor }: ListOptions = {}): Promise<ListPage> {
+        const store = await this.load();
+        // Page in id order; the cursor is the last id returned so paging survives concurrent writes.
+        const ids = [...store.keys()].sort().filter(id => cursor === undefined || id > cursor);
+        const records: VectorRecord[] = [];
+        let lastId: string | undefined;
+        for (const id of ids) {
+            if (records.length >= limit) break;
+            lastId = id;
+            const record = store.get(id)!;
+            if (matchesFilter(record.metadata, filter)) records.push(record);
+        }
+        const hasMore = lastId !== undefined && lastId !== ids[ids.length - 1];
+        return { records, cursor: hasMore ? lastId : undefined };
+    }
+}
@@ -0,0 +1,62 @@
+// leveled, structured diagnostics on stderr
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+// Values attached to a log line. Errors are reduced to their message.
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+function levelFromEnv(): LogLevel {
+    const level = (process.env.PETER_LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+    return LEVELS.includes(level) ? level : 'info';
+}
+
+// Read on first use, so a .env loaded after import still counts.
+let threshold: LogLevel | null = null;
+
+/**
+ * Changes which log lines are written: the given level and above. Defaults to
+ * PETER_LOG_LEVEL, or "info".
+ *
+ * @param level The lowest level written; "silent" writes nothing.
+ */
+export function setLogLevel(level: LogLevel): void {
+    if (!LEVELS.includes(level)) {
+        throw new Error(`Unknown log level "${level}"; use ${LEVELS.join(', ')}`);
+    }
+    threshold = level;
+}
+
+export function getLogLevel(): LogLevel {
+    return threshold ??= levelFromEnv();
+}
+
+function serialize(value: unknown): unknown {
+    if (value instanceof Error) return value.message;
+    return value;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LEVELS.indexOf(level) < LEVELS.indexOf(getLogLevel())) return;
+    const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+    if (process.env.PETER_LOG_FORMAT === 'json') {
+        const line = { time: new Date().toISOString(), level, message, ...Object.fromEntries(entries.map(([key, value]) => [key, serialize(value)])) };
+        process.stderr.write(`${JSON.stringify(line)}\n`);
+        return;
+    }
+    const details = entries.map(([key, value]) => `${key}=${JSON.stringify(serialize(value))}`).join(' ');
+    process.stderr.write(`[${level}] ${message}${details ? ` ${details}` : ''}\n`);
+}
+
+/**
+ * Peter's diagnostics. Lines go to stderr, as text or, with
+ * PETER_LOG_FORMAT=json, one JSON object per line. Never pass memory content,
+ * messages or vectors as fields: IDs, counts and keys only.
+ */
+export const log = {
+    debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+    info: (message: string, fields?: LogFields) => write('info', message, fields),
+    warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+    error: (message: string, fields?: LogFields) => write('error', message, fields)
+};
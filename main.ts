@@ -1,4 +1,11 @@
 import { PersonalAssistant } from './personalAssistant.ts';
+import { log } from './logger.ts';
+import { DEFAULT_USER } from './memoryManager.ts';
+import { describeToolAction } from './memoryTools.ts';
+import { isCommand, runCommand } from './replCommands.ts';
+import { describeReminder, Reminder, reminderCheckInterval, scheduleReminders } from './reminders.ts';
+import { ToolAction } from './toolCalling.ts';
+import { flushTraces } from './tracing.ts';
 import * as readline from 'readline';
 import dotenv from 'dotenv';
 
@@ -7,12 +14,56 @@ dotenv.config();
 
 async function main() {
     const assistant = new PersonalAssistant();
+    // Memories and history are scoped to this user.
+    const userId = process.env.PETER_USER_ID || DEFAULT_USER;
+    // Read before the prompt opens, so a bad setting ends the program instead of leaving it waiting.
+    const reminderIntervalMs = reminderCheckInterval();
+    await assistant.getMemoryManager().migrateLegacyMemories()
+        .catch(error => log.error('Error in migrating legacy memories', { error }));
     const rl = readline.createInterface({
         input: process.stdin,
         output: process.stdout
     });
 
-    console.log("Chat started. Type 'exit' to end the conversation, or 'clear' to reset chat history.");
+    // Set while a reply is streaming, so Ctrl+C cancels the reply instead of quitting.
+    let activeTurn: AbortController | null = null;
+    rl.on('SIGINT', () => {
+        if (activeTurn) {
+            activeTurn.abort();
+        } else {
+            rl.close();
+        }
+    });
+
+    // Reminders that come due are shown right away, or after the reply being streamed.
+    const heldReminders: Reminder[] = [];
+    const showReminders = (reminders: Reminder[]) => {
+        reminders.forEach(reminder => console.log(`⏰ Reminder: ${describeReminder(reminder)} [${reminder.id}]`));
+    };
+    const stopReminders = scheduleReminders(assistant.getMemoryManager(userId), reminderIntervalMs, fired => {
+        const mine = fired.filter(entry => entry.userId === userId).map(entry => entry.reminder);
+        if (mine.length === 0) return;
+        if (activeTurn) {
+            heldReminders.push(...mine);
+            return;
+        }
+        process.stdout.write('\n');
+        showReminders(mine);
+        rl.prompt(true);
+    });
+    rl.on('close', async () => {
+        stopReminders();
+        // Turns are stored in the background; finish that before exiting.
+        if (assistant.hasPendingIngestion()) console.log('Saving what Peter learned...');
+        await assistant.flushIngestion();
+        await assistant.getMemoryManager(userId).flushEmbeddingCache();
+        await flushTraces();
+    });
+
+    console.log("Chat started. Type 'exit' to end the conversation, or 'clear' to start a new thread.");
+    console.log("Press Ctrl+C while Peter is answering to cancel the reply. Type /help for memory commands.");
+
+    const ask = (question: string) => new Promise<string>(resolve => rl.question(question, resolve));
 
     const askQuestion = () => {
         rl.question('You: ', async (input) => {
@@ -22,16 +73,58 @@ async function main() {
             }
 
             if (input.toLowerCase() === 'clear') {
-                assistant.clearChatHistory();
-                console.log('Chat history cleared.');
+                assistant.clearChatHistory(userId);
+                console.log('Started a new thread. The previous one is saved; /threads lists them.');
+                askQuestion();
+                return;
+            }
+
+            if (isCommand(input)) {
+                // Commands see the memories of every turn so far.
+                await assistant.flushIngestion();
+                await runCommand(input, { assistant, userId, ask });
                 askQuestion();
                 return;
             }
 
+            const turn = new AbortController();
+            activeTurn = turn;
             try {
-                await assistant.chat(input);
+                let started = false;
+                let midLine = false;
+                const onToolAction = (action: ToolAction) => {
+                    // Memory actions go on their own line, between bits of the reply.
+                    if (midLine) process.stdout.write('\n');
+                    console.log(`  [memory] ${describeToolAction(action)}`);
+                    midLine = false;
+                };
+                const onReminder = (reminder: Reminder) => {
+                    if (midLine) process.stdout.write('\n');
+                    console.log(`  [reminder] set: ${describeReminder(reminder)}`);
+                    midLine = false;
+                };
+                const onMemoryUnavailable = (message: string) => {
+                    if (midLine) process.stdout.write('\n');
+                    console.log(`  [memory] ${message}`);
+                    midLine = false;
+                };
+                for await (const delta of assistant.chatStream(input, { userId, signal: turn.signal, onToolAction, onReminder, onMemoryUnavailable })) {
+                    if (!started) {
+                        process.stdout.write('Assistant: ');
+                        started = true;
+                    }
+                    process.stdout.write(delta);
+                    midLine = true;
+                }
+                process.stdout.write('\n');
+                if (turn.signal.aborted) {
+                    console.log('(reply cancelled)');
+                }
             } catch (error) {
                 console.error('Error:', error);
+            } finally {
+                activeTurn = null;
+                showReminders(heldReminders.splice(0));
             }
 
             askQuestion();
@@ -0,0 +1,442 @@
+// offline memory-quality evaluation: scripted conversations replayed through Peter and scored
+
+import { randomBytes } from 'crypto';
+import { FactStore } from './factStore.ts';
+import { KeywordIndex } from './keywordIndex.ts';
+import { ChatMessage, ModelRoles } from './llmProvider.ts';
+import { LocalChatProvider, LocalEmbeddingProvider } from './localProvider.ts';
+import { LocalVectorStore } from './localVectorStore.ts';
+import { MemoryHistoryStore } from './memoryHistory.ts';
+import { Memory, MemoryManager } from './memoryManager.ts';
+import { PendingWriteStore } from './pendingWrites.ts';
+import { PersonalAssistant } from './personalAssistant.ts';
+import { ReminderStore } from './reminders.ts';
+import { SensitiveDataGuard } from './sensitiveData.ts';
+import { formatTable } from './textTable.ts';
+import { ThreadStore } from './threadStore.ts';
+
+/**
+ * One message of a scripted conversation, labelled with what should happen to
+ * Peter's memories because of it.
+ */
+export interface ScenarioTurn {
+    user: string;
+    // Whether the turn should change what Peter remembers: a new fact or a correction.
+    salient: boolean;
+    // For corrections: text the memories should say after the turn, and text none of them may say any more.
+    correction?: { now: string; replaced: string };
+}
+
+/**
+ * A question asked once the conversation is over, to check that the right
+ * memory makes it into the prompt.
+ */
+export interface RetrievalProbe {
+    ask: string;
+    // Text at least one memory in the reply's context must contain.
+    expect: string;
+}
+
+export interface EvalScenario {
+    name: string;
+    description: string;
+    turns: ScenarioTurn[];
+    // Checks on the memories and facts left after the conversation.
+    expect?: {
+        // Texts some memory must contain.
+        memories?: string[];
+        // Texts no memory may contain.
+        absent?: string[];
+        // Current fact values by key, e.g. { "user.name": "Jack" }.
+        facts?: Record<string, string>;
+        memoryCount?: number;
+    };
+    probes?: RetrievalProbe[];
+}
+
+export interface ScenarioResult {
+    name: string;
+    // Every check that did not hold; the scenario passed when this is empty.
+    failures: string[];
+    // Turns by label (should change memory) and outcome (did change memory).
+    salience: { truePositives: number; falsePositives: number; falseNegatives: number; trueNegatives: number };
+    corrections: { correct: number; total: number };
+    retrieval: { hits: number; total: number };
+}
+
+export interface EvalMetrics {
+    // Of the turns that changed memory, how many should have.
+    saliencePrecision: number;
+    // Of the turns that should have changed memory, how many did.
+    salienceRecall: number;
+    // Corrections that replaced the old value without leaving it behind.
+    conflictAccuracy: number;
+    // Probes whose expected memory was in the reply's context.
+    retrievalHitRate: number;
+    scenariosPassed: number;
+    scenarios: number;
+}
+
+/**
+ * The outcome of a run. Saved as JSON, a report serves as the baseline later
+ * runs are compared against.
+ */
+export interface EvalReport {
+    // The classifier model, as "provider:model".
+    model: string;
+    runAt: string;
+    metrics: EvalMetrics;
+    scenarios: ScenarioResult[];
+}
+
+export interface EvalOptions {
+    // Whether Peter may use its memory tools. Off by default, so every turn goes through addMemory.
+    memoryTools?: boolean;
+    // Called after each scenario, e.g. to show progress.
+    onScenario?: (result: ScenarioResult) => void;
+}
+
+// The user every scenario talks as; each scenario gets its own empty stores anyway.
+const EVAL_USER = 'eval';
+// How far a metric may fall below its baseline before it counts as a regression.
+const DEFAULT_TOLERANCE = 0.05;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whether a text mentions a phrase as whole words, ignoring case.
+function mentions(text: string, phrase: string): boolean {
+    return new RegExp(`(^|\\W)${escapeRegExp(phrase)}(?=\\W|$)`, 'i').test(text);
+}
+
+function memoryText(memory: Memory): string {
+    return `${memory.content}\n${memory.metadata.summary || ''}`;
+}
+
+// Every memory of the user, by ID.
+async function snapshot(memory: MemoryManager): Promise<Map<string, Memory>> {
+    const memories = new Map<string, Memory>();
+    let cursor: string | undefined;
+    do {
+        const page = await memory.listMemories({ cursor, limit: 100 });
+        page.memories.forEach(entry => memories.set(entry.id, entry));
+        cursor = page.cursor;
+    } while (cursor);
+    return memories;
+}
+
+// Whether anything was created, changed or deleted between two snapshots.
+function memoryChanged(before: Map<string, Memory>, after: Map<string, Memory>): boolean {
+    if (before.size !== after.size) return true;
+    for (const [id, entry] of after) {
+        const previous = before.get(id);
+        if (!previous || previous.metadata.version !== entry.metadata.version || previous.content !== entry.content) return true;
+    }
+    return false;
+}
+
+// A fresh assistant whose memories, facts and threads live only in this process.
+function createIsolatedAssistant(models: ModelRoles, options: EvalOptions): PersonalAssistant {
+    return new PersonalAssistant({
+        models,
+        store: new LocalVectorStore(),
+        history: new MemoryHistoryStore(),
+        embeddingCache: null,
+        keywordIndex: new KeywordIndex(),
+        facts: new FactStore(),
+        reminders: new ReminderStore(),
+        pendingWrites: new PendingWriteStore(),
+        sensitiveData: new SensitiveDataGuard({ key: randomBytes(32) }),
+        threads: new ThreadStore(),
+        memoryTools: options.memoryTools ?? false,
+        timeZone: 'UTC'
+    });
+}
+
+/**
+ * Replays one scenario through a fresh PersonalAssistant and checks the
+ * outcome: after each turn, whether memory changed as labelled and whether
+ * corrections took; at the end, the expected memories and facts; then each
+ * probe's retrieved context.
+ *
+ * @param scenario The scenario.
+ * @param models The models to run it with.
+ * @param options (Optional) Run settings.
+ */
+export async function runScenario(scenario: EvalScenario, models: ModelRoles, options: EvalOptions = {}): Promise<ScenarioResult> {
+    const assistant = createIsolatedAssistant(models, options);
+    const memory = assistant.getMemoryManager(EVAL_USER);
+    const result: ScenarioResult = {
+        name: scenario.name,
+        failures: [],
+        salience: { truePositives: 0, falsePositives: 0, falseNegatives: 0, trueNegatives: 0 },
+        corrections: { correct: 0, total: 0 },
+        retrieval: { hits: 0, total: 0 }
+    };
+
+    for (const [index, turn] of scenario.turns.entries()) {
+        const label = `turn ${index + 1} ("${turn.user}")`;
+        const before = await snapshot(memory);
+        await assistant.chat(turn.user, EVAL_USER);
+        await assistant.flushIngestion();
+        const after = await snapshot(memory);
+
+        const changed = memoryChanged(before, after);
+        if (turn.salient && changed) result.salience.truePositives++;
+        if (!turn.salient && changed) result.salience.falsePositives++;
+        if (turn.salient && !changed) result.salience.falseNegatives++;
+        if (!turn.salient && !changed) result.salience.trueNegatives++;
+        if (turn.salient !== changed) {
+            result.failures.push(`${label} ${changed ? 'changed memory but should not have' : 'should have changed memory'}`);
+        }
+
+        if (turn.correction) {
+            result.corrections.total++;
+            const texts = [...after.values()].map(memoryText);
+            const updated = texts.some(text => mentions(text, turn.correction!.now));
+            const stale = texts.some(text => mentions(text, turn.correction!.replaced));
+            if (updated && !stale) {
+                result.corrections.correct++;
+            } else {
+                result.failures.push(`${label} ${updated ? `left "${turn.correction.replaced}" behind` : `did not record "${turn.correction.now}"`}`);
+            }
+        }
+    }
+
+    const final = [...(await snapshot(memory)).values()];
+    const expect = scenario.expect || {};
+    for (const text of expect.memories || []) {
+        if (!final.some(entry => mentions(memoryText(entry), text))) result.failures.push(`no memory mentions "${text}"`);
+    }
+    for (const text of expect.absent || []) {
+        if (final.some(entry => mentions(memoryText(entry), text))) result.failures.push(`a memory still mentions "${text}"`);
+    }
+    for (const [key, value] of Object.entries(expect.facts || {})) {
+        const fact = await memory.getFact(key);
+        if (!fact || fact.value.trim().toLowerCase() !== value.trim().toLowerCase()) {
+            result.failures.push(`fact ${key} is ${fact ? `"${fact.value}"` : 'unknown'}, expected "${value}"`);
+        }
+    }
+    if (expect.memoryCount !== undefined && final.length !== expect.memoryCount) {
+        result.failures.push(`${final.length} memories stored, expected ${expect.memoryCount}`);
+    }
+
+    for (const probe of scenario.probes || []) {
+        result.retrieval.total++;
+        await assistant.chat(probe.ask, EVAL_USER);
+        await assistant.flushIngestion();
+        const context = assistant.getLastRetrievedMemories(EVAL_USER);
+        if (context.some(entry => mentions(memoryText(entry), probe.expect))) {
+            result.retrieval.hits++;
+        } else {
+            result.failures.push(`asking "${probe.ask}" did not retrieve "${probe.expect}"`);
+        }
+    }
+    return result;
+}
+
+// A ratio that counts as perfect when there was nothing to measure.
+function ratio(part: number, whole: number): number {
+    return whole === 0 ? 1 : part / whole;
+}
+
+/**
+ * Runs every scenario and rolls the results up into metrics.
+ *
+ * @param scenarios The scenarios.
+ * @param models The models to run them with (see createScriptedModels).
+ * @param options (Optional) Run settings.
+ */
+export async function runEvaluation(scenarios: EvalScenario[], models: ModelRoles, options: EvalOptions = {}): Promise<EvalReport> {
+    const results: ScenarioResult[] = [];
+    for (const scenario of scenarios) {
+        const result = await runScenario(scenario, models, options);
+        results.push(result);
+        options.onScenario?.(result);
+    }
+    const sum = (pick: (result: ScenarioResult) => number) => results.reduce((total, result) => total + pick(result), 0);
+    const truePositives = sum(result => result.salience.truePositives);
+    return {
+        model: `${models.classifier.provider}:${models.classifier.model}`,
+        runAt: new Date().toISOString(),
+        metrics: {
+            saliencePrecision: ratio(truePositives, truePositives + sum(result => result.salience.falsePositives)),
+            salienceRecall: ratio(truePositives, truePositives + sum(result => result.salience.falseNegatives)),
+            conflictAccuracy: ratio(sum(result => result.corrections.correct), sum(result => result.corrections.total)),
+            retrievalHitRate: ratio(sum(result => result.retrieval.hits), sum(result => result.retrieval.total)),
+            scenariosPassed: results.filter(result => result.failures.length === 0).length,
+            scenarios: results.length
+        },
+        scenarios: results
+    };
+}
+
+/**
+ * Compares a run against a recorded baseline.
+ *
+ * @param report The new run.
+ * @param baseline An earlier report.
+ * @param tolerance (Optional) How far a metric may drop before it counts.
+ * @returns One line per regression: a metric that dropped, or a scenario that passed before and fails now.
+ */
+export function compareToBaseline(report: EvalReport, baseline: EvalReport, tolerance: number = DEFAULT_TOLERANCE): string[] {
+    const regressions: string[] = [];
+    const rates: (keyof EvalMetrics)[] = ['saliencePrecision', 'salienceRecall', 'conflictAccuracy', 'retrievalHitRate'];
+    for (const metric of rates) {
+        const before = baseline.metrics[metric];
+        const now = report.metrics[metric];
+        if (now < before - tolerance) {
+            regressions.push(`${metric} fell from ${before.toFixed(2)} to ${now.toFixed(2)}`);
+        }
+    }
+    const passedBefore = new Set(baseline.scenarios.filter(result => result.failures.length === 0).map(result => result.name));
+    for (const result of report.scenarios) {
+        if (passedBefore.has(result.name) && result.failures.length > 0) {
+            regressions.push(`${result.name} passed in the baseline and now fails: ${result.failures.join('; ')}`);
+        }
+    }
+    return regressions;
+}
+
+/**
+ * Renders a report as console text: the metrics, then a line per scenario with
+ * what went wrong.
+ *
+ * @param report The report.
+ * @param baseline (Optional) A recorded report to show each metric next to.
+ */
+export function formatReport(report: EvalReport, baseline?: EvalReport): string {
+    const metrics: [string, keyof EvalMetrics][] = [
+        ['Salience precision', 'saliencePrecision'],
+        ['Salience recall', 'salienceRecall'],
+        ['Conflict-resolution accuracy', 'conflictAccuracy'],
+        ['Retrieval hit rate', 'retrievalHitRate']
+    ];
+    const metricTable = formatTable(
+        baseline ? ['Metric', 'Score', `Baseline (${baseline.model})`] : ['Metric', 'Score'],
+        metrics.map(([name, key]) => [
+            name,
+            report.metrics[key].toFixed(2),
+            ...(baseline ? [baseline.metrics[key].toFixed(2)] : [])
+        ])
+    );
+    const scenarioTable = formatTable(
+        ['Scenario', 'Result', 'Failures'],
+        report.scenarios.map(result => [
+            result.name,
+            result.failures.length === 0 ? 'pass' : 'FAIL',
+            result.failures.join('; ')
+        ]),
+        100
+    );
+    return [
+        `Model: ${report.model}`,
+        metricTable,
+        '',
+        scenarioTable,
+        '',
+        `${report.metrics.scenariosPassed}/${report.metrics.scenarios} scenarios passed.`
+    ].join('\n');
+}
+
+// What a scripted classifier reads as a fact in one sentence.
+interface ScriptedFact {
+    content: string;
+    subject?: string;
+    attribute?: string;
+    value?: string;
+}
+
+// Phrasings the scripted classifier understands, most specific first.
+const FACT_RULES: { pattern: RegExp; fact: (match: RegExpExecArray) => ScriptedFact }[] = [
+    {
+        pattern: /\b(?:my name is|call me|i'm called|i am called)\s+([A-Z][\w-]*)/i,
+        fact: ([, name]) => ({ content: `User's name is ${name}`, subject: 'user', attribute: 'name', value: name })
+    },
+    {
+        pattern: /\bmy (\w+) is called ([A-Z][\w-]*)/i,
+        fact: ([, who, name]) => ({ content: `User's ${who} is called ${name}`, subject: who, attribute: 'name', value: name })
+    },
+    {
+        pattern: /\bmy (\w+)'s (\w+(?: \w+)?) is ([^.,!?]+)/i,
+        fact: ([, who, attribute, value]) => ({ content: `User's ${who}'s ${attribute} is ${value.trim()}`, subject: who, attribute, value: value.trim() })
+    },
+    {
+        pattern: /\bmy (\w+(?: \w+)?) is ([^.,!?]+)/i,
+        fact: ([, attribute, value]) => ({ content: `User's ${attribute} is ${value.trim()}`, subject: 'user', attribute, value: value.trim() })
+    },
+    {
+        pattern: /\bi (?:live in|moved to) ([^.,!?]+)/i,
+        fact: ([, city]) => ({ content: `User lives in ${city.trim()}`, subject: 'user', attribute: 'city', value: city.trim() })
+    },
+    {
+        pattern: /\bi work (?:at|for) ([^.,!?]+)/i,
+        fact: ([, employer]) => ({ content: `User works at ${employer.trim()}`, subject: 'user', attribute: 'employer', value: employer.trim() })
+    },
+    {
+        pattern: /\bi (love|like|hate|prefer|am allergic to) ([^.,!?]+)/i,
+        fact: ([, verb, object]) => ({ content: `User ${verb === 'am allergic to' ? 'is allergic to' : `${verb}s`} ${object.trim()}` })
+    }
+];
+
+// The facts a message states, as the scripted classifier sees them. Questions state nothing.
+function scriptedFacts(message: string): ScriptedFact[] {
+    return message
+        .split(/(?<=[.!?])\s+/)
+        .filter(sentence => !sentence.trim().endsWith('?'))
+        .flatMap(sentence => {
+            for (const rule of FACT_RULES) {
+                const match = rule.pattern.exec(sentence);
+                if (match) return [rule.fact(match)];
+            }
+            return [];
+        });
+}
+
+function lastOf(messages: ChatMessage[], role: ChatMessage['role']): string {
+    return [...messages].reverse().find(message => message.role === role)?.content || '';
+}
+
+/**
+ * Rule-based stand-ins for every model role, so scenarios run offline and give
+ * the same result every time. The classifier recognizes a fixed set of
+ * phrasings ("my name is", "call me", "my sister's birthday is", "I live in",
+ * "I like", ...), treats a different value as an update, and ignores everything
+ * else. They test the memory pipeline around the prompts, not the prompts
+ * themselves; run against a real provider for that.
+ */
+export function createScriptedModels(): ModelRoles {
+    const classifier = new LocalChatProvider('scripted', messages => {
+        const system = messages[0]?.content || '';
+        if (system.includes('handles conflicts')) {
+            const existing = /Existing memory: "([\s\S]*?)"\nNew information/.exec(system)?.[1] || '';
+            const incoming = /New information: "([\s\S]*?)"\n/.exec(system)?.[1] || '';
+            const update = existing.trim().toLowerCase() !== incoming.trim().toLowerCase();
+            return JSON.stringify({ update, updatedSummary: update ? incoming : '' });
+        }
+        // Memory extraction: only what the user said counts.
+        const text = lastOf(messages, 'user');
+        const said = /^User: ([\s\S]*?)(?:\nAssistant:|$)/.exec(text)?.[1] ?? text;
+        const facts = scriptedFacts(said);
+        return JSON.stringify({
+            salient: facts.length > 0,
+            summary: facts.map(fact => fact.content).join('. ') || said,
+            importance: facts.length > 0 ? 0.7 : 0.1,
+            tags: [],
+            facts: facts.map(fact => ({ ...fact, importance: 0.7, tags: [], confidence: 0.9 }))
+        });
+    });
+    const summarizer = new LocalChatProvider('scripted', messages => {
+        const system = messages[0]?.content || '';
+        const text = lastOf(messages, 'user');
+        if (system.includes('merges duplicate memories')) {
+            // The newest memory wins.
+            const newest = text.split('\n').pop()!.replace(/^\[[^\]]*\]\s*/, '');
+            return JSON.stringify({ content: newest, summary: newest });
+        }
+        return text.split(/\s+/).slice(0, 100).join(' ');
+    });
+    const reply = new LocalChatProvider('scripted', () => 'Noted.');
+    return { reply, summarizer, classifier, embedder: new LocalEmbeddingProvider() };
+}
@@ -0,0 +1,297 @@
+// structured memory extraction: one model call per ingested turn
+
+import { ChatMessage, ChatProvider } from './llmProvider.ts';
+
+/**
+ * A fact as one property of one entity, e.g. subject "sister", attribute
+ * "birthday", value "March 12" (see factStore.ts).
+ */
+export interface StructuredValue {
+    subject: string;
+    attribute: string;
+    value: string;
+    // 0 to 1: how sure the text is about it.
+    confidence: number;
+}
+
+/**
+ * One self-contained fact worth remembering, e.g. "User's sister is called Ana".
+ */
+export interface ExtractedFact {
+    content: string;
+    // 0 (trivial) to 1 (critical).
+    importance: number;
+    tags: string[];
+    // Present when the fact is a single property of one entity.
+    structured?: StructuredValue;
+}
+
+/**
+ * What the classifier found in a piece of text.
+ */
+export interface MemoryExtraction {
+    // Whether the text holds anything worth remembering long term.
+    salient: boolean;
+    // Summary of the whole text, in under 100 words.
+    summary: string;
+    // Importance and tags of the text as a whole.
+    importance: number;
+    tags: string[];
+    // Atomic facts, empty when the text is not salient.
+    facts: ExtractedFact[];
+}
+
+export interface MemoryUpdateDecision {
+    update: boolean;
+    updatedSummary: string;
+}
+
+// One memory standing in for several near-duplicates.
+export interface MergedMemory {
+    content: string;
+    summary: string;
+}
+
+// Confidence of a structured fact when the model doesn't say.
+const DEFAULT_CONFIDENCE = 0.8;
+
+const EXTRACTION_PROMPT = `
+You are a memory classification assistant that identifies key, memorable information.
+
+Decide whether the text contains facts that should be remembered long term, such as:
+- Personal information (names, preferences, relationships)
+- Important dates or events
+- Key decisions or agreements
+- Significant preferences or dislikes
+- Notable achievements or experiences
+
+Casual conversation and non-essential information is not salient.
+
+Respond ONLY with a JSON object of this shape:
+{
+  "salient": true or false,
+  "summary": "a concise summary of the whole text in under 100 words",
+  "importance": a number from 0 (trivial) to 1 (critical) for the whole text,
+  "tags": ["a few lowercase topic tags"],
+  "facts": [
+    {
+      "content": "one clear, specific, self-contained fact (e.g. 'User's name is John')",
+      "importance": 0 to 1,
+      "tags": ["..."],
+      "subject": "who or what it is about, as a short lowercase key: 'user' for the user, otherwise e.g. 'sister', 'ana', 'car'",
+      "attribute": "the property, as a short lowercase key, e.g. 'name', 'birthday', 'city', 'license_plate'",
+      "value": "the value, e.g. 'John'",
+      "confidence": 0 to 1, how certain the text is about it
+    }
+  ]
+}
+Split the text into one entry per distinct fact. Use an empty "facts" list when nothing is salient.
+Leave out "subject", "attribute" and "value" when a fact is not a single property of one entity.
+`;
+
+/**
+ * Parses a JSON object out of a model reply, tolerating code fences and prose
+ * around it.
+ *
+ * @param text The model's reply.
+ */
+export function parseJsonReply(text: string): unknown {
+    const trimmed = text.trim();
+    try {
+        return JSON.parse(trimmed);
+    } catch {
+        // Fall through and look for an object inside the reply.
+    }
+
+    const start = trimmed.indexOf('{');
+    if (start === -1) {
+        throw new Error('Reply contains no JSON object');
+    }
+    // Find the brace closing the first object, skipping braces inside strings.
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    for (let i = start; i < trimmed.length; i++) {
+        const char = trimmed[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}' && --depth === 0) {
+            return JSON.parse(trimmed.slice(start, i + 1));
+        }
+    }
+    throw new Error('Reply contains an unterminated JSON object');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readImportance(value: unknown, path: string): number {
+    // Models occasionally quote numbers; accept those but nothing else.
+    const parsed = typeof value === 'string' ? Number(value) : value;
+    if (typeof parsed !== 'number' || Number.isNaN(parsed)) {
+        throw new Error(`${path} must be a number`);
+    }
+    return Math.min(1, Math.max(0, parsed));
+}
+
+// Reads the optional subject/attribute/value of a fact. They are extras, so a fact
+// missing any of them is kept as plain text rather than failing the extraction.
+function readStructured(fact: Record<string, unknown>, path: string): StructuredValue | undefined {
+    const { subject, attribute, value } = fact;
+    const complete = [subject, attribute, value].every(field => typeof field === 'string' && field.trim() !== '');
+    if (!complete) return undefined;
+    return {
+        subject: (subject as string).trim(),
+        attribute: (attribute as string).trim(),
+        value: (value as string).trim(),
+        confidence: readImportance(fact.confidence ?? DEFAULT_CONFIDENCE, `${path}.confidence`)
+    };
+}
+
+function readTags(value: unknown, path: string): string[] {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+        throw new Error(`${path} must be an array of strings`);
+    }
+    return [...new Set(value.map(tag => tag.trim().toLowerCase()).filter(tag => tag.length > 0))];
+}
+
+/**
+ * Checks a parsed reply against the extraction schema and normalizes it
+ * (clamps importance, lowercases tags, drops empty facts).
+ *
+ * @param value The parsed reply.
+ */
+export function validateExtraction(value: unknown): MemoryExtraction {
+    if (!isObject(value)) {
+        throw new Error('Extraction must be a JSON object');
+    }
+    if (typeof value.salient !== 'boolean') {
+        throw new Error('"salient" must be a boolean');
+    }
+    if (typeof value.summary !== 'string') {
+        throw new Error('"summary" must be a string');
+    }
+    const facts = value.facts ?? [];
+    if (!Array.isArray(facts)) {
+        throw new Error('"facts" must be an array');
+    }
+
+    return {
+        salient: value.salient,
+        summary: value.summary.trim(),
+        importance: readImportance(value.importance ?? 0.5, '"importance"'),
+        tags: readTags(value.tags, '"tags"'),
+        facts: facts
+            .map((fact, i) => {
+                if (!isObject(fact) || typeof fact.content !== 'string') {
+                    throw new Error(`"facts[${i}].content" must be a string`);
+                }
+                const structured = readStructured(fact, `"facts[${i}]"`);
+                return {
+                    content: fact.content.trim(),
+                    importance: readImportance(fact.importance ?? value.importance ?? 0.5, `"facts[${i}].importance"`),
+                    tags: readTags(fact.tags, `"facts[${i}].tags"`),
+                    ...(structured ? { structured } : {})
+                };
+            })
+            .filter(fact => fact.content.length > 0)
+    };
+}
+
+/**
+ * Checks a parsed reply to the memory update prompt.
+ *
+ * @param value The parsed reply.
+ */
+export function validateUpdateDecision(value: unknown): MemoryUpdateDecision {
+    if (!isObject(value) || typeof value.update !== 'boolean') {
+        throw new Error('"update" must be a boolean');
+    }
+    const updatedSummary = value.updatedSummary ?? '';
+    if (typeof updatedSummary !== 'string') {
+        throw new Error('"updatedSummary" must be a string');
+    }
+    if (value.update && updatedSummary.trim() === '') {
+        throw new Error('"updatedSummary" is required when "update" is true');
+    }
+    return { update: value.update, updatedSummary: updatedSummary.trim() };
+}
+
+/**
+ * Checks a parsed reply to the memory merge prompt.
+ *
+ * @param value The parsed reply.
+ */
+export function validateMergedMemory(value: unknown): MergedMemory {
+    if (!isObject(value) || typeof value.content !== 'string' || value.content.trim() === '') {
+        throw new Error('"content" must be a non-empty string');
+    }
+    if (typeof value.summary !== 'string') {
+        throw new Error('"summary" must be a string');
+    }
+    return { content: value.content.trim(), summary: value.summary.trim() || value.content.trim() };
+}
+
+/**
+ * A model answered, but not with the JSON the prompt asked for, even when asked
+ * again. Unlike a failed call, retrying later is not expected to help.
+ */
+export class InvalidReplyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidReplyError';
+    }
+}
+
+/**
+ * Sends a prompt that must be answered with JSON and validates the reply. If the
+ * reply does not parse or validate, the model is shown the problem and asked
+ * once more before giving up with InvalidReplyError. Failed calls are thrown as is.
+ *
+ * @param model The chat model to ask.
+ * @param messages The prompt.
+ * @param validate Parses the reply into the expected shape, throwing if it doesn't fit.
+ */
+export async function completeStructured<T>(
+    model: ChatProvider,
+    messages: ChatMessage[],
+    validate: (value: unknown) => T
+): Promise<T> {
+    const first = await model.complete(messages, { json: true });
+    try {
+        return validate(parseJsonReply(first.content));
+    } catch (error: any) {
+        const retry = await model.complete([
+            ...messages,
+            { role: 'assistant', content: first.content },
+            { role: 'user', content: `That reply was invalid (${error.message}). Respond ONLY with the corrected JSON object.` }
+        ], { json: true });
+        try {
+            return validate(parseJsonReply(retry.content));
+        } catch (retryError: any) {
+            throw new InvalidReplyError(`Invalid reply from ${model.provider}:${model.model}: ${retryError.message}`);
+        }
+    }
+}
+
+/**
+ * Classifies a piece of text in a single call: whether it is worth remembering,
+ * the atomic facts it contains, how important they are, tags and a summary.
+ *
+ * @param classifier The classifier model.
+ * @param content The text to classify.
+ */
+export async function extractMemory(classifier: ChatProvider, content: string): Promise<MemoryExtraction> {
+    return completeStructured(classifier, [
+        { role: 'system', content: EXTRACTION_PROMPT },
+        { role: 'user', content }
+    ], validateExtraction);
+}
@@ -0,0 +1,81 @@
+// typed links between memories, stored in each memory's relations
+
+/**
+ * A link from one memory to another. Links are stored on both ends: the memory
+ * it starts from lists "type:targetId" in its relations, and the target lists the
+ * inverse type pointing back.
+ */
+export interface MemoryEdge {
+    type: string;
+    targetId: string;
+}
+
+// Link type used for plain related IDs.
+export const DEFAULT_EDGE_TYPE = 'related';
+
+// Known link types and the type stored on the other end. Unknown types are their own inverse.
+const INVERSE_EDGE_TYPES: Record<string, string> = {
+    'related': 'related',
+    'about-person': 'mentioned-in',
+    'mentioned-in': 'about-person',
+    'supersedes': 'superseded-by',
+    'superseded-by': 'supersedes',
+    'part-of': 'has-part',
+    'has-part': 'part-of',
+};
+
+export const KNOWN_EDGE_TYPES = Object.keys(INVERSE_EDGE_TYPES);
+
+export function validateEdgeType(type: string): void {
+    if (!/^[a-z][a-z0-9-]{0,31}$/.test(type)) {
+        throw new Error(`Invalid link type "${type}": use lowercase letters, digits and dashes`);
+    }
+}
+
+export function inverseEdgeType(type: string): string {
+    return INVERSE_EDGE_TYPES[type] || type;
+}
+
+/**
+ * Parses a relations entry. Entries written before links were typed are bare IDs
+ * and count as "related".
+ *
+ * @param relation A "type:id" string or a bare ID.
+ */
+export function parseRelation(relation: string): MemoryEdge {
+    const separator = relation.indexOf(':');
+    if (separator === -1) {
+        return { type: DEFAULT_EDGE_TYPE, targetId: relation };
+    }
+    return { type: relation.slice(0, separator), targetId: relation.slice(separator + 1) };
+}
+
+export function formatRelation(edge: MemoryEdge): string {
+    return `${edge.type}:${edge.targetId}`;
+}
+
+/**
+ * Adds a link to a relations list, replacing an untyped entry for the same
+ * target and skipping exact duplicates.
+ *
+ * @param relations The current relations.
+ * @param edge The link to add.
+ */
+export function addRelation(relations: string[], edge: MemoryEdge): string[] {
+    const kept = relations.filter(relation => relation !== edge.targetId && relation !== formatRelation(edge));
+    return [...kept, formatRelation(edge)];
+}
+
+/**
+ * Removes links to a target from a relations list.
+ *
+ * @param relations The current relations.
+ * @param targetId The linked memory.
+ * @param type (Optional) Only remove links of this type.
+ */
+export function removeRelations(relations: string[], targetId: string, type?: string): string[] {
+    return relations.filter(relation => {
+        const edge = parseRelation(relation);
+        return edge.targetId !== targetId || (type !== undefined && edge.type !== type);
+    });
+}
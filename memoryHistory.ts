@@ -0,0 +1,61 @@
+// memory revision history
+
+import { JsonDocument } from './fileStorage.ts';
+
+// Why a memory was changed.
+export type RevisionReason = 'user-edit' | 'conflict-resolution' | 'consolidation' | 'rollback';
+
+/**
+ * A previous state of a memory, saved when it was replaced.
+ */
+export interface MemoryRevision {
+    memoryId: string;
+    version: number;
+    content: string;
+    summary: string;
+    type: string;
+    tags: string[];
+    relations: string[];
+    importance: number;
+    salient: boolean;
+    // When this state was written.
+    timestamp: number;
+    // When it was replaced, and why.
+    replacedAt: number;
+    reason: RevisionReason;
+}
+
+type HistoryFile = Record<string, Record<string, MemoryRevision[]>>;
+
+/**
+ * MemoryHistoryStore - Keeps every prior revision of every memory, per namespace,
+ * in a local JSON file. Vector stores only hold the current state, so this is
+ * where the audit trail lives regardless of the backend.
+ */
+export class MemoryHistoryStore {
+    private document: JsonDocument<HistoryFile>;
+
+    constructor(filePath?: string) {
+        this.document = new JsonDocument<HistoryFile>(filePath, () => ({}));
+    }
+
+    async record(namespace: string, revision: MemoryRevision): Promise<void> {
+        await this.document.update(history => {
+            const memories = history[namespace] = history[namespace] || {};
+            const revisions = memories[revision.memoryId] = memories[revision.memoryId] || [];
+            revisions.push(revision);
+        });
+    }
+
+    // All saved revisions of a memory, oldest first.
+    async list(namespace: string, memoryId: string): Promise<MemoryRevision[]> {
+        const history = await this.document.read();
+        return [...(history[namespace]?.[memoryId] || [])].sort((a, b) => a.version - b.version);
+    }
+
+    async deleteNamespace(namespace: string): Promise<void> {
+        await this.document.update(history => {
+            delete history[namespace];
+        });
+    }
+}
@@ -0,0 +1,244 @@
+// full-corpus memory maintenance: clusters near-duplicates and merges them
+
+import { dataPath, JsonDocument } from './fileStorage.ts';
+import { log } from './logger.ts';
+import { DOCUMENT_MEMORY_TYPE, HOUSEHOLD_USER, Memory, MemoryManager } from './memoryManager.ts';
+
+export interface MaintenanceOptions {
+    // Only report the merges that would happen; nothing is written.
+    dryRun?: boolean;
+    // Cosine similarity at which two salient memories count as near-duplicates.
+    similarityThreshold?: number;
+    // Memories read per page while scanning.
+    pageSize?: number;
+    // Where progress is checkpointed so an interrupted run can resume. Defaults to a file in the data directory.
+    checkpoints?: MaintenanceCheckpoints;
+}
+
+/**
+ * A cluster of near-duplicates: the sources are merged into the target.
+ */
+export interface ProposedMerge {
+    targetId: string;
+    sourceIds: string[];
+    // Summaries of the target and sources, for display.
+    summaries: string[];
+}
+
+export interface MaintenanceReport {
+    userId: string;
+    dryRun: boolean;
+    // The memory ID the run resumed after, if an earlier run was interrupted.
+    resumedAfter: string | null;
+    scanned: number;
+    merges: ProposedMerge[];
+    errors: { memoryId: string; message: string }[];
+}
+
+// Where an unfinished run stopped: the page it was on and the last memory it finished there.
+export interface MaintenanceCheckpoint {
+    pageCursor: string | null;
+    lastId: string;
+}
+
+interface CheckpointFile {
+    // Per user: how far an unfinished run got.
+    checkpoints: Record<string, MaintenanceCheckpoint>;
+    // Per user: when the last run finished.
+    lastRuns: Record<string, number>;
+}
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+const DEFAULT_PAGE_SIZE = 100;
+// Neighbours looked at per memory when building its cluster.
+const CLUSTER_CANDIDATES = 10;
+
+/**
+ * MaintenanceCheckpoints - Remembers how far each user's maintenance run got, so
+ * a run that is interrupted picks up where it stopped instead of starting over.
+ */
+export class MaintenanceCheckpoints {
+    private document: JsonDocument<CheckpointFile>;
+
+    constructor(filePath?: string) {
+        this.document = new JsonDocument<CheckpointFile>(filePath, () => ({ checkpoints: {}, lastRuns: {} }));
+    }
+
+    async get(userId: string): Promise<MaintenanceCheckpoint | null> {
+        const file = await this.document.read();
+        return file.checkpoints[userId] ?? null;
+    }
+
+    async save(userId: string, checkpoint: MaintenanceCheckpoint): Promise<void> {
+        await this.document.update(file => {
+            file.checkpoints[userId] = checkpoint;
+        });
+    }
+
+    async finish(userId: string): Promise<void> {
+        await this.document.update(file => {
+            delete file.checkpoints[userId];
+            file.lastRuns[userId] = Date.now();
+        });
+    }
+
+    async lastRun(userId: string): Promise<number | null> {
+        const file = await this.document.read();
+        return file.lastRuns[userId] ?? null;
+    }
+}
+
+let defaultCheckpoints: MaintenanceCheckpoints | null = null;
+// Users with a run in progress, so scheduled and on-demand runs never overlap.
+const running = new Set<string>();
+
+export function isMaintenanceRunning(userId: string): boolean {
+    return running.has(userId);
+}
+
+function summarize(memory: Memory): string {
+    return memory.metadata.summary || memory.content;
+}
+
+/**
+ * Pages through all of a user's salient memories and merges clusters of
+ * near-duplicates; document chunks are left alone. For each memory still present, its nearest neighbours above
+ * the similarity threshold form a cluster; the most recently written member
+ * survives and the rest are merged into it (see MemoryManager.mergeMemories).
+ *
+ * Merged sources are deleted, so running it again finds nothing new to do. After
+ * every memory the position is checkpointed; an interrupted run resumes from
+ * there. Dry runs only report the clusters and never touch the checkpoint.
+ *
+ * @param memory The user's memory manager.
+ * @param options (Optional) Dry run, threshold and paging settings.
+ */
+export async function runMaintenance(memory: MemoryManager, options: MaintenanceOptions = {}): Promise<MaintenanceReport> {
+    const dryRun = options.dryRun === true;
+    const threshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const checkpoints = options.checkpoints
+        || (defaultCheckpoints = defaultCheckpoints || new MaintenanceCheckpoints(dataPath('maintenance.json')));
+
+    if (running.has(memory.userId)) {
+        throw new Error(`Maintenance is already running for ${memory.userId}`);
+    }
+    running.add(memory.userId);
+    try {
+        const checkpoint = dryRun ? null : await checkpoints.get(memory.userId);
+        const report: MaintenanceReport = {
+            userId: memory.userId,
+            dryRun,
+            resumedAfter: checkpoint?.lastId ?? null,
+            scanned: 0,
+            merges: [],
+            errors: []
+        };
+        // Memories already merged away (or, in a dry run, that would be).
+        const consumed = new Set<string>();
+
+        let cursor: string | undefined = checkpoint?.pageCursor ?? undefined;
+        do {
+            const page = await memory.listMemories({
+                filter: { salient: true, type: { $ne: DOCUMENT_MEMORY_TYPE } },
+                limit: pageSize,
+                cursor,
+                includeEmbeddings: true
+            });
+            let seeds = page.memories;
+            if (checkpoint && cursor === (checkpoint.pageCursor ?? undefined)) {
+                // Skip what the interrupted run already finished on this page. If that memory has
+                // since been deleted, the whole page is redone, which is harmless.
+                const done = seeds.findIndex(seed => seed.id === checkpoint.lastId);
+                seeds = seeds.slice(done + 1);
+            }
+            for (const seed of seeds) {
+                if (consumed.has(seed.id)) continue;
+                report.scanned++;
+
+                try {
+                    const cluster = (await memory.findSimilarMemories(seed.embedding, threshold, CLUSTER_CANDIDATES))
+                        .filter(candidate => !consumed.has(candidate.id));
+                    if (!cluster.some(candidate => candidate.id === seed.id)) cluster.push(seed);
+                    if (cluster.length > 1) {
+                        cluster.sort((a, b) => b.metadata.timestamp - a.metadata.timestamp);
+                        const [target, ...sources] = cluster;
+                        report.merges.push({
+                            targetId: target.id,
+                            sourceIds: sources.map(source => source.id),
+                            summaries: cluster.map(summarize)
+                        });
+                        sources.forEach(source => consumed.add(source.id));
+                        if (!dryRun) {
+                            await memory.mergeMemories(target, sources);
+                        }
+                    }
+                } catch (error: any) {
+                    log.error('Error in runMaintenance', { error });
+                    report.errors.push({ memoryId: seed.id, message: error.message });
+                }
+
+                if (!dryRun) {
+                    await checkpoints.save(memory.userId, { pageCursor: cursor ?? null, lastId: seed.id });
+                }
+            }
+            cursor = page.cursor;
+        } while (cursor);
+
+        if (!dryRun) {
+            await checkpoints.finish(memory.userId);
+        }
+        return report;
+    } finally {
+        running.delete(memory.userId);
+    }
+}
+
+// Longest delay setInterval honours; it fires after 1 ms for anything longer.
+const MAX_INTERVAL_MS = 2 ** 31 - 1;
+
+/**
+ * Reads PETER_MAINTENANCE_INTERVAL_MINUTES as the time in milliseconds between
+ * scheduled maintenance runs, or null when it is unset or 0 (no schedule).
+ */
+export function maintenanceInterval(): number | null {
+    const setting = process.env.PETER_MAINTENANCE_INTERVAL_MINUTES;
+    if (!setting || Number(setting) === 0) return null;
+    const intervalMs = Number(setting) * 60 * 1000;
+    if (!Number.isFinite(intervalMs) || intervalMs <= 0 || intervalMs > MAX_INTERVAL_MS) {
+        throw new Error(`PETER_MAINTENANCE_INTERVAL_MINUTES must be a positive number of minutes or 0, got "${setting}"`);
+    }
+    return intervalMs;
+}
+
+/**
+ * Runs maintenance for every user (and the household) on a fixed interval. The
+ * timer does not keep the process alive.
+ *
+ * @param memory Any memory manager; the others are derived with forUser.
+ * @param intervalMs Time between runs.
+ * @returns A function that stops the schedule.
+ */
+export function scheduleMaintenance(memory: MemoryManager, intervalMs: number): () => void {
+    const timer = setInterval(async () => {
+        let userIds: string[];
+        try {
+            userIds = [...await memory.listUsers(), HOUSEHOLD_USER];
+        } catch (error) {
+            log.error('Error listing users for scheduled maintenance', { error });
+            return;
+        }
+        for (const userId of userIds) {
+            try {
+                const report = await runMaintenance(memory.forUser(userId));
+                if (report.merges.length > 0) {
+                    log.info('Maintenance merged clusters', { userId, clusters: report.merges.length });
+                }
+            } catch (error) {
+                log.error('Error in scheduled maintenance', { error });
+            }
+        }
+    }, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
+}
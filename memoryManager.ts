@@ -1,17 +1,63 @@
 // memeory manager
 
-import { Pinecone } from '@pinecone-database/pinecone';
-import { OpenAI } from 'openai';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
+import { DocumentChunk } from './documentChunker.ts';
+import { CachedEmbeddingProvider, createEmbeddingCache, EmbeddingCache, EmbeddingCacheStats } from './embeddingCache.ts';
+import { FactChange, FactStore, formatFactKey, normalizeKeyPart, parseFactKey, StructuredFact } from './factStore.ts';
+import { dataPath } from './fileStorage.ts';
+import {
+    addRelation,
+    DEFAULT_EDGE_TYPE,
+    inverseEdgeType,
+    MemoryEdge,
+    parseRelation,
+    removeRelations,
+    validateEdgeType
+} from './memoryGraph.ts';
+import { ModelRoles } from './llmProvider.ts';
+import {
+    completeStructured,
+    InvalidReplyError,
+    ExtractedFact,
+    extractMemory,
+    MemoryExtraction,
+    MemoryUpdateDecision,
+    StructuredValue,
+    validateMergedMemory,
+    validateUpdateDecision
+} from './memoryExtraction.ts';
+import { MemoryHistoryStore, MemoryRevision, RevisionReason } from './memoryHistory.ts';
+import { combineFilters, containsPhrases, fuseRankings, parseSearchQuery, SearchScores } from './hybridSearch.ts';
+import { createKeywordIndex, KeywordIndex, KeywordIndexedStore } from './keywordIndex.ts';
+import { log } from './logger.ts';
+import { PendingWrite, PendingWriteStore } from './pendingWrites.ts';
+import { Reminder, ReminderInput, ReminderStore } from './reminders.ts';
+import { ServiceUnavailableError } from './resilience.ts';
+import { resolveScoringConfig, ScoreBreakdown, scoreMemory, ScoringConfig } from './retrievalScoring.ts';
+import {
+    maxTier,
+    SensitiveDataGuard,
+    SensitivityTier,
+    SENSITIVITY_TIERS,
+    tierAllowed,
+    tierOfShieldedText,
+    validateTier
+} from './sensitiveData.ts';
+import { createModelRoles } from './providers.ts';
+import { traceModels, traceSpan } from './tracing.ts';
+import {
+    matchesFilter,
+    MetadataFilter,
+    RecordMetadata,
+    VectorMatch,
+    VectorQuery,
+    VectorRecord,
+    VectorStore
+} from './vectorStore.ts';
+import { createVectorStore } from './vectorStoreFactory.ts';
 
-function calculateCosineSimilarity(vecA: number[], vecB: number[]): number {
-    const dotProduct = vecA.reduce((sum, a, i) => sum + a * (vecB[i] || 0), 0);
-    const normA = Math.sqrt(vecA.reduce((sum, a) => sum + (a * a), 0));
-    const normB = Math.sqrt(vecB.reduce((sum, b) => sum + (b * b), 0));
-    return (normA === 0 || normB === 0) ? 0 : dotProduct / (normA * normB);
-}
-
-interface Memory {
+export interface Memory {
     id: string;
     content: string;
     embedding: number[];
@@ -26,106 +72,383 @@ interface Memory {
         salient?: boolean;
         tags?: string[];
         relations?: string[]; // IDs of related memories for complex relationships
+        // How many times the memory has been retrieved as context.
+        accessCount?: number;
+        // Set on household copies: the user who shared the memory.
+        sharedBy?: string;
+        // Whether the memory may be used as prompt context (see sensitiveData.ts). Missing means normal.
+        sensitivity?: SensitivityTier;
+        // Set on document chunks (see syncDocument): the document, the chunk's section and its offsets in the source text.
+        source?: string;
+        section?: string;
+        startOffset?: number;
+        endOffset?: number;
+        // Hash of the chunk's section and text, to tell which chunks changed when a document is synced again.
+        chunkHash?: string;
     };
+    // Present on retrieved memories: how the memory ranked against the query.
+    score?: ScoreBreakdown;
+    // Present on search results: the memory's keyword, vector and fused scores.
+    match?: SearchScores;
+    // Present on memories pulled in by following links: the retrieved memory and link type that led here.
+    via?: { fromId: string; type: string; depth: number };
+}
+
+/**
+ * A memory reached by following links, with the link that led to it.
+ */
+export interface MemoryNeighbor {
+    memory: Memory;
+    // The memory the link starts from, and its type.
+    fromId: string;
+    type: string;
+    // Number of links followed from the starting memory.
+    depth: number;
+}
+
+// User whose memories are used when no user id is given.
+export const DEFAULT_USER = 'default';
+// Reserved user holding memories shared with everyone (see shareWithHousehold).
+export const HOUSEHOLD_USER = 'household';
+
+export interface MemoryManagerOptions {
+    // Vector store backend. Defaults to the one selected by VECTOR_STORE.
+    store?: VectorStore;
+    // Models used for embedding, summarizing and classification. Defaults to the environment config.
+    models?: ModelRoles;
+    // User whose memories this manager reads and writes. Defaults to DEFAULT_USER.
+    userId?: string;
+    // Whether retrieval also searches the shared household memories. Defaults to PETER_HOUSEHOLD=true.
+    includeHousehold?: boolean;
+    // Where prior revisions of edited memories are kept. Defaults to a file in the data directory.
+    history?: MemoryHistoryStore;
+    // Retrieval ranking settings. Unset fields come from the environment or the defaults.
+    scoring?: Partial<ScoringConfig>;
+    // Cache for embedding vectors; null disables caching. Defaults to the environment config.
+    embeddingCache?: EmbeddingCache | null;
+    // How many links retrieval follows from the top hits. Defaults to PETER_EXPAND_HOPS, or 1.
+    expandHops?: number;
+    // Keyword index kept alongside the store for hybrid search; null disables it. Defaults to a file in the data directory.
+    keywordIndex?: KeywordIndex | null;
+    // Where structured facts (subject.attribute = value) are kept. Defaults to a file in the data directory.
+    facts?: FactStore;
+    // Where reminders are kept. Defaults to a file in the data directory.
+    reminders?: ReminderStore;
+    // Where memory writes wait until they are stored (see addMemoryDurably). Defaults to a file in the data directory.
+    pendingWrites?: PendingWriteStore;
+    // Detects and redacts or encrypts personal data before it is sent to a model or stored.
+    // Defaults to the environment config, with its vault in the data directory.
+    sensitiveData?: SensitiveDataGuard;
+    // The most sensitive tier retrieval puts into prompts. Defaults to PETER_PROMPT_SENSITIVITY, or "private".
+    promptSensitivity?: SensitivityTier;
+}
+
+/**
+ * The outcome of replaying queued memory writes.
+ */
+export interface PendingWriteReplay {
+    // The writes stored, with the memories now holding them.
+    stored: { writeId: string; memoryIds: string[] }[];
+    // Writes still queued.
+    remaining: PendingWrite[];
+}
+
+/**
+ * What syncing a document changed (see syncDocument).
+ */
+export interface DocumentSyncReport {
+    source: string;
+    // Chunks the document has now.
+    chunks: number;
+    added: number;
+    unchanged: number;
+    removed: number;
+}
+
+/**
+ * Everything known about one entity: its current facts, the values they
+ * replaced, and the memories they came from.
+ */
+export interface EntityProfile {
+    subject: string;
+    facts: StructuredFact[];
+    history: StructuredFact[];
+    memories: Memory[];
+}
+
+// Cosine similarity above which two salient memories are treated as the same fact.
+const SIMILARITY_THRESHOLD = 0.8;
+// Failed attempts after which a queued write is only replayed when forced.
+const MAX_REPLAY_ATTEMPTS = 5;
+// Candidates each ranking contributes to a hybrid search, per result wanted.
+const SEARCH_CANDIDATE_MULTIPLIER = 4;
+// Memory type of document chunks (see syncDocument).
+export const DOCUMENT_MEMORY_TYPE = 'document';
+// Salient memories other than document chunks, which only change when their document does.
+const CONVERSATION_MEMORIES = { salient: true, type: { $ne: DOCUMENT_MEMORY_TYPE } };
+// Chunks embedded per call when a document is synced.
+const DOCUMENT_EMBED_BATCH = 64;
+
+// Throws unless the user ID is safe to use in a namespace name.
+export function validateUserId(userId: string): void {
+    if (!/^[A-Za-z0-9_.@-]{1,64}$/.test(userId)) {
+        throw new Error(`Invalid user id: ${userId}`);
+    }
 }
 
 /**
  * MemoryManager - A state-of-the-art, general memory management system that
  * supports full conversation histories, salient memories, consolidation of
  * related memories, conflict resolution (e.g. name facts), and complex semantic searches.
+ *
+ * Each instance is scoped to one user: all reads and writes go to that user's
+ * namespace. Use forUser() to get a manager for another user.
  */
 export class MemoryManager {
-    private pinecone: Pinecone;
-    private openai: OpenAI;
-    private indexName: string = 'personal-assistant';
+    readonly userId: string;
+    private baseStore: VectorStore;
+    private store: VectorStore;
+    private householdStore: VectorStore | null;
+    private includeHousehold: boolean;
+    private models: ModelRoles;
+    private history: MemoryHistoryStore;
+    private facts: FactStore;
+    private reminders: ReminderStore;
+    private pendingWrites: PendingWriteStore;
+    private sensitiveData: SensitiveDataGuard;
+    private promptSensitivity: SensitivityTier;
+    private scoring: ScoringConfig;
+    private expandHops: number;
     private namespace: string = 'memories';
 
-    constructor() {
-        if (!process.env.PINECONE_API_KEY) {
-            throw new Error('PINECONE_API_KEY is not set');
+    constructor(options: MemoryManagerOptions = {}) {
+        this.userId = options.userId || DEFAULT_USER;
+        validateUserId(this.userId);
+        this.baseStore = this.withKeywordIndex(options.store || createVectorStore(), options.keywordIndex);
+        this.store = this.baseStore.namespace(this.namespaceFor(this.userId));
+        this.models = this.withEmbeddingCache(traceModels(options.models || createModelRoles()), options.embeddingCache);
+        this.history = options.history || new MemoryHistoryStore(dataPath('history.json'));
+        this.facts = options.facts || new FactStore(dataPath('facts.json'));
+        this.reminders = options.reminders || new ReminderStore(dataPath('reminders.json'));
+        this.pendingWrites = options.pendingWrites || new PendingWriteStore(dataPath('pending-writes.json'));
+        this.sensitiveData = options.sensitiveData || new SensitiveDataGuard({ vaultPath: dataPath('vault.json') });
+        this.promptSensitivity = options.promptSensitivity ?? validateTier(process.env.PETER_PROMPT_SENSITIVITY || 'private');
+        this.scoring = resolveScoringConfig(options.scoring);
+        this.expandHops = options.expandHops ?? parseInt(process.env.PETER_EXPAND_HOPS || '1', 10);
+
+        this.includeHousehold = options.includeHousehold ?? process.env.PETER_HOUSEHOLD === 'true';
+        this.householdStore = this.includeHousehold && this.userId !== HOUSEHOLD_USER
+            ? this.baseStore.namespace(this.namespaceFor(HOUSEHOLD_USER))
+            : null;
+    }
+
+    // Routes every embedding through the cache, unless the embedder already is cached (e.g. via forUser).
+    private withEmbeddingCache(models: ModelRoles, cache: EmbeddingCache | null | undefined): ModelRoles {
+        if (models.embedder instanceof CachedEmbeddingProvider) return models;
+        const embeddingCache = cache === undefined ? createEmbeddingCache() : cache;
+        if (!embeddingCache) return models;
+        return { ...models, embedder: new CachedEmbeddingProvider(models.embedder, embeddingCache) };
+    }
+
+    // Keeps the keyword index in step with every write, unless the store already is indexed (e.g. via forUser).
+    private withKeywordIndex(store: VectorStore, index: KeywordIndex | null | undefined): VectorStore {
+        if (store instanceof KeywordIndexedStore || index === null) return store;
+        return new KeywordIndexedStore(store, index || createKeywordIndex());
+    }
+
+    private namespaceFor(userId: string): string {
+        return `${this.namespace}:${userId}`;
+    }
+
+    /**
+     * Returns a manager scoped to another user, sharing this manager's store and models.
+     *
+     * @param userId The user's ID.
+     */
+    forUser(userId: string): MemoryManager {
+        if (userId === this.userId) return this;
+        return new MemoryManager({
+            store: this.baseStore,
+            models: this.models,
+            history: this.history,
+            facts: this.facts,
+            reminders: this.reminders,
+            pendingWrites: this.pendingWrites,
+            sensitiveData: this.sensitiveData,
+            promptSensitivity: this.promptSensitivity,
+            scoring: this.scoring,
+            expandHops: this.expandHops,
+            userId,
+            includeHousehold: this.includeHousehold
+        });
+    }
+
+    /**
+     * Moves memories written by versions that predate per-user namespaces, which
+     * kept everything in the store's default namespace, into the default user's
+     * namespace. Safe to run at every start: once the default namespace is
+     * empty it only costs one list call.
+     *
+     * @returns The number of memories moved.
+     */
+    async migrateLegacyMemories(): Promise<number> {
+        const legacy = this.baseStore.namespace('');
+        const target = this.baseStore.namespace(this.namespaceFor(DEFAULT_USER));
+        const moved: string[] = [];
+        let cursor: string | undefined;
+        do {
+            const page = await legacy.list({ limit: 100, cursor });
+            await target.upsert(page.records);
+            moved.push(...page.records.map(record => record.id));
+            cursor = page.cursor;
+        } while (cursor);
+        // Deleted only once every record is copied, so an interrupted run just copies again.
+        for (let i = 0; i < moved.length; i += 1000) {
+            await legacy.delete(moved.slice(i, i + 1000));
         }
-        if (!process.env.OPENAI_API_KEY) {
-            throw new Error('OPENAI_API_KEY is not set');
+        if (moved.length > 0) log.info('Moved memories out of the legacy namespace', { count: moved.length });
+        return moved.length;
+    }
+
+    /**
+     * Lists the IDs of every user that has stored memories (excluding the household).
+     */
+    async listUsers(): Promise<string[]> {
+        const prefix = `${this.namespace}:`;
+        const namespaces = await this.baseStore.listNamespaces();
+        return namespaces
+            .filter(name => name.startsWith(prefix))
+            .map(name => name.slice(prefix.length))
+            .filter(userId => userId !== HOUSEHOLD_USER)
+            .sort();
+    }
+
+    /**
+     * Permanently deletes every memory belonging to a user.
+     *
+     * @param userId The user's ID.
+     */
+    async wipeUser(userId: string): Promise<void> {
+        validateUserId(userId);
+        await this.baseStore.deleteNamespace(this.namespaceFor(userId));
+        await this.history.deleteNamespace(this.namespaceFor(userId));
+        await this.facts.deleteNamespace(this.namespaceFor(userId));
+        await this.reminders.deleteUser(userId);
+        await this.pendingWrites.deleteUser(userId);
+        await this.sensitiveData.deleteNamespace(this.namespaceFor(userId));
+    }
+
+    /**
+     * Copies one of this user's memories into the shared household namespace, so
+     * it is retrieved for every user with household memories enabled.
+     *
+     * @param memoryId The memory's ID.
+     */
+    async shareWithHousehold(memoryId: string): Promise<void> {
+        const [record] = await this.store.fetch([memoryId]);
+        if (!record) {
+            throw new Error(`Memory ${memoryId} not found`);
         }
+        await this.sensitiveData.copyValues(
+            this.namespaceFor(this.userId),
+            this.namespaceFor(HOUSEHOLD_USER),
+            `${record.metadata.content} ${record.metadata.summary || ''}`
+        );
+        await this.baseStore.namespace(this.namespaceFor(HOUSEHOLD_USER)).upsert([{
+            ...record,
+            metadata: { ...record.metadata, sharedBy: this.userId }
+        }]);
+    }
 
-        this.pinecone = new Pinecone();
-        this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    /**
+     * Removes a memory from the shared household namespace.
+     *
+     * @param memoryId The memory's ID.
+     */
+    async unshareFromHousehold(memoryId: string): Promise<void> {
+        await this.baseStore.namespace(this.namespaceFor(HOUSEHOLD_USER)).delete([memoryId]);
     }
 
-    // Generates an embedding vector for the provided text.
-    private async generateEmbedding(text: string): Promise<number[]> {
-        const response = await this.openai.embeddings.create({
-            model: "text-embedding-3-small",
-            input: text,
-        });
-        return response.data[0].embedding;
+    // Queries this user's memories and, when enabled, the household's, merging the best matches.
+    private async queryWithHousehold(query: VectorQuery): Promise<VectorMatch[]> {
+        if (!this.householdStore) return this.store.query(query);
+        const [own, shared] = await Promise.all([
+            this.store.query(query),
+            this.householdStore.query(query)
+        ]);
+        const ownIds = new Set(own.map(match => match.id));
+        return [...own, ...shared.filter(match => !ownIds.has(match.id))]
+            .sort((a, b) => b.score - a.score)
+            .slice(0, query.topK);
     }
 
-    // Generates a concise summary for given text.
-    private async generateSummary(text: string): Promise<string> {
-        const response = await this.openai.chat.completions.create({
-            model: "gpt-4o-mini",
-            messages: [
-                {
-                    role: "system",
-                    content: "Summarize the following text concisely in under 100 words, highlighting key points."
-                },
-                {
-                    role: "user",
-                    content: text
-                }
-            ]
-        });
-        return response.choices[0].message.content || '';
+    // Dimension of the vectors produced by the configured embedding model.
+    get embeddingDimension(): number {
+        return this.models.embedder.dimension;
     }
 
-    // Evaluate the importance of the content on a scale from 0 to 1.
-    private async evaluateImportance(content: string): Promise<number> {
-        const response = await this.openai.chat.completions.create({
-            model: "gpt-4o-mini",
-            messages: [
-                {
-                    role: "system",
-                    content: "Rate the importance of the following content on a scale from 0 (trivial) to 1 (critical) and respond with only the number."
-                },
-                { role: "user", content }
-            ]
-        });
-        return parseFloat(response.choices[0].message.content || '0.5');
+    // Hit/miss counters of the embedding cache, or null when caching is disabled.
+    embeddingCacheStats(): EmbeddingCacheStats | null {
+        const embedder = this.models.embedder;
+        return embedder instanceof CachedEmbeddingProvider ? embedder.cache.stats() : null;
     }
 
-    // Evaluate if the content contains a salient fact.
-    private async evaluateSalientMemory(content: string): Promise<{ isSalient: boolean; summary: string }> {
-        const prompt = `
-You are a memory classification assistant that identifies key, memorable information.
-Given the following conversation:
-"${content}"
+    // Writes the embedding cache to disk now; call it before exiting.
+    async flushEmbeddingCache(): Promise<void> {
+        const embedder = this.models.embedder;
+        if (embedder instanceof CachedEmbeddingProvider) await embedder.cache.flush();
+    }
 
-Determine if it contains an important fact that should be remembered long term, such as:
-- Personal information (names, preferences, relationships)
-- Important dates or events
-- Key decisions or agreements
-- Significant preferences or dislikes
-- Notable achievements or experiences
+    // The configured embedding model as a "provider:model" spec.
+    get embeddingModel(): string {
+        return `${this.models.embedder.provider}:${this.models.embedder.model}`;
+    }
 
-If yes, respond with a JSON object:
-{"isSalient": true, "summary": "A clear, specific statement of the key fact (e.g., 'User's name is John', 'User prefers vegetarian food')"}
+    // Maps a stored vector record onto the Memory shape.
+    private toMemory(record: VectorRecord, includeEmbedding: boolean = false): Memory {
+        return {
+            id: record.id,
+            content: record.metadata.content as string,
+            embedding: includeEmbedding ? record.values : [],
+            metadata: record.metadata as unknown as Memory['metadata'],
+        };
+    }
 
-If not (if it's just casual conversation or non-essential information), respond with:
-{"isSalient": false, "summary": ""}
+    // Writes records to this user's namespace, as a traced step.
+    private async upsert(records: VectorRecord[]): Promise<void> {
+        await traceSpan('store.upsert', { records: records.length }, () => this.store.upsert(records));
+    }
 
-Respond ONLY with the JSON object.
-`;
+    // Generates an embedding vector for the provided text.
+    private async generateEmbedding(text: string): Promise<number[]> {
+        const [embedding] = await this.models.embedder.embed([text]);
+        return embedding;
+    }
 
-        const response = await this.openai.chat.completions.create({
-            model: "gpt-4o-mini",
-            messages: [{ role: "system", content: prompt }]
-        });
+    // Generates a concise summary for given text.
+    private async generateSummary(text: string): Promise<string> {
+        const response = await this.models.summarizer.complete([
+            {
+                role: "system",
+                content: "Summarize the following text concisely in under 100 words, highlighting key points."
+            },
+            {
+                role: "user",
+                content: text
+            }
+        ]);
+        return response.content;
+    }
+
+    // Classifies text in one structured call, or returns null if the model never produced a valid reply.
+    // A failed call is thrown, so a queued write stays queued instead of counting as not salient.
+    private async extract(content: string): Promise<MemoryExtraction | null> {
         try {
-            const jsonString = response.choices[0].message.content?.trim();
-            return JSON.parse(jsonString as string);
+            return await traceSpan('ingestion.extract', {}, () => extractMemory(this.models.classifier, content));
         } catch (error) {
-            return { isSalient: false, summary: "" };
+            if (!(error instanceof InvalidReplyError)) throw error;
+            log.error('Error in extract', { error });
+            return null;
         }
     }
 
@@ -140,7 +463,7 @@ Respond ONLY with the JSON object.
     private async evaluateMemoryUpdate(
         newContent: string,
         existingContent: string
-    ): Promise<{ update: boolean; updatedSummary: string }> {
+    ): Promise<MemoryUpdateDecision> {
         const prompt = `
 You are a memory management assistant that handles conflicts in a human-like memory system.
 Existing memory: "${existingContent}"
@@ -153,14 +476,16 @@ If the new information is redundant or confirms the existing memory, respond wit
 {"update": false, "updatedSummary": ""}
 Respond ONLY with the JSON object.
 `;
-        const response = await this.openai.chat.completions.create({
-            model: "gpt-4o-mini",
-            messages: [{ role: "system", content: prompt }]
-        });
         try {
-            const jsonString = response.choices[0].message.content?.trim();
-            return JSON.parse(jsonString as string);
+            return await traceSpan('ingestion.conflict', {}, () => completeStructured(
+                this.models.classifier,
+                [{ role: "system", content: prompt }],
+                validateUpdateDecision
+            ));
         } catch (error) {
+            // Only an unusable reply counts as "no update"; a failed call is the caller's error.
+            if (!(error instanceof InvalidReplyError)) throw error;
+            log.error('Error in evaluateMemoryUpdate', { error });
             return { update: false, updatedSummary: "" };
         }
     }
@@ -174,187 +499,1001 @@ Respond ONLY with the JSON object.
         return false;
     }
 
+    // Returns the closest salient memory if it is similar enough to count as the same fact.
+    private async findSimilarSalientMemory(embedding: number[]): Promise<VectorMatch | null> {
+        const matches = await this.store.query({
+            vector: embedding,
+            topK: 1,
+            filter: CONVERSATION_MEMORIES
+        });
+        if (matches.length > 0 && matches[0].score > SIMILARITY_THRESHOLD) {
+            return matches[0];
+        }
+        return null;
+    }
+
     /**
-     * Adds a new memory to storage.
-     * It handles salient memory detection, generic conflict resolution via evaluateMemoryUpdate,
-     * and then either updates an existing memory or creates a new one.
+     * Adds new memories to storage. A single classifier call decides whether the
+     * content is worth keeping and splits it into atomic facts; the facts are
+     * embedded in one batch, and each one either updates a similar existing
+     * memory (via evaluateMemoryUpdate) or becomes a new memory.
+     *
+     * Facts that are a property of an entity (e.g. sister.birthday) also go into
+     * the fact table. When every such key is already known from one memory, the
+     * key decides: the same values make the fact a duplicate, a new value
+     * rewrites that memory, with no similarity check.
+     *
+     * Content of type "important" is stored verbatim as one memory, even if the
+     * classifier does not find it salient.
+     *
+     * Personal data and secrets are replaced by placeholders before the content
+     * reaches any model (see sensitiveData.ts), and each memory's sensitivity tier
+     * follows from what was found in it.
      *
      * @param content The full text content of the memory.
      * @param type Classification type (e.g., "conversation").
-     * @param tags Optional array of tags.
-     * @param relatedIds Optional array of related memory IDs.
+     * @param tags Optional array of tags, added to the extracted ones.
+     * @param relatedIds Optional memory IDs to link to, bare or as "type:id" (see memoryGraph.ts).
+     * @param sensitivity (Optional) The least sensitive tier the memories get; detected data can raise it.
+     * @returns The IDs of the memories now holding the content (new, updated or existing
+     *          duplicates). Empty if the content was not worth storing.
      */
     async addMemory(
         content: string,
         type: string,
         tags: string[] = [],
-        relatedIds: string[] = []
-    ): Promise<void> {
+        relatedIds: string[] = [],
+        sensitivity?: SensitivityTier
+    ): Promise<string[]> {
+        return traceSpan('ingestion', { type }, () => this.ingest(content, type, tags, relatedIds, sensitivity));
+    }
+
+    // The body of addMemory, run inside its trace span.
+    private async ingest(
+        content: string,
+        type: string,
+        tags: string[],
+        relatedIds: string[],
+        sensitivity?: SensitivityTier
+    ): Promise<string[]> {
         try {
             if (this.isTrivial(content)) {
-                console.log("Content is trivial. Skipping memory creation.");
-                return;
+                log.debug('Content is trivial; skipping memory creation');
+                return [];
             }
 
-            // First, evaluate if this is a salient memory
-            const salientDecision = await this.evaluateSalientMemory(content);
-            
-            // If it's not salient and not explicitly marked as important, skip storage
-            if (!salientDecision.isSalient && type !== 'important') {
-                console.log("Content is not salient. Skipping memory creation.");
-                return;
+            content = (await this.sensitiveData.shield(content, this.namespaceFor(this.userId))).text;
+            const extraction = await this.extract(content);
+            let facts: ExtractedFact[];
+            let summaries: string[];
+            if (type === 'important') {
+                facts = [{
+                    content,
+                    importance: extraction?.importance ?? 0.5,
+                    tags: extraction?.tags ?? []
+                }];
+                summaries = [extraction?.facts.length === 1 ? extraction.facts[0].content : extraction?.summary || content];
+            } else if (extraction?.salient && extraction.facts.length > 0) {
+                facts = extraction.facts;
+                summaries = facts.map(fact => fact.content);
+            } else {
+                log.debug('Content is not salient; skipping memory creation');
+                return [];
             }
 
-            const index = this.pinecone.index(this.indexName);
-            const embedding = await this.generateEmbedding(content);
-            const importance = await this.evaluateImportance(content);
-
-            // For salient memories, check if we already have a similar one
-            if (salientDecision.isSalient) {
-                const queryResponse = await index.query({
-                    vector: embedding,
-                    topK: 1,
-                    includeMetadata: true,
-                    filter: { salient: true }
-                });
+            // The structured facts each memory will hold
+            const keyed: StructuredValue[][] = type === 'important'
+                ? [(extraction?.facts || []).flatMap(fact => fact.structured ? [fact.structured] : [])]
+                : facts.map(fact => fact.structured ? [fact.structured] : []);
 
-                if (queryResponse.matches && queryResponse.matches.length > 0) {
-                    const existingMemory = queryResponse.matches[0];
-                    const similarity = calculateCosineSimilarity(embedding, existingMemory.values);
-                    
-                    if (similarity > 0.8) {
-                        console.log(`Found similar salient memory (${existingMemory.id}). Evaluating update...`);
-                        const decision = await this.evaluateMemoryUpdate(
-                            content,
-                            existingMemory.metadata?.content as string
-                        );
-                        if (decision.update) {
-                            await this.editMemory(existingMemory.id, content, decision.updatedSummary, true);
-                            return;
-                        } else {
-                            console.log("Memory is similar but doesn't require an update. Skipping creation.");
-                            return;
-                        }
+            const embeddings = await this.models.embedder.embed(facts.map(fact => fact.content));
+            const memoryIds: string[] = [];
+            const records: VectorRecord[] = [];
+            const factSources: [string, StructuredValue[]][] = [];
+            for (let i = 0; i < facts.length; i++) {
+                const fact = facts[i];
+
+                const keyedSource = await this.findKeyedSource(keyed[i]);
+                if (keyedSource) {
+                    if (keyedSource.changed) {
+                        log.debug('Fact key already known with another value; updating its memory', { memoryId: keyedSource.memoryId });
+                        await this.editMemory(keyedSource.memoryId, fact.content, summaries[i], 'conflict-resolution', sensitivity);
                     }
+                    memoryIds.push(keyedSource.memoryId);
+                    factSources.push([keyedSource.memoryId, keyed[i]]);
+                    continue;
                 }
-            }
-
-            // Create new memory with the salient summary if available
-            console.log("Creating new salient memory...");
-            const memoryId = uuidv4();
-            const summary = salientDecision.isSalient ? 
-                salientDecision.summary : 
-                await this.generateSummary(content);
 
-            const records = [{
-                id: memoryId,
-                values: embedding,
-                metadata: {
-                    content,
-                    tags,
-                    relations: relatedIds,
-                    timestamp: Date.now(),
-                    type,
-                    summary,
-                    importance,
-                    lastAccessed: Date.now(),
-                    version: 1,
-                    salient: true  // Always mark as salient since we're only storing important memories
+                // Check if we already have a similar memory
+                const existingMemory = await this.findSimilarSalientMemory(embeddings[i]);
+                if (existingMemory) {
+                    log.debug('Found a similar salient memory; evaluating update', { memoryId: existingMemory.id });
+                    const decision = await this.evaluateMemoryUpdate(
+                        fact.content,
+                        existingMemory.metadata.content as string
+                    );
+                    if (decision.update) {
+                        await this.editMemory(existingMemory.id, fact.content, decision.updatedSummary, 'conflict-resolution', sensitivity);
+                    } else {
+                        log.debug('Similar memory needs no update; skipping creation', { memoryId: existingMemory.id });
+                    }
+                    memoryIds.push(existingMemory.id);
+                    factSources.push([existingMemory.id, keyed[i]]);
+                    continue;
                 }
-            }];
 
-            await index.upsert(records);
-            console.log("Salient memory stored successfully.");
+                const memoryId = uuidv4();
+                memoryIds.push(memoryId);
+                factSources.push([memoryId, keyed[i]]);
+                records.push({
+                    id: memoryId,
+                    values: embeddings[i],
+                    metadata: {
+                        content: fact.content,
+                        tags: [...new Set([...tags, ...fact.tags])],
+                        relations: [],
+                        timestamp: Date.now(),
+                        type,
+                        summary: summaries[i],
+                        importance: fact.importance,
+                        lastAccessed: Date.now(),
+                        version: 1,
+                        salient: true,  // Always mark as salient since we're only storing important memories
+                        sensitivity: maxTier(sensitivity, tierOfShieldedText(`${fact.content} ${summaries[i]}`))
+                    }
+                });
+            }
+
+            if (records.length > 0) {
+                await this.upsert(records);
+                log.debug('Stored new salient memories', { count: records.length });
+            }
+            for (const [memoryId, values] of factSources) {
+                await this.recordFacts(memoryId, values);
+            }
+
+            const storedIds = [...new Set(memoryIds)];
+            await this.linkIngested(storedIds, relatedIds);
+            return storedIds;
         } catch (error) {
-            console.error("Error in addMemory:", error);
+            log.error('Error in addMemory', { error });
             throw error;
         }
     }
 
     /**
-     * Edits an existing memory.
+     * Adds memories like addMemory, but first records the write in a durable
+     * queue (see pendingWrites.ts). If storing fails, for instance because the
+     * vector store or a model is down, the write stays queued and is retried
+     * before this user's next write or by replayPendingWrites. Writes still
+     * queued from before are replayed first, so they are stored in the order
+     * they were made. A replayed write that had been half stored is caught by
+     * the usual duplicate checks.
+     *
+     * @param content The full text content of the memory.
+     * @param type Classification type (e.g., "conversation").
+     * @param tags Optional array of tags, added to the extracted ones.
+     * @param relatedIds Optional memory IDs to link to.
+     * @returns The IDs of the memories now holding the content, or null if the write is still queued.
+     */
+    async addMemoryDurably(
+        content: string,
+        type: string,
+        tags: string[] = [],
+        relatedIds: string[] = []
+    ): Promise<string[] | null> {
+        const write = await this.queueMemory(content, type, tags, relatedIds);
+        const { stored } = await this.replayPendingWrites();
+        return stored.find(entry => entry.writeId === write.id)?.memoryIds ?? null;
+    }
+
+    /**
+     * Records a memory write in the write-ahead queue without storing it yet;
+     * replayPendingWrites stores it, e.g. from a background job (see
+     * ingestionQueue.ts). Until then, a reminder may use the write's ID as its
+     * source memory: it is relinked to the stored memory.
+     *
+     * @param content The full text content of the memory.
+     * @param type Classification type (e.g., "conversation").
+     * @param tags Optional array of tags, added to the extracted ones.
+     * @param relatedIds Optional memory IDs to link to.
+     */
+    async queueMemory(content: string, type: string, tags: string[] = [], relatedIds: string[] = []): Promise<PendingWrite> {
+        return this.pendingWrites.add(this.userId, {
+            content: await this.shieldText(content),
+            type,
+            tags,
+            relatedIds
+        });
+    }
+
+    /**
+     * Stores this user's queued memory writes, oldest first, stopping at the
+     * first one that fails again. Writes that already failed five times are
+     * skipped unless forced, so one bad write can't hold up the rest forever.
+     *
+     * @param force (Optional) Also retry writes that failed too often.
+     */
+    async replayPendingWrites(force: boolean = false): Promise<PendingWriteReplay> {
+        return this.pendingWrites.exclusive(this.userId, async () => {
+            const stored: PendingWriteReplay['stored'] = [];
+            for (const write of await this.pendingWrites.list(this.userId)) {
+                if (write.attempts >= MAX_REPLAY_ATTEMPTS && !force) continue;
+                try {
+                    const memoryIds = await this.addMemory(write.content, write.type, write.tags, write.relatedIds);
+                    await this.pendingWrites.remove(this.userId, write.id);
+                    await this.reminders.relinkMemories(this.userId, [write.id], memoryIds[0] ?? null);
+                    stored.push({ writeId: write.id, memoryIds });
+                } catch (error: any) {
+                    await this.pendingWrites.recordFailure(this.userId, write.id, error?.message || String(error));
+                    log.warn('Memory write left queued', { writeId: write.id, attempts: write.attempts + 1, error });
+                    break;
+                }
+            }
+            if (stored.length > 0) log.debug('Replayed queued memory writes', { count: stored.length });
+            return { stored, remaining: await this.pendingWrites.list(this.userId) };
+        });
+    }
+
+    // This user's memory writes still waiting to be stored, oldest first.
+    async getPendingWrites(): Promise<PendingWrite[]> {
+        return this.pendingWrites.list(this.userId);
+    }
+
+    // The memory every given key is currently known from, if they all come from one that still exists,
+    // and whether any of the values differ from what it says.
+    private async findKeyedSource(values: StructuredValue[]): Promise<{ memoryId: string; changed: boolean } | null> {
+        if (values.length === 0) return null;
+        const namespace = this.namespaceFor(this.userId);
+        let memoryId: string | null = null;
+        let changed = false;
+        for (const value of values) {
+            const [current] = await this.facts.current(namespace, { subject: value.subject, attribute: value.attribute });
+            if (!current?.sourceMemoryId || (memoryId !== null && current.sourceMemoryId !== memoryId)) return null;
+            memoryId = current.sourceMemoryId;
+            changed = changed || current.value.trim().toLowerCase() !== value.value.trim().toLowerCase();
+        }
+        const [record] = await this.store.fetch([memoryId!]);
+        return record ? { memoryId: record.id, changed } : null;
+    }
+
+    // Records structured facts taken from a memory.
+    private async recordFacts(memoryId: string, values: StructuredValue[]): Promise<void> {
+        for (const value of values) {
+            try {
+                const change = await this.facts.assert(this.namespaceFor(this.userId), { ...value, sourceMemoryId: memoryId });
+                if (change.outcome === 'updated') {
+                    log.info('Fact changed', { key: formatFactKey(change.fact), memoryId });
+                }
+            } catch (error) {
+                log.error('Error in recordFacts', { error, memoryId });
+            }
+        }
+    }
+
+    // Links memories stored together: to the caller's related IDs ("type:id" or bare) and, for
+    // facts split from one text, to each other.
+    private async linkIngested(memoryIds: string[], relatedIds: string[]): Promise<void> {
+        const links: [string, MemoryEdge][] = [];
+        for (const memoryId of memoryIds) {
+            for (const related of relatedIds) {
+                links.push([memoryId, parseRelation(related)]);
+            }
+        }
+        for (let i = 0; i < memoryIds.length; i++) {
+            for (let j = i + 1; j < memoryIds.length; j++) {
+                links.push([memoryIds[i], { type: DEFAULT_EDGE_TYPE, targetId: memoryIds[j] }]);
+            }
+        }
+        for (const [memoryId, edge] of links) {
+            if (edge.targetId === memoryId) continue;
+            try {
+                await this.linkMemories(memoryId, edge.targetId, edge.type);
+            } catch (error) {
+                log.error('Error in linkIngested', { error, memoryId });
+            }
+        }
+    }
+
+    // Saves the current state of a memory to its history before it is replaced.
+    private async saveRevision(record: VectorRecord, reason: RevisionReason): Promise<void> {
+        const metadata = record.metadata as unknown as Memory['metadata'] & { content: string };
+        await this.history.record(this.namespaceFor(this.userId), {
+            memoryId: record.id,
+            version: metadata.version || 1,
+            content: metadata.content,
+            summary: metadata.summary,
+            type: metadata.type,
+            tags: metadata.tags || [],
+            relations: metadata.relations || [],
+            importance: metadata.importance,
+            salient: metadata.salient === true,
+            timestamp: metadata.timestamp,
+            replacedAt: Date.now(),
+            reason
+        });
+    }
+
+    /**
+     * Edits an existing memory. The previous state is kept in the memory's history,
+     * the version is incremented, and type, tags, relations and salience are preserved.
+     * The sensitivity tier only goes up, to what the new content calls for.
      *
      * @param memoryId The ID of the memory.
      * @param newContent Updated content.
      * @param newSummary (Optional) A new summary.
-     * @param isSalient (Optional) Whether this should be marked as salient.
+     * @param reason (Optional) Why the memory changed, recorded in its history.
+     * @param sensitivity (Optional) The least sensitive tier the memory gets.
      */
     async editMemory(
         memoryId: string,
         newContent: string,
         newSummary?: string,
-        isSalient: boolean = false
+        reason: RevisionReason = 'user-edit',
+        sensitivity?: SensitivityTier
     ): Promise<void> {
-        const index = this.pinecone.index(this.indexName);
-        const updatedEmbedding = await this.generateEmbedding(newContent);
-        const summary = newSummary || (await this.generateSummary(newContent));
-        const importance = await this.evaluateImportance(newContent);
+        const [existing] = await this.store.fetch([memoryId]);
+        if (!existing) {
+            throw new Error(`Memory ${memoryId} not found`);
+        }
+        const namespace = this.namespaceFor(this.userId);
+        newContent = (await this.sensitiveData.shield(newContent, namespace)).text;
+        if (newSummary) newSummary = (await this.sensitiveData.shield(newSummary, namespace)).text;
+
+        const [updatedEmbedding, extraction] = await Promise.all([
+            this.generateEmbedding(newContent),
+            this.extract(newContent)
+        ]);
+        const summary = newSummary || extraction?.summary || newContent;
+        const importance = extraction?.importance ?? (existing.metadata.importance as number);
+        await this.saveRevision(existing, reason);
+
         const records = [
             {
                 id: memoryId,
                 values: updatedEmbedding,
                 metadata: {
+                    ...existing.metadata,
                     content: newContent,
                     timestamp: Date.now(),
-                    type: "conversation",
                     summary,
                     importance,
                     lastAccessed: Date.now(),
-                    version: 1,
-                    ...(isSalient ? { salient: true } : {})
+                    version: ((existing.metadata.version as number) || 1) + 1,
+                    sensitivity: maxTier(
+                        existing.metadata.sensitivity as SensitivityTier | undefined,
+                        sensitivity,
+                        tierOfShieldedText(`${newContent} ${summary}`)
+                    )
                 }
             }
         ];
 
         // Directly upsert the records.
-        await index.upsert(records);
+        await this.upsert(records);
+
+        // Bring the memory's structured facts in line with what it now says.
+        if (extraction) {
+            const values = extraction.facts.flatMap(fact => fact.structured ? [fact.structured] : []);
+            await this.recordFacts(memoryId, values);
+            await this.facts.retractBySource(this.namespaceFor(this.userId), memoryId, values.map(value => formatFactKey({
+                subject: normalizeKeyPart(value.subject),
+                attribute: normalizeKeyPart(value.attribute)
+            })));
+        }
+    }
+
+    /**
+     * Lists the prior revisions of a memory, oldest first. The current state is
+     * not included; fetch it with getMemory.
+     *
+     * @param memoryId The memory's ID.
+     */
+    async getMemoryHistory(memoryId: string): Promise<MemoryRevision[]> {
+        return this.history.list(this.namespaceFor(this.userId), memoryId);
+    }
+
+    /**
+     * Restores a memory to an earlier revision. The rollback is itself a new
+     * version, so the state being replaced stays in the history.
+     *
+     * @param memoryId The memory's ID.
+     * @param version The version to restore.
+     */
+    async rollbackMemory(memoryId: string, version: number): Promise<void> {
+        const [existing] = await this.store.fetch([memoryId]);
+        if (!existing) {
+            throw new Error(`Memory ${memoryId} not found`);
+        }
+        const revisions = await this.getMemoryHistory(memoryId);
+        const target = revisions.find(revision => revision.version === version);
+        if (!target) {
+            throw new Error(`Memory ${memoryId} has no version ${version}`);
+        }
+
+        const embedding = await this.generateEmbedding(target.content);
+        await this.saveRevision(existing, 'rollback');
+        await this.upsert([{
+            id: memoryId,
+            values: embedding,
+            metadata: {
+                ...existing.metadata,
+                content: target.content,
+                summary: target.summary,
+                type: target.type,
+                tags: target.tags,
+                // Links are left as they are: restoring old ones would leave the graph one-sided.
+                importance: target.importance,
+                salient: target.salient,
+                sensitivity: maxTier(existing.metadata.sensitivity as SensitivityTier | undefined, tierOfShieldedText(target.content)),
+                timestamp: Date.now(),
+                lastAccessed: Date.now(),
+                version: ((existing.metadata.version as number) || 1) + 1
+            }
+        }]);
+    }
+
+    /**
+     * Fetches a single memory by ID.
+     *
+     * @param memoryId The memory's ID.
+     * @returns The memory, or null if it does not exist.
+     */
+    async getMemory(memoryId: string): Promise<Memory | null> {
+        const [record] = await this.store.fetch([memoryId]);
+        return record ? this.toMemory(record) : null;
     }
 
     /**
-     * Retrieves memories related to the query using semantic similarity.
+     * Fetches a memory with the personal data in it decrypted, for showing to its
+     * owner. Redacted values cannot be recovered and stay as placeholders. The
+     * result must not be stored or put into a prompt.
+     *
+     * @param memoryId The memory's ID.
+     * @returns The memory, or null if it does not exist.
+     */
+    async revealMemory(memoryId: string): Promise<Memory | null> {
+        const memory = await this.getMemory(memoryId);
+        if (!memory) return null;
+        // Household copies were encrypted in their sharer's namespace and copied to the household's.
+        const namespaces = [this.namespaceFor(this.userId), this.namespaceFor(HOUSEHOLD_USER)];
+        return {
+            ...memory,
+            content: await this.sensitiveData.reveal(namespaces, memory.content),
+            metadata: {
+                ...memory.metadata,
+                summary: await this.sensitiveData.reveal(namespaces, memory.metadata.summary || '')
+            }
+        };
+    }
+
+    /**
+     * Sets a memory's sensitivity tier, e.g. to keep a memory out of prompts or to
+     * let a wrongly flagged one back in.
+     *
+     * @param memoryId The memory's ID.
+     * @param tier The tier.
+     */
+    async setSensitivity(memoryId: string, tier: SensitivityTier): Promise<void> {
+        validateTier(tier);
+        const [existing] = await this.store.fetch([memoryId]);
+        if (!existing) {
+            throw new Error(`Memory ${memoryId} not found`);
+        }
+        await this.store.updateMetadata(memoryId, { sensitivity: tier });
+    }
+
+    /**
+     * Replaces the personal data in a text with placeholders, keeping the values
+     * in this user's vault, e.g. before storing conversation history.
+     *
+     * @param text The text.
+     */
+    async shieldText(text: string): Promise<string> {
+        return (await this.sensitiveData.shield(text, this.namespaceFor(this.userId))).text;
+    }
+
+    /**
+     * Lists this user's memories page by page, without any semantic ranking.
+     *
+     * @param options Optional metadata filter, page size and cursor from a previous page.
+     */
+    async listMemories(
+        options: { filter?: Record<string, any>; limit?: number; cursor?: string; includeEmbeddings?: boolean } = {}
+    ): Promise<{ memories: Memory[]; cursor?: string }> {
+        const page = await this.store.list(options);
+        return {
+            memories: page.records.map(record => this.toMemory(record, options.includeEmbeddings)),
+            cursor: page.cursor
+        };
+    }
+
+    /**
+     * Imports a memory from a backup, keeping its metadata. Salient memories are
+     * deduplicated with the same similarity check addMemory uses: a near-duplicate
+     * is merged into the existing memory when the LLM decides it adds information,
+     * and skipped otherwise.
+     *
+     * @param memory The memory to import. Its embedding is reused if non-empty.
+     * @returns What happened and the ID of the memory holding the content.
+     */
+    async importMemory(memory: Memory): Promise<{ outcome: 'created' | 'merged' | 'skipped'; id: string }> {
+        const namespace = this.namespaceFor(this.userId);
+        const shielded = await this.sensitiveData.shield(memory.content, namespace);
+        const summary = (await this.sensitiveData.shield(memory.metadata.summary || '', namespace)).text;
+        // An embedding of text that still held personal data is not reused.
+        const embedding = memory.embedding.length === this.embeddingDimension && shielded.findings.length === 0
+            ? memory.embedding
+            : await this.generateEmbedding(shielded.text);
+        memory = {
+            ...memory,
+            content: shielded.text,
+            metadata: {
+                ...memory.metadata,
+                summary,
+                sensitivity: maxTier(memory.metadata.sensitivity, tierOfShieldedText(`${shielded.text} ${summary}`))
+            }
+        };
+
+        if (memory.metadata.salient) {
+            const existingMemory = await this.findSimilarSalientMemory(embedding);
+            if (existingMemory) {
+                const decision = await this.evaluateMemoryUpdate(
+                    memory.content,
+                    existingMemory.metadata.content as string
+                );
+                if (!decision.update) {
+                    return { outcome: 'skipped', id: existingMemory.id };
+                }
+                await this.editMemory(existingMemory.id, memory.content, decision.updatedSummary, 'conflict-resolution', memory.metadata.sensitivity);
+                return { outcome: 'merged', id: existingMemory.id };
+            }
+        }
+
+        // Keep the original ID (so relations still resolve) unless it is already taken.
+        const [taken] = await this.store.fetch([memory.id]);
+        const memoryId = taken ? uuidv4() : memory.id;
+        await this.upsert([{
+            id: memoryId,
+            values: embedding,
+            metadata: {
+                ...memory.metadata,
+                content: memory.content,
+                tags: memory.metadata.tags || [],
+                relations: memory.metadata.relations || []
+            } as unknown as RecordMetadata
+        }]);
+        return { outcome: 'created', id: memoryId };
+    }
+
+    /**
+     * Stores a document's chunks (see documentChunker.ts) as "document" memories,
+     * in place of what was stored for it before. Chunks are matched to the stored
+     * ones by a hash of their section and text: unchanged chunks are kept (with
+     * their offsets updated if they moved), new and changed ones are embedded and
+     * stored, and stored chunks no longer in the document are deleted. Chunks
+     * skip the salience and conflict checks of addMemory; their personal data is
+     * shielded like any other memory's.
+     *
+     * @param source The document, e.g. its absolute path. Chunks are stored under it.
+     * @param chunks The document's chunks; none removes the document.
+     */
+    async syncDocument(source: string, chunks: DocumentChunk[]): Promise<DocumentSyncReport> {
+        const namespace = this.namespaceFor(this.userId);
+        // Stored chunk IDs by hash; a hash may repeat when a document repeats a section.
+        const stored = new Map<string, string[]>();
+        let cursor: string | undefined;
+        do {
+            const page = await this.store.list({ filter: { type: DOCUMENT_MEMORY_TYPE, source }, limit: 100, cursor });
+            for (const record of page.records) {
+                const hash = record.metadata.chunkHash as string;
+                stored.set(hash, [...(stored.get(hash) || []), record.id]);
+            }
+            cursor = page.cursor;
+        } while (cursor);
+
+        const added: { chunk: DocumentChunk; text: string; hash: string }[] = [];
+        let unchanged = 0;
+        for (const chunk of chunks) {
+            const text = (await this.sensitiveData.shield(chunk.text, namespace)).text;
+            const hash = createHash('sha256').update(`${chunk.section}\n${text}`).digest('hex').slice(0, 32);
+            const id = stored.get(hash)?.shift();
+            if (!id) {
+                added.push({ chunk, text, hash });
+                continue;
+            }
+            unchanged++;
+            await this.store.updateMetadata(id, { startOffset: chunk.start, endOffset: chunk.end });
+        }
+
+        for (let i = 0; i < added.length; i += DOCUMENT_EMBED_BATCH) {
+            const batch = added.slice(i, i + DOCUMENT_EMBED_BATCH);
+            // The section goes into the embedding too, so a chunk is found by its heading.
+            const embeddings = await this.models.embedder.embed(
+                batch.map(({ chunk, text }) => chunk.section ? `${chunk.section}\n\n${text}` : text)
+            );
+            const now = Date.now();
+            await this.upsert(batch.map(({ chunk, text, hash }, j) => ({
+                id: uuidv4(),
+                values: embeddings[j],
+                metadata: {
+                    content: text,
+                    summary: text,
+                    type: DOCUMENT_MEMORY_TYPE,
+                    tags: [DOCUMENT_MEMORY_TYPE],
+                    relations: [],
+                    timestamp: now,
+                    lastAccessed: now,
+                    importance: 0.5,
+                    version: 1,
+                    salient: true,
+                    sensitivity: tierOfShieldedText(text),
+                    source,
+                    section: chunk.section,
+                    startOffset: chunk.start,
+                    endOffset: chunk.end,
+                    chunkHash: hash
+                }
+            })));
+        }
+
+        const removed = [...stored.values()].flat();
+        for (const id of removed) {
+            await this.deleteMemory(id);
+        }
+        log.info('Document synced', { userId: this.userId, chunks: chunks.length, added: added.length, removed: removed.length });
+        return { source, chunks: chunks.length, added: added.length, unchanged, removed: removed.length };
+    }
+
+    /**
+     * Retrieves memories related to the query. Candidates are found by semantic
+     * similarity, dropped below the minimum relevance, then ranked by a blend of
+     * similarity, recency, importance and how often they have been used (see
+     * retrievalScoring.ts). The top hits are then expanded by following their
+     * links up to expandHops deep, adding at most `limit` linked memories (marked
+     * with `via`) after them. Returned memories have their access stats updated.
+     * Memories above the prompt sensitivity tier are never returned, since these
+     * become prompt context.
+     *
+     * Errors yield no memories, except when the embedder or the store is
+     * unavailable: then ServiceUnavailableError is thrown, so callers can tell
+     * "nothing relevant" from "memory is down" (see resilience.ts).
      *
      * @param query A query string.
-     * @param limit Maximum number of memories.
+     * @param limit Maximum number of semantic hits.
+     * @param expandHops (Optional) Links to follow from each hit. Defaults to the manager's setting.
      */
-    async getRelatedMemories(query: string, limit: number = 5): Promise<Memory[]> {
+    async getRelatedMemories(query: string, limit: number = 5, expandHops: number = this.expandHops): Promise<Memory[]> {
+        return traceSpan('retrieval', { limit }, () => this.retrieve(query, limit, expandHops));
+    }
+
+    // The body of getRelatedMemories, run inside its trace span.
+    private async retrieve(query: string, limit: number, expandHops: number): Promise<Memory[]> {
         try {
-            const index = this.pinecone.index(this.indexName);
-            const queryEmbedding = await this.generateEmbedding(query);
+            const queryEmbedding = await this.generateEmbedding((await this.sensitiveData.shield(query)).text);
             
-            const queryResponse = await index.query({
+            const matches = await this.queryWithHousehold({
                 vector: queryEmbedding,
-                topK: limit,
-                includeMetadata: true,
-                filter: { salient: true },
+                topK: limit * this.scoring.candidateMultiplier,
+                filter: { salient: true, ...this.promptFilter() },
             });
 
-            console.log("Found memories:", queryResponse.matches?.length || 0);
-            console.log("Query response:", JSON.stringify(queryResponse, null, 2));
-
-            const memories = (queryResponse.matches?.map((match: any) => ({
-                id: match.id,
-                content: match.metadata.content,
-                embedding: match.values,  // Include the embedding values
-                metadata: match.metadata,
-            })) || []);
-
-            // Sort by similarity (most relevant first) and then by recency
-            memories.sort((a: Memory, b: Memory) => {
-                const similarityA = calculateCosineSimilarity(queryEmbedding, a.embedding);
-                const similarityB = calculateCosineSimilarity(queryEmbedding, b.embedding);
-                if (Math.abs(similarityA - similarityB) > 0.1) {
-                    return similarityB - similarityA;
-                }
-                return b.metadata.lastAccessed - a.metadata.lastAccessed;
-            });
+            log.debug('Retrieval candidates', { count: matches.length });
+
+            const now = Date.now();
+            const memories = matches
+                .filter(match => match.score >= this.scoring.minRelevance)
+                .map(match => ({
+                    // Include the embedding values
+                    ...this.toMemory(match, true),
+                    score: scoreMemory(match.score, match.metadata as Memory['metadata'], this.scoring, now)
+                }))
+                .sort((a, b) => b.score.total - a.score.total)
+                .slice(0, limit);
+            const linked = await this.expandLinks(memories, expandHops, limit);
 
-            return memories.slice(0, limit);
+            await this.recordAccess([...memories, ...linked], now)
+                .catch(error => log.warn('Could not record memory access', { error }));
+            return [...memories, ...linked];
         } catch (error) {
-            console.error('Error in getRelatedMemories:', error);
+            if (error instanceof ServiceUnavailableError) throw error;
+            log.error('Error in getRelatedMemories', { error });
             return [];
         }
     }
 
+    // Follows links from retrieved memories breadth-first, nearest first, skipping ones already retrieved.
+    private async expandLinks(memories: Memory[], hops: number, maxLinked: number): Promise<Memory[]> {
+        if (hops <= 0 || maxLinked <= 0) return [];
+        const seen = new Set(memories.map(memory => memory.id));
+        const linked: Memory[] = [];
+        for (const memory of memories) {
+            const neighbors = await this.traverse(this.storeFor(memory), memory, hops);
+            for (const neighbor of neighbors) {
+                if (seen.has(neighbor.memory.id) || !this.allowedInPrompts(neighbor.memory)) continue;
+                seen.add(neighbor.memory.id);
+                linked.push({
+                    ...neighbor.memory,
+                    via: { fromId: neighbor.fromId, type: neighbor.type, depth: neighbor.depth }
+                });
+            }
+        }
+        return linked
+            .sort((a, b) => a.via!.depth - b.via!.depth)
+            .slice(0, maxLinked);
+    }
+
+    /**
+     * A metadata filter matching the memories that may be used as prompt context,
+     * per the prompt sensitivity setting. Secret memories never are.
+     */
+    promptFilter(): MetadataFilter {
+        const blocked = SENSITIVITY_TIERS.filter(tier => !tierAllowed(tier, this.promptSensitivity));
+        return { sensitivity: { $nin: blocked } };
+    }
+
+    // Whether a memory may be used as prompt context (see promptFilter).
+    allowedInPrompts(memory: Memory): boolean {
+        return tierAllowed(memory.metadata.sensitivity, this.promptSensitivity);
+    }
+
+    // Household copies live in the household namespace; everything else in the user's own.
+    private storeFor(memory: Memory): VectorStore {
+        return memory.metadata.sharedBy && this.householdStore ? this.householdStore : this.store;
+    }
+
+    // Bumps lastAccessed and accessCount on retrieved memories.
+    private async recordAccess(memories: Memory[], now: number): Promise<void> {
+        await Promise.all(memories.map(memory => {
+            const store = this.storeFor(memory);
+            return store.updateMetadata(memory.id, {
+                lastAccessed: now,
+                accessCount: (memory.metadata.accessCount || 0) + 1
+            });
+        }));
+    }
+
+    // Breadth-first walk over links, one batched fetch per level. Links to deleted memories are skipped.
+    private async traverse(
+        store: VectorStore,
+        start: Memory,
+        hops: number,
+        types?: string[]
+    ): Promise<MemoryNeighbor[]> {
+        const visited = new Set([start.id]);
+        const neighbors: MemoryNeighbor[] = [];
+        let frontier: Memory[] = [start];
+        for (let depth = 1; depth <= hops && frontier.length > 0; depth++) {
+            const edges = frontier.flatMap(memory =>
+                (memory.metadata.relations || [])
+                    .map(parseRelation)
+                    .filter(edge => !visited.has(edge.targetId) && (!types || types.includes(edge.type)))
+                    .map(edge => ({ ...edge, fromId: memory.id }))
+            );
+            const unique = edges.filter((edge, i) => edges.findIndex(other => other.targetId === edge.targetId) === i);
+            unique.forEach(edge => visited.add(edge.targetId));
+            if (unique.length === 0) break;
+
+            const records = new Map(
+                (await store.fetch(unique.map(edge => edge.targetId))).map(record => [record.id, record])
+            );
+            frontier = [];
+            for (const edge of unique) {
+                const record = records.get(edge.targetId);
+                if (!record) continue;
+                const memory = this.toMemory(record);
+                neighbors.push({ memory, fromId: edge.fromId, type: edge.type, depth });
+                frontier.push(memory);
+            }
+        }
+        return neighbors;
+    }
+
+    /**
+     * Links two memories with a typed edge, e.g. "about-person", "supersedes" or
+     * "part-of". The inverse edge is stored on the other memory, so the link can
+     * be followed from either end.
+     *
+     * @param fromId The memory the link starts from.
+     * @param toId The linked memory.
+     * @param type (Optional) The link type. Defaults to "related".
+     */
+    async linkMemories(fromId: string, toId: string, type: string = DEFAULT_EDGE_TYPE): Promise<void> {
+        validateEdgeType(type);
+        if (fromId === toId) {
+            throw new Error('A memory cannot be linked to itself');
+        }
+        const records = await this.store.fetch([fromId, toId]);
+        const from = records.find(record => record.id === fromId);
+        const to = records.find(record => record.id === toId);
+        if (!from || !to) {
+            throw new Error(`Memory ${from ? toId : fromId} not found`);
+        }
+        await this.store.updateMetadata(fromId, {
+            relations: addRelation((from.metadata.relations as string[]) || [], { type, targetId: toId })
+        });
+        await this.store.updateMetadata(toId, {
+            relations: addRelation((to.metadata.relations as string[]) || [], { type: inverseEdgeType(type), targetId: fromId })
+        });
+    }
+
+    /**
+     * Removes the links between two memories, on both ends.
+     *
+     * @param fromId The memory the link starts from.
+     * @param toId The linked memory.
+     * @param type (Optional) Only remove links of this type. Defaults to all links between them.
+     */
+    async unlinkMemories(fromId: string, toId: string, type?: string): Promise<void> {
+        const records = await this.store.fetch([fromId, toId]);
+        for (const record of records) {
+            const otherId = record.id === fromId ? toId : fromId;
+            const edgeType = type === undefined ? undefined : record.id === fromId ? type : inverseEdgeType(type);
+            await this.store.updateMetadata(record.id, {
+                relations: removeRelations((record.metadata.relations as string[]) || [], otherId, edgeType)
+            });
+        }
+    }
+
+    /**
+     * Follows a memory's links, breadth-first.
+     *
+     * @param memoryId The memory to start from.
+     * @param hops (Optional) How many links deep to go. Defaults to 1.
+     * @param types (Optional) Only follow links of these types.
+     */
+    async getNeighbors(memoryId: string, hops: number = 1, types?: string[]): Promise<MemoryNeighbor[]> {
+        const start = await this.getMemory(memoryId);
+        if (!start) {
+            throw new Error(`Memory ${memoryId} not found`);
+        }
+        return this.traverse(this.store, start, hops, types);
+    }
+
+    /**
+     * Lists the current structured facts, e.g. user.name = "Jon".
+     *
+     * @param subject (Optional) Only facts about this entity.
+     */
+    async listFacts(subject?: string): Promise<StructuredFact[]> {
+        return this.facts.current(this.namespaceFor(this.userId), subject === undefined ? {} : { subject });
+    }
+
+    /**
+     * Looks up the current value of a fact.
+     *
+     * @param key The fact's key, e.g. "sister.birthday".
+     * @returns The fact, or null if nothing is known.
+     */
+    async getFact(key: string): Promise<StructuredFact | null> {
+        const [fact] = await this.facts.current(this.namespaceFor(this.userId), parseFactKey(key));
+        return fact || null;
+    }
+
+    /**
+     * Lists every value a fact has had, oldest first; the last one is current
+     * unless the fact was retracted.
+     *
+     * @param key The fact's key, e.g. "user.name".
+     */
+    async getFactHistory(key: string): Promise<StructuredFact[]> {
+        const { subject, attribute } = parseFactKey(key);
+        return this.facts.history(this.namespaceFor(this.userId), subject, attribute);
+    }
+
+    /**
+     * Sets a fact directly, e.g. to correct an extracted value. The previous
+     * value stays in the fact's history.
+     *
+     * @param key The fact's key, e.g. "user.name".
+     * @param value The new value.
+     */
+    async setFact(key: string, value: string): Promise<FactChange> {
+        const namespace = this.namespaceFor(this.userId);
+        const { subject, attribute } = parseFactKey(key);
+        return this.facts.assert(namespace, {
+            subject,
+            attribute,
+            value: (await this.sensitiveData.shield(value, namespace)).text,
+            confidence: 1,
+            sourceMemoryId: null
+        });
+    }
+
+    /**
+     * Gathers everything known about an entity: its current facts, the values
+     * they replaced and the memories they were extracted from.
+     *
+     * @param subject The entity, e.g. "user" or "sister".
+     */
+    async getEntity(subject: string): Promise<EntityProfile> {
+        const namespace = this.namespaceFor(this.userId);
+        const facts = await this.facts.current(namespace, { subject });
+        const history: StructuredFact[] = [];
+        for (const fact of facts) {
+            const values = await this.facts.history(namespace, fact.subject, fact.attribute);
+            history.push(...values.filter(value => value.validTo !== null));
+        }
+        const sourceIds = [...new Set(facts.flatMap(fact => fact.sourceMemoryId ? [fact.sourceMemoryId] : []))];
+        const records = sourceIds.length > 0 ? await this.store.fetch(sourceIds) : [];
+        return {
+            subject: normalizeKeyPart(subject),
+            facts,
+            history,
+            memories: records.map(record => this.toMemory(record))
+        };
+    }
+
+    /**
+     * Schedules a reminder for this user.
+     *
+     * @param input What to remind of, when (see parseWhen in reminderTime.ts), and the memory it came from.
+     */
+    async addReminder(input: ReminderInput): Promise<Reminder> {
+        return this.reminders.create(this.userId, input);
+    }
+
+    async getReminder(reminderId: string): Promise<Reminder | null> {
+        return this.reminders.get(this.userId, reminderId);
+    }
+
+    /**
+     * Lists this user's reminders, soonest first.
+     *
+     * @param includeClosed (Optional) Also list done and cancelled reminders.
+     */
+    async listReminders(includeClosed: boolean = false): Promise<Reminder[]> {
+        return this.reminders.list(this.userId, includeClosed);
+    }
+
+    /**
+     * Puts a reminder off until a later time.
+     *
+     * @param reminderId The reminder's ID.
+     * @param until When it should come up again.
+     */
+    async snoozeReminder(reminderId: string, until: number): Promise<Reminder> {
+        return this.requireReminder(reminderId, await this.reminders.snooze(this.userId, reminderId, until));
+    }
+
+    /**
+     * Marks a reminder done; a recurring one moves on to its next occurrence.
+     *
+     * @param reminderId The reminder's ID.
+     */
+    async completeReminder(reminderId: string): Promise<Reminder> {
+        return this.requireReminder(reminderId, await this.reminders.complete(this.userId, reminderId));
+    }
+
+    async cancelReminder(reminderId: string): Promise<Reminder> {
+        return this.requireReminder(reminderId, await this.reminders.cancel(this.userId, reminderId));
+    }
+
+    // Due reminders Peter has not brought up with this user yet.
+    async getUnannouncedReminders(): Promise<Reminder[]> {
+        return this.reminders.unannounced(this.userId);
+    }
+
+    async markRemindersAnnounced(reminderIds: string[]): Promise<void> {
+        await this.reminders.markAnnounced(this.userId, reminderIds);
+    }
+
+    /**
+     * Marks every user's reminders whose time has come as due.
+     *
+     * @returns The reminders that just became due, with their owners.
+     */
+    async fireDueReminders(): Promise<{ userId: string; reminder: Reminder }[]> {
+        return this.reminders.fireDue();
+    }
+
+    private requireReminder(reminderId: string, reminder: Reminder | null): Reminder {
+        if (!reminder) {
+            throw new Error(`Reminder ${reminderId} not found`);
+        }
+        return reminder;
+    }
+
     /**
      * Retrieves memories using metadata filtering and semantic search.
      *
@@ -363,70 +1502,83 @@ Respond ONLY with the JSON object.
      * @param limit Maximum number of memories.
      */
     async getMemoriesByFilter(filter: Record<string, any>, queryText: string, limit: number = 10): Promise<Memory[]> {
-        try {
-            const index = this.pinecone.index(this.indexName);
-            const queryEmbedding = await this.generateEmbedding(queryText);
-            const queryResponse = await (index.query as any)({
-                vector: queryEmbedding,
-                topK: limit * 2,
-                includeMetadata: true,
-                filter,
-            });
-            const memories = (queryResponse.matches?.map((match: any) => ({
-                id: match.id,
-                content: match.metadata.content,
-                embedding: [],
-                metadata: match.metadata,
-            })) || []);
-            memories.sort((a: Memory, b: Memory) => b.metadata.lastAccessed - a.metadata.lastAccessed);
-            return memories.slice(0, limit);
-        } catch (error) {
-            console.error("Error in getMemoriesByFilter:", error);
-            return [];
-        }
+        return this.searchMemoriesComplex(queryText, filter, limit);
     }
 
     /**
-     * Performs an advanced memory search by combining semantic similarity and metadata filtering.
+     * Searches memories with keyword (BM25) and vector rankings fused by
+     * reciprocal rank (see hybridSearch.ts), so exact names, numbers and codes are
+     * found as well as paraphrases. The query may use `tag:`, `type:`, `after:`,
+     * `before:` and "quoted phrases"; a query with no free text lists the matching
+     * memories, newest first. Results carry their per-signal scores in `match`.
      *
-     * @param queryText The query string.
-     * @param filters Optional filters to refine search.
+     * @param queryText The query, optionally with search syntax.
+     * @param filters Optional metadata filter, combined with the query's.
      * @param limit Maximum number of memories to return.
+     * @throws If the query syntax is invalid (e.g. a bad date).
      */
     async searchMemoriesComplex(
         queryText: string,
         filters: Record<string, any> = {},
         limit: number = 5
     ): Promise<Memory[]> {
+        // Personal data in the query becomes the same placeholder it has in stored memories.
+        const parsed = parseSearchQuery((await this.sensitiveData.shield(queryText)).text);
+        const filter = combineFilters(filters, parsed.filter);
+        const accepts = (record: VectorRecord) =>
+            containsPhrases(`${record.metadata.content} ${record.metadata.summary || ''}`, parsed.phrases);
+
         try {
-            const index = this.pinecone.index(this.indexName);
-            const queryEmbedding = await this.generateEmbedding(queryText);
-            console.log("Query embedding:", queryEmbedding);
+            if (!parsed.text) {
+                const listed: Memory[] = [];
+                let cursor: string | undefined;
+                do {
+                    const page = await this.listMemories({ filter, cursor, limit: 100 });
+                    listed.push(...page.memories);
+                    cursor = page.cursor;
+                } while (cursor);
+                return listed
+                    .sort((a, b) => b.metadata.timestamp - a.metadata.timestamp)
+                    .slice(0, limit);
+            }
 
-            // Build query parameters without the namespace property.
-            const queryParams: any = {
-                vector: queryEmbedding,
-                topK: limit,
-                includeMetadata: true,
-            };
+            const candidates = limit * SEARCH_CANDIDATE_MULTIPLIER;
+            const records = new Map<string, VectorRecord>();
+            const vectorMatches = (await this.queryWithHousehold({
+                vector: await this.generateEmbedding(parsed.text),
+                topK: candidates,
+                filter,
+            })).filter(match => match.score >= this.scoring.minRelevance && accepts(match));
+            vectorMatches.forEach(match => records.set(match.id, match));
 
-            if (Object.keys(filters).length > 0) {
-                queryParams.filter = filters;
+            const keywordMatches: { id: string; score: number }[] = [];
+            for (const store of [this.store, this.householdStore]) {
+                if (!(store instanceof KeywordIndexedStore)) continue;
+                // The index knows nothing of the filter or phrases, so hits are checked a batch
+                // at a time, best first, until enough of them pass.
+                const hits = await store.keywordSearch(parsed.text, Infinity);
+                let passed = 0;
+                for (let start = 0; start < hits.length && passed < candidates; start += candidates) {
+                    const batch = hits.slice(start, start + candidates);
+                    const fetched = new Map((await store.fetch(batch.map(hit => hit.id))).map(record => [record.id, record]));
+                    for (const hit of batch) {
+                        const record = fetched.get(hit.id);
+                        if (!record || !matchesFilter(record.metadata, filter) || !accepts(record)) continue;
+                        // Own memories win over household copies with the same ID.
+                        if (!records.has(hit.id) || store === this.store) records.set(hit.id, record);
+                        if (!keywordMatches.some(match => match.id === hit.id)) keywordMatches.push(hit);
+                        if (++passed === candidates) break;
+                    }
+                }
             }
+            keywordMatches.sort((a, b) => b.score - a.score);
 
-            const queryResponse = await (index.query as any)(queryParams);
-            console.log("Pinecone query response:", queryResponse);
-
-            const memories = (queryResponse.matches?.map((match: any) => ({
-                id: match.id,
-                content: match.metadata.content,
-                embedding: [],
-                metadata: match.metadata,
-            })) || []);
-            memories.sort((a: Memory, b: Memory) => b.metadata.lastAccessed - a.metadata.lastAccessed);
-            return memories.slice(0, limit);
+            return [...fuseRankings(vectorMatches, keywordMatches.slice(0, candidates))]
+                .slice(0, limit)
+                .map(([id, match]) => ({ ...this.toMemory(records.get(id)!), match }));
         } catch (error) {
-            console.error("Error in searchMemoriesComplex:", error);
+            if (error instanceof ServiceUnavailableError) throw error;
+            log.error('Error in searchMemoriesComplex', { error });
             return [];
         }
     }
@@ -437,8 +1589,18 @@ Respond ONLY with the JSON object.
      * @param memoryId The memory's ID.
      */
     async deleteMemory(memoryId: string): Promise<void> {
-        const index = this.pinecone.index(this.indexName);
-        await index.deleteMany([memoryId]);
+        const [existing] = await this.store.fetch([memoryId]);
+        await this.store.delete([memoryId]);
+        await this.facts.retractBySource(this.namespaceFor(this.userId), memoryId);
+        await this.reminders.relinkMemories(this.userId, [memoryId], null);
+        // Drop the links pointing back at it.
+        const linkedIds = ((existing?.metadata.relations as string[]) || []).map(relation => parseRelation(relation).targetId);
+        const linked = await this.store.fetch([...new Set(linkedIds)]);
+        for (const record of linked) {
+            await this.store.updateMetadata(record.id, {
+                relations: removeRelations((record.metadata.relations as string[]) || [], memoryId)
+            });
+        }
     }
 
     /**
@@ -456,7 +1618,6 @@ Respond ONLY with the JSON object.
         const consolidatedEmbedding = await this.generateEmbedding(consolidatedContent);
         const consolidatedMemoryId = uuidv4();
 
-        const index = this.pinecone.index(this.indexName);
         const records = [
             {
                 id: consolidatedMemoryId,
@@ -470,59 +1631,126 @@ Respond ONLY with the JSON object.
                     lastAccessed: Date.now(),
                     version: 1,
                     tags: ["consolidated"],
-                    relations: threadMemories.map(m => m.id)
+                    relations: [],
+                    sensitivity: maxTier(...threadMemories.map(m => m.metadata.sensitivity), tierOfShieldedText(consolidatedContent))
                 }
             }
         ];
 
-        // Upsert direct records without a namespace.
-        await index.upsert(records);
+        await this.upsert(records);
+        for (const memory of threadMemories) {
+            await this.linkMemories(consolidatedMemoryId, memory.id, 'has-part');
+        }
     }
 
     /**
-     * Periodically resolves conflicts among all salient memories in a general fashion.
-     * This method queries for salient memories and compares each pair using the LLM-driven updater.
-     * If two memories conflict (i.e. one should be updated), it merges them.
+     * Finds this user's salient memories similar enough to the given embedding to
+     * count as the same fact. Household memories and document chunks are not included.
+     *
+     * @param embedding The embedding to compare against.
+     * @param threshold Minimum cosine similarity.
+     * @param limit Maximum number of memories.
      */
-    async resolveMemoryConflicts(): Promise<void> {
-        try {
-            const index = this.pinecone.index(this.indexName);
-            const queryResponse = await index.query({
-                vector: Array(1536).fill(0), // placeholder vector
-                topK: 5,
-                includeMetadata: true,
-                filter: { salient: true }
-            });
-            const memories = queryResponse.matches || [];
-            for (let i = 0; i < memories.length; i++) {
-                for (let j = i + 1; j < memories.length; j++) {
-                    const memA = memories[i];
-                    const memB = memories[j];
-                    // Assume the more recent memory is more accurate.
-                    if (memA.metadata?.lastAccessed && memB.metadata?.lastAccessed && memA.metadata?.lastAccessed >= memB.metadata?.lastAccessed) {
-                        const decision = await this.evaluateMemoryUpdate(
-                            memB.metadata?.content as string,
-                            memA.metadata?.content as string
-                        );
-                        if (decision.update) {
-                            console.log(`Merging memory ${memB.id} into ${memA.id}`);
-                            await this.editMemory(memA.id, memA.metadata?.content as string, decision.updatedSummary, true);
-                        }
-                    } else {
-                        const decision = await this.evaluateMemoryUpdate(
-                            memA.metadata?.content as string,
-                            memB.metadata?.content as string
-                        );
-                        if (decision.update) {
-                            console.log(`Merging memory ${memA.id} into ${memB.id}`);
-                            await this.editMemory(memB.id, memB.metadata?.content as string, decision.updatedSummary, true);
-                        }
-                    }
+    async findSimilarMemories(embedding: number[], threshold: number, limit: number = 10): Promise<Memory[]> {
+        const matches = await this.store.query({ vector: embedding, topK: limit, filter: CONVERSATION_MEMORIES });
+        return matches
+            .filter(match => match.score >= threshold)
+            .map(match => this.toMemory(match, true));
+    }
+
+    /**
+     * Merges near-duplicate memories into the target. The LLM writes one memory
+     * from all of them, letting newer information win where they conflict. The
+     * target keeps its ID, gets a new version and lists the sources in its
+     * relations; the sources are deleted. Every replaced state stays in history.
+     *
+     * @param target The memory that survives the merge.
+     * @param sources The memories merged into it.
+     */
+    async mergeMemories(target: Memory, sources: Memory[]): Promise<void> {
+        const records = await this.store.fetch([target.id, ...sources.map(source => source.id)]);
+        const [targetRecord] = records.filter(record => record.id === target.id);
+        const sourceRecords = records.filter(record => record.id !== target.id);
+        if (!targetRecord || sourceRecords.length === 0) return;
+
+        const all = [targetRecord, ...sourceRecords]
+            .map(record => this.toMemory(record))
+            .sort((a, b) => a.metadata.timestamp - b.metadata.timestamp);
+        const prompt = `
+You are a memory management assistant that merges duplicate memories in a human-like memory system.
+The memories below describe the same thing and are listed oldest first.
+Write a single memory that keeps every detail that is still true.
+Where the memories contradict each other, the newer one is more accurate.
+Respond ONLY with a JSON object:
+{"content": "<the merged memory>", "summary": "<a concise, specific statement of the key fact>"}
+`;
+        const merged = await completeStructured(
+            this.models.summarizer,
+            [
+                { role: "system", content: prompt },
+                {
+                    role: "user",
+                    content: all
+                        .map(memory => `[${new Date(memory.metadata.timestamp).toISOString()}] ${memory.content}`)
+                        .join('\n')
                 }
+            ],
+            validateMergedMemory
+        );
+
+        // The target takes over every link of the cluster and supersedes the sources.
+        const clusterIds = new Set(all.map(memory => memory.id));
+        const outside = all.flatMap(memory => (memory.metadata.relations || [])
+            .map(parseRelation)
+            .filter(edge => !clusterIds.has(edge.targetId))
+            .map(edge => ({ ...edge, fromId: memory.id })));
+        let mergedRelations: string[] = [];
+        for (const edge of outside) {
+            mergedRelations = addRelation(mergedRelations, { type: edge.type, targetId: edge.targetId });
+        }
+        for (const record of sourceRecords) {
+            mergedRelations = addRelation(mergedRelations, { type: 'supersedes', targetId: record.id });
+        }
+
+        const embedding = await this.generateEmbedding(merged.content);
+        await this.saveRevision(targetRecord, 'consolidation');
+        await this.upsert([{
+            id: target.id,
+            values: embedding,
+            metadata: {
+                ...targetRecord.metadata,
+                content: merged.content,
+                summary: merged.summary,
+                tags: [...new Set(all.flatMap(memory => memory.metadata.tags || []))],
+                relations: mergedRelations,
+                importance: Math.max(...all.map(memory => memory.metadata.importance ?? 0)),
+                accessCount: all.reduce((sum, memory) => sum + (memory.metadata.accessCount || 0), 0),
+                timestamp: Date.now(),
+                lastAccessed: Math.max(...all.map(memory => memory.metadata.lastAccessed || 0)),
+                sensitivity: maxTier(...all.map(memory => memory.metadata.sensitivity), tierOfShieldedText(merged.content)),
+                version: ((targetRecord.metadata.version as number) || 1) + 1
             }
-        } catch (error) {
-            console.error('Error in resolveMemoryConflicts:', error);
+        }]);
+
+        for (const record of sourceRecords) {
+            await this.saveRevision(record, 'consolidation');
+        }
+        await this.store.delete(sourceRecords.map(record => record.id));
+        await this.facts.reassignSource(this.namespaceFor(this.userId), sourceRecords.map(record => record.id), target.id);
+        await this.reminders.relinkMemories(this.userId, sourceRecords.map(record => record.id), target.id);
+
+        // Repoint the other ends of the sources' links at the target.
+        const moved = outside.filter(edge => edge.fromId !== target.id);
+        const neighbors = await this.store.fetch([...new Set(moved.map(edge => edge.targetId))]);
+        for (const neighbor of neighbors) {
+            let relations = (neighbor.metadata.relations as string[]) || [];
+            for (const edge of moved.filter(edge => edge.targetId === neighbor.id)) {
+                relations = addRelation(
+                    removeRelations(relations, edge.fromId),
+                    { type: inverseEdgeType(edge.type), targetId: target.id }
+                );
+            }
+            await this.store.updateMetadata(neighbor.id, { relations });
         }
     }
 }
-
@@ -0,0 +1,160 @@
+// tools that let the model read and manage the user's memories
+
+import { Memory, MemoryManager } from './memoryManager.ts';
+import { Tool, ToolAction } from './toolCalling.ts';
+
+// Tools that change memories; after using one, the turn itself is not stored again.
+export const MEMORY_WRITE_TOOLS = ['save_fact', 'update_fact', 'forget_fact'];
+
+// Memories read per page while collecting the ones with a tag.
+const TAG_PAGE_SIZE = 100;
+
+// What the model sees of a memory.
+function describe(memory: Memory) {
+    return {
+        id: memory.id,
+        fact: memory.metadata.summary || memory.content,
+        tags: memory.metadata.tags || [],
+        savedAt: new Date(memory.metadata.timestamp).toISOString()
+    };
+}
+
+async function requireMemory(memory: MemoryManager, memoryId: string): Promise<Memory> {
+    const existing = await memory.getMemory(memoryId);
+    if (!existing) {
+        throw new Error(`No memory with id ${memoryId}; search for it first`);
+    }
+    return existing;
+}
+
+/**
+ * Builds the memory tools for one user: search_memories, save_fact,
+ * update_fact, forget_fact and list_memories_by_tag.
+ *
+ * @param memory The user's memory manager.
+ */
+export function createMemoryTools(memory: MemoryManager): Tool[] {
+    return [
+        {
+            definition: {
+                name: 'search_memories',
+                description: 'Search what you remember about the user. Use it before answering questions about them that the context does not cover.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        query: { type: 'string', description: 'What to look for', minLength: 1 },
+                        limit: { type: 'integer', description: 'Maximum results (default 5)', minimum: 1, maximum: 10 }
+                    },
+                    required: ['query']
+                }
+            },
+            run: async ({ query, limit }) => {
+                const memories = await memory.getRelatedMemories(query, limit ?? 5);
+                return memories.map(describe);
+            }
+        },
+        {
+            definition: {
+                name: 'save_fact',
+                description: 'Remember a new fact about the user, stated clearly and on its own (e.g. "User\'s birthday is March 12").',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        fact: { type: 'string', description: 'The fact to remember', minLength: 1 },
+                        tags: { type: 'array', items: { type: 'string' }, description: 'Lowercase topic tags' }
+                    },
+                    required: ['fact']
+                }
+            },
+            run: async ({ fact, tags }) => {
+                const ids = await memory.addMemory(fact, 'important', tags ?? []);
+                return { saved: ids.length > 0, ids };
+            }
+        },
+        {
+            definition: {
+                name: 'update_fact',
+                description: 'Correct a fact you remember, e.g. when the user says "actually my birthday is the 12th". Use the id from the context or a search.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string', description: 'The memory id', minLength: 1 },
+                        fact: { type: 'string', description: 'The corrected fact', minLength: 1 }
+                    },
+                    required: ['id', 'fact']
+                }
+            },
+            run: async ({ id, fact }) => {
+                await requireMemory(memory, id);
+                await memory.editMemory(id, fact, fact);
+                return { updated: id };
+            }
+        },
+        {
+            definition: {
+                name: 'forget_fact',
+                description: 'Delete a memory, when the user asks you to forget something or it is plainly wrong.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string', description: 'The memory id', minLength: 1 }
+                    },
+                    required: ['id']
+                }
+            },
+            run: async ({ id }) => {
+                await requireMemory(memory, id);
+                await memory.deleteMemory(id);
+                return { forgotten: id };
+            }
+        },
+        {
+            definition: {
+                name: 'list_memories_by_tag',
+                description: 'List memories with a given tag, e.g. "family" or "work".',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        tag: { type: 'string', description: 'The tag', minLength: 1 },
+                        limit: { type: 'integer', description: 'Maximum results (default 20)', minimum: 1, maximum: 50 }
+                    },
+                    required: ['tag']
+                }
+            },
+            run: async ({ tag, limit = 20 }) => {
+                // Some stores filter after paging (see pineconeStore.ts), so a page may hold few matches.
+                const found: Memory[] = [];
+                let cursor: string | undefined;
+                do {
+                    const page = await memory.listMemories({
+                        filter: { tags: tag.toLowerCase(), ...memory.promptFilter() },
+                        limit: TAG_PAGE_SIZE,
+                        cursor
+                    });
+                    found.push(...page.memories);
+                    cursor = page.cursor;
+                } while (cursor && found.length < limit);
+                return found.slice(0, limit).map(describe);
+            }
+        }
+    ];
+}
+
+/**
+ * Describes a memory tool call in a line of plain English, for transcripts.
+ *
+ * @param action The tool call and its outcome.
+ */
+export function describeToolAction(action: ToolAction): string {
+    const args = action.arguments as Record<string, any>;
+    if (!action.ok) return `${action.name} failed: ${action.result}`;
+    const count = Array.isArray(action.result) ? action.result.length : 0;
+    switch (action.name) {
+        case 'search_memories': return `searched memories for "${args.query}" (${count} found)`;
+        case 'save_fact': return `saved "${args.fact}"`;
+        case 'update_fact': return `updated ${args.id} to "${args.fact}"`;
+        case 'forget_fact': return `forgot ${args.id}`;
+        case 'list_memories_by_tag': return `listed memories tagged "${args.tag}" (${count} found)`;
+        default: return action.name;
+    }
+}
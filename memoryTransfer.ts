@@ -0,0 +1,212 @@
+// memory export / import
+
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { Memory, MemoryManager } from './memoryManager.ts';
+
+/**
+ * Peter memory export format, version 1 (JSON Lines, UTF-8).
+ *
+ * Line 1 is a header:
+ *   { "format": "peter-memory", "version": 1, "exportedAt": <ms since epoch>,
+ *     "userId": string, "embeddingModel": "provider:model", "dimension": number,
+ *     "includesEmbeddings": boolean }
+ *
+ * Every following line is one memory:
+ *   { "id": string, "content": string, "summary": string, "type": string,
+ *     "tags": string[], "relations": string[], "importance": number,
+ *     "salient": boolean, "timestamp": number, "lastAccessed": number,
+ *     "version": number, "extra"?: object, "embedding"?: number[] }
+ *
+ * "extra" carries any other metadata the memory had. "embedding" is present only
+ * when the export included embeddings; it is reused on import if the importing
+ * side uses the same embedding model, and re-computed otherwise.
+ */
+export const EXPORT_FORMAT = 'peter-memory';
+export const EXPORT_VERSION = 1;
+
+export interface ExportHeader {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: number;
+    userId: string;
+    embeddingModel: string;
+    dimension: number;
+    includesEmbeddings: boolean;
+}
+
+export interface ExportedMemory {
+    id: string;
+    content: string;
+    summary: string;
+    type: string;
+    tags: string[];
+    relations: string[];
+    importance: number;
+    salient: boolean;
+    timestamp: number;
+    lastAccessed: number;
+    version: number;
+    extra?: Record<string, unknown>;
+    embedding?: number[];
+}
+
+export interface ImportReport {
+    created: string[];
+    merged: string[];
+    skipped: string[];
+    // Line number and reason for every line that could not be imported.
+    errors: { line: number; message: string }[];
+    reembedded: boolean;
+}
+
+const KNOWN_FIELDS = new Set([
+    'content', 'summary', 'type', 'tags', 'relations', 'importance',
+    'salient', 'timestamp', 'lastAccessed', 'version'
+]);
+
+function toExported(memory: Memory, includeEmbeddings: boolean): ExportedMemory {
+    const metadata = memory.metadata as Memory['metadata'] & Record<string, unknown>;
+    const extra = Object.fromEntries(Object.entries(metadata).filter(([key]) => !KNOWN_FIELDS.has(key)));
+    return {
+        id: memory.id,
+        content: memory.content,
+        summary: metadata.summary || '',
+        type: metadata.type,
+        tags: metadata.tags || [],
+        relations: metadata.relations || [],
+        importance: metadata.importance,
+        salient: metadata.salient === true,
+        timestamp: metadata.timestamp,
+        lastAccessed: metadata.lastAccessed,
+        version: metadata.version || 1,
+        ...(Object.keys(extra).length > 0 ? { extra } : {}),
+        ...(includeEmbeddings ? { embedding: memory.embedding } : {})
+    };
+}
+
+function fromExported(record: ExportedMemory, keepEmbedding: boolean): Memory {
+    if (typeof record.id !== 'string' || typeof record.content !== 'string' || !record.content) {
+        throw new Error('record needs a string "id" and a non-empty "content"');
+    }
+    const now = Date.now();
+    return {
+        id: record.id,
+        content: record.content,
+        embedding: keepEmbedding && Array.isArray(record.embedding) ? record.embedding : [],
+        metadata: {
+            ...(record.extra || {}),
+            summary: record.summary || record.content,
+            type: record.type || 'conversation',
+            tags: Array.isArray(record.tags) ? record.tags : [],
+            relations: Array.isArray(record.relations) ? record.relations : [],
+            importance: typeof record.importance === 'number' ? record.importance : 0.5,
+            salient: record.salient !== false,
+            timestamp: record.timestamp || now,
+            lastAccessed: record.lastAccessed || now,
+            version: record.version || 1
+        }
+    };
+}
+
+/**
+ * Writes every memory of the manager's user to a JSONL file.
+ *
+ * @param memory The memory manager (scoped to the user to export).
+ * @param filePath Destination file.
+ * @param includeEmbeddings Whether to include embedding vectors (much larger files).
+ * @returns The number of memories exported.
+ */
+export async function exportMemories(
+    memory: MemoryManager,
+    filePath: string,
+    includeEmbeddings: boolean = false
+): Promise<number> {
+    await fs.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+    const out = createWriteStream(filePath, { encoding: 'utf8' });
+    // Rejects once the stream fails (e.g. the path is a directory), failing the
+    // write or the end that is waiting on it.
+    const failed = new Promise<never>((_, reject) => out.once('error', reject));
+    failed.catch(() => undefined);
+    const write = (line: unknown) => Promise.race([failed, new Promise<void>((resolve, reject) =>
+        out.write(JSON.stringify(line) + '\n', error => error ? reject(error) : resolve())
+    )]);
+
+    try {
+        const header: ExportHeader = {
+            format: EXPORT_FORMAT,
+            version: EXPORT_VERSION,
+            exportedAt: Date.now(),
+            userId: memory.userId,
+            embeddingModel: memory.embeddingModel,
+            dimension: memory.embeddingDimension,
+            includesEmbeddings: includeEmbeddings
+        };
+        await write(header);
+
+        let count = 0;
+        let cursor: string | undefined;
+        do {
+            const page = await memory.listMemories({ cursor, limit: 100, includeEmbeddings });
+            for (const item of page.memories) {
+                await write(toExported(item, includeEmbeddings));
+                count++;
+            }
+            cursor = page.cursor;
+        } while (cursor);
+        return count;
+    } finally {
+        await Promise.race([failed, new Promise<void>(resolve => out.end(resolve))]);
+    }
+}
+
+/**
+ * Imports memories from a JSONL export into the manager's user. Embeddings are
+ * reused only when the export was made with the same embedding model.
+ *
+ * @param memory The memory manager (scoped to the user to import into).
+ * @param filePath Source file.
+ */
+export async function importMemories(memory: MemoryManager, filePath: string): Promise<ImportReport> {
+    const lines = readline.createInterface({
+        input: createReadStream(filePath, { encoding: 'utf8' }),
+        crlfDelay: Infinity
+    });
+
+    const report: ImportReport = { created: [], merged: [], skipped: [], errors: [], reembedded: true };
+    let header: ExportHeader | null = null;
+    let lineNumber = 0;
+
+    for await (const line of lines) {
+        lineNumber++;
+        if (!line.trim()) continue;
+
+        if (!header) {
+            const parsed = JSON.parse(line);
+            if (parsed.format !== EXPORT_FORMAT) {
+                throw new Error(`${filePath} is not a Peter memory export`);
+            }
+            if (parsed.version > EXPORT_VERSION) {
+                throw new Error(`Unsupported export version ${parsed.version} (this Peter reads up to ${EXPORT_VERSION})`);
+            }
+            header = parsed as ExportHeader;
+            report.reembedded = !(header.includesEmbeddings
+                && header.embeddingModel === memory.embeddingModel
+                && header.dimension === memory.embeddingDimension);
+            continue;
+        }
+
+        try {
+            const result = await memory.importMemory(fromExported(JSON.parse(line), !report.reembedded));
+            report[result.outcome].push(result.id);
+        } catch (error: any) {
+            report.errors.push({ line: lineNumber, message: error.message || String(error) });
+        }
+    }
+
+    if (!header) {
+        throw new Error(`${filePath} is empty`);
+    }
+    return report;
+}
@@ -0,0 +1,146 @@
+import { OpenAI } from 'openai';
+import {
+    ChatMessage,
+    ChatOptions,
+    ChatProvider,
+    ChatResult,
+    EmbeddingProvider,
+    parseToolArguments,
+    StreamEvent,
+    ToolCall
+} from './llmProvider.ts';
+
+const EMBEDDING_DIMENSIONS: Record<string, number> = {
+    'text-embedding-3-small': 1536,
+    'text-embedding-3-large': 3072,
+    'text-embedding-ada-002': 1536,
+};
+
+function createClient(): OpenAI {
+    if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY is not set');
+    }
+    // Retries are left to ResilientChatProvider and ResilientEmbeddingProvider.
+    return new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: 0 });
+}
+
+function toOpenAIMessages(messages: ChatMessage[]): OpenAI.ChatCompletionMessageParam[] {
+    return messages.map((message): OpenAI.ChatCompletionMessageParam => {
+        if (message.role === 'tool') {
+            return { role: 'tool', tool_call_id: message.toolCallId || '', content: message.content };
+        }
+        if (message.role === 'assistant' && message.toolCalls?.length) {
+            return {
+                role: 'assistant',
+                content: message.content || null,
+                tool_calls: message.toolCalls.map(call => ({
+                    id: call.id,
+                    type: 'function' as const,
+                    function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+                }))
+            };
+        }
+        return { role: message.role, content: message.content };
+    });
+}
+
+// Request fields shared by complete() and stream().
+function toRequest(model: string, messages: ChatMessage[], options: ChatOptions) {
+    return {
+        model,
+        messages: toOpenAIMessages(messages),
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        ...(options.json ? { response_format: { type: 'json_object' as const } } : {}),
+        ...(options.tools?.length ? {
+            tools: options.tools.map(tool => ({
+                type: 'function' as const,
+                function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+            }))
+        } : {})
+    };
+}
+
+export class OpenAIChatProvider implements ChatProvider {
+    readonly provider = 'openai';
+    private client: OpenAI;
+
+    constructor(readonly model: string = 'gpt-4o-mini') {
+        this.client = createClient();
+    }
+
+    async complete(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+        const response = await this.client.chat.completions.create(
+            toRequest(this.model, messages, options),
+            { signal: options.signal }
+        );
+        const message = response.choices[0].message;
+        const toolCalls: ToolCall[] = (message.tool_calls || []).map(call => ({
+            id: call.id,
+            name: call.function.name,
+            arguments: parseToolArguments(call.function.arguments)
+        }));
+        return {
+            content: message.content || '',
+            usage: response.usage && {
+                inputTokens: response.usage.prompt_tokens,
+                outputTokens: response.usage.completion_tokens
+            },
+            ...(toolCalls.length > 0 ? { toolCalls } : {})
+        };
+    }
+
+    async *stream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<StreamEvent> {
+        const stream = await this.client.chat.completions.create({
+            ...toRequest(this.model, messages, options),
+            stream: true
+        }, { signal: options.signal });
+        // Tool calls arrive in fragments, keyed by their position in the reply.
+        const pending = new Map<number, { id: string; name: string; arguments: string }>();
+        for await (const chunk of stream) {
+            const delta = chunk.choices[0]?.delta;
+            if (delta?.content) yield { type: 'text', text: delta.content };
+            for (const fragment of delta?.tool_calls || []) {
+                const call = pending.get(fragment.index) || { id: '', name: '', arguments: '' };
+                if (fragment.id) call.id = fragment.id;
+                if (fragment.function?.name) call.name += fragment.function.name;
+                if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+                pending.set(fragment.index, call);
+            }
+        }
+        for (const call of pending.values()) {
+            yield { type: 'tool_call', call: { id: call.id, name: call.name, arguments: parseToolArguments(call.arguments) } };
+        }
+    }
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+    readonly provider = 'openai';
+    readonly dimension: number;
+    private client: OpenAI;
+
+    /**
+     * @param model The embedding model.
+     * @param dimension (Optional) Shortened output dimension, supported by the text-embedding-3 models.
+     */
+    constructor(readonly model: string = 'text-embedding-3-small', private requestedDimension?: number) {
+        const dimension = requestedDimension || EMBEDDING_DIMENSIONS[model];
+        if (!dimension) {
+            throw new Error(`Unknown dimension for embedding model ${model}; set PETER_EMBEDDING_DIMENSION`);
+        }
+        this.dimension = dimension;
+        this.client = createClient();
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        if (texts.length === 0) return [];
+        const response = await this.client.embeddings.create({
+            model: this.model,
+            input: texts,
+            ...(this.requestedDimension ? { dimensions: this.requestedDimension } : {})
+        });
+        return response.data
+            .sort((a, b) => a.index - b.index)
+            .map(item => item.embedding);
+    }
+}
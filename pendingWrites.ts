@@ -0,0 +1,105 @@
+// write-ahead queue for memory writes that have not been stored yet
+
+import { v4 as uuidv4 } from 'uuid';
+import { JsonDocument } from './fileStorage.ts';
+
+/**
+ * A memory write recorded before it was attempted. It stays queued until
+ * addMemory succeeds for it.
+ */
+export interface PendingWrite {
+    id: string;
+    // Already shielded (see sensitiveData.ts), like anything else written to disk.
+    content: string;
+    type: string;
+    tags: string[];
+    relatedIds: string[];
+    queuedAt: number;
+    attempts: number;
+    lastError: string | null;
+}
+
+export type PendingWriteInput = Pick<PendingWrite, 'content' | 'type' | 'tags' | 'relatedIds'>;
+
+// Per user: their pending writes, oldest first.
+type PendingWriteFile = Record<string, PendingWrite[]>;
+
+/**
+ * PendingWriteStore - Keeps each user's queued memory writes in a local JSON
+ * file, so writes that failed (or never finished) survive a restart and are
+ * replayed in order. Writes returned are copies; change them through the store.
+ */
+export class PendingWriteStore {
+    private document: JsonDocument<PendingWriteFile>;
+    // Per user: the replay in progress, if any.
+    private replays = new Map<string, Promise<unknown>>();
+
+    constructor(filePath?: string) {
+        this.document = new JsonDocument<PendingWriteFile>(filePath, () => ({}));
+    }
+
+    async add(userId: string, input: PendingWriteInput): Promise<PendingWrite> {
+        const write: PendingWrite = {
+            id: uuidv4(),
+            content: input.content,
+            type: input.type,
+            tags: [...input.tags],
+            relatedIds: [...input.relatedIds],
+            queuedAt: Date.now(),
+            attempts: 0,
+            lastError: null
+        };
+        await this.document.update(file => {
+            file[userId] = [...(file[userId] || []), write];
+        });
+        return { ...write };
+    }
+
+    // A user's pending writes, oldest first.
+    async list(userId: string): Promise<PendingWrite[]> {
+        const file = await this.document.read();
+        return (file[userId] || []).map(write => ({ ...write }));
+    }
+
+    // Users with writes still queued.
+    async listUsers(): Promise<string[]> {
+        const file = await this.document.read();
+        return Object.keys(file).filter(userId => file[userId].length > 0);
+    }
+
+    async recordFailure(userId: string, writeId: string, message: string): Promise<void> {
+        await this.document.update(file => {
+            const write = file[userId]?.find(entry => entry.id === writeId);
+            if (!write) return;
+            write.attempts++;
+            write.lastError = message;
+        });
+    }
+
+    async remove(userId: string, writeId: string): Promise<void> {
+        await this.document.update(file => {
+            if (!file[userId]) return;
+            file[userId] = file[userId].filter(write => write.id !== writeId);
+            if (file[userId].length === 0) delete file[userId];
+        });
+    }
+
+    /**
+     * Runs one replay at a time per user, so no write is stored twice by
+     * overlapping replays.
+     *
+     * @param userId The user whose writes are replayed.
+     * @param replay The replay.
+     */
+    exclusive<T>(userId: string, replay: () => Promise<T>): Promise<T> {
+        const result = (this.replays.get(userId) || Promise.resolve()).then(replay);
+        this.replays.set(userId, result.catch(() => undefined));
+        return result;
+    }
+
+    async deleteUser(userId: string): Promise<void> {
+        await this.document.update(file => {
+            delete file[userId];
+        });
+    }
+}
@@ -1,86 +1,324 @@
-import OpenAI from 'openai';
-type ChatCompletionMessageParam = OpenAI.ChatCompletionMessageParam;
-import { MemoryManager } from './memoryManager.ts';
+import { v4 as uuidv4 } from 'uuid';
+import { ContextBudgetOptions, ContextBuilder, ContextReport } from './contextBuilder.ts';
+import { citationFor, citedSummary, DOCUMENT_CITATION_NOTE } from './documentIngestion.ts';
+import { dataPath } from './fileStorage.ts';
+import { IngestionQueue } from './ingestionQueue.ts';
+import { isAbortError, ModelRoles } from './llmProvider.ts';
+import { log } from './logger.ts';
+import { DEFAULT_USER, Memory, MemoryManager, MemoryManagerOptions } from './memoryManager.ts';
+import { createMemoryTools, MEMORY_WRITE_TOOLS } from './memoryTools.ts';
+import { createModelRoles } from './providers.ts';
+import { ServiceUnavailableError } from './resilience.ts';
+import { Reminder, reminderNote } from './reminders.ts';
+import { defaultTimeZone, ParsedTime, parseReminderRequest, validateTimeZone } from './reminderTime.ts';
+import { Thread, ThreadStore } from './threadStore.ts';
+import { annotateTrace, traceModels, traceStream, traceTask } from './tracing.ts';
+import { runToolLoop, ToolAction } from './toolCalling.ts';
+
+export interface ChatTurnOptions {
+    // The user talking to Peter; memories and history are scoped to them.
+    userId?: string;
+    // The thread to continue. Defaults to the user's current thread, or a new one.
+    threadId?: string;
+    // Aborting cancels the model request; nothing from the turn is kept.
+    signal?: AbortSignal;
+    // Called whenever Peter uses a memory tool during the turn.
+    onToolAction?: (action: ToolAction) => void;
+    // Called when the turn scheduled a reminder ("remind me to ...").
+    onReminder?: (reminder: Reminder) => void;
+    // Called when memory could not be reached and Peter answered without it.
+    onMemoryUnavailable?: (message: string) => void;
+}
+
+export interface PersonalAssistantOptions extends MemoryManagerOptions {
+    // Whether Peter can search and manage memories itself mid-reply. Defaults to PETER_MEMORY_TOOLS (on unless "off").
+    memoryTools?: boolean;
+    // Rounds of tool calls per reply. Defaults to PETER_MAX_TOOL_STEPS, or 4.
+    maxToolSteps?: number;
+    // Where conversation threads are kept. Defaults to a file in the data directory.
+    threads?: ThreadStore;
+    // Prompt size limits; see contextBuilder.ts.
+    context?: ContextBudgetOptions;
+    // Time zone reminder requests are read in. Defaults to PETER_TIME_ZONE, or the system's.
+    timeZone?: string;
+    // Where turns are stored after the reply. Defaults to a queue of its own.
+    ingestion?: IngestionQueue;
+}
 
 export class PersonalAssistant {
-    private openai: OpenAI;
+    private models: ModelRoles;
     private memoryManager: MemoryManager;
-    private currentChatHistory: { role: string; content: string }[] = [];
+    private threads: ThreadStore;
+    // The thread each user is talking in; a new one is started on their first message.
+    private currentThreads: Map<string, string> = new Map();
+    // Memories used as context for each user's last completed answer.
+    private lastRetrievedMemories: Map<string, Memory[]> = new Map();
+    // Memory tool calls made during each user's last completed answer.
+    private lastToolActions: Map<string, ToolAction[]> = new Map();
+    // Prompt budget reports for each user's last completed answer.
+    private lastContextReports: Map<string, ContextReport> = new Map();
+    private contextBuilder: ContextBuilder;
+    private memoryTools: boolean;
+    private maxToolSteps: number;
+    private timeZone: string;
+    private ingestion: IngestionQueue;
+
+    constructor(options: PersonalAssistantOptions = {}) {
+        const { memoryTools, maxToolSteps, threads, context, timeZone, ingestion, ...memoryOptions } = options;
+        this.threads = threads || new ThreadStore(dataPath('threads.json'));
+        this.models = traceModels(memoryOptions.models || createModelRoles());
+        this.memoryManager = new MemoryManager({ ...memoryOptions, models: this.models });
+        this.contextBuilder = new ContextBuilder(this.models.reply, this.models.summarizer, context);
+        this.memoryTools = memoryTools ?? process.env.PETER_MEMORY_TOOLS !== 'off';
+        this.maxToolSteps = maxToolSteps ?? parseInt(process.env.PETER_MAX_TOOL_STEPS || '4', 10);
+        this.timeZone = validateTimeZone(timeZone || defaultTimeZone());
+        this.ingestion = ingestion || new IngestionQueue();
+    }
+
+    /**
+     * Answers the user, using their memories as context, and stores the interaction
+     * in the background.
+     *
+     * @param userInput The user's message.
+     * @param userId (Optional) The user talking to Peter; memories and history are scoped to them.
+     */
+    async chat(userInput: string, userId: string = DEFAULT_USER): Promise<string> {
+        let fullResponse = '';
+        for await (const delta of this.chatStream(userInput, { userId })) {
+            fullResponse += delta;
+        }
+        return fullResponse;
+    }
 
-    constructor() {
-        this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-        this.memoryManager = new MemoryManager();
+    /**
+     * Streams the answer as text deltas while the model generates it. With memory
+     * tools enabled, the model can search, save, correct and forget memories along
+     * the way (see memoryTools.ts); each action is reported through
+     * options.onToolAction.
+     *
+     * The thread and memory are only updated once the stream completes; if the turn
+     * is aborted through options.signal the stream simply ends and nothing is
+     * stored. The turn is queued in the write-ahead queue before the stream ends,
+     * and stored as a memory in the background (see ingestionQueue.ts), unless
+     * the model already changed memories itself. flushIngestion waits for that.
+     *
+     * When the vector store or embedder is down, Peter answers without memory
+     * (and without memory tools), reported through options.onMemoryUnavailable.
+     * The turn stays queued until it can be stored.
+     *
+     * Reminders that became due since the user's last turn are brought up first.
+     * A message asking for a reminder ("remind me to call mom Friday at 5")
+     * schedules one once the turn completes, linked to the turn's memory, and
+     * reports it through options.onReminder.
+     *
+     * Each turn is traced (see tracing.ts).
+     *
+     * @param userInput The user's message.
+     * @param options (Optional) User id, thread id, abort signal and callbacks.
+     */
+    async *chatStream(userInput: string, options: ChatTurnOptions = {}): AsyncGenerator<string> {
+        yield* traceStream('chat', { userId: options.userId || DEFAULT_USER }, () => this.streamTurn(userInput, options));
     }
 
-    async chat(userInput: string): Promise<string> {
+    // The body of chatStream, run inside the turn's trace.
+    private async *streamTurn(userInput: string, options: ChatTurnOptions): AsyncGenerator<string> {
+        const userId = options.userId || DEFAULT_USER;
+        const { signal } = options;
         try {
-            // Add user input to chat history
-            this.currentChatHistory.push({ role: "user", content: userInput });
+            const memoryManager = this.memoryManager.forUser(userId);
+
+            // A new thread is only written once its first turn completes
+            const threadId = options.threadId || this.currentThreads.get(userId) || uuidv4();
+            this.currentThreads.set(userId, threadId);
+            annotateTrace({ threadId });
+
+            const thread = await this.threads.get(userId, threadId);
             
-            // Keep only last 5 messages
-            if (this.currentChatHistory.length > 5) {
-                this.currentChatHistory = this.currentChatHistory.slice(-5);
+            // Get relevant memories with a lower similarity threshold; if memory is down, answer without it
+            let relevantMemories: Memory[] = [];
+            let memoryUnavailable = false;
+            try {
+                relevantMemories = await memoryManager.getRelatedMemories(userInput, 5);
+                log.debug('Retrieved memories', { count: relevantMemories.length });
+            } catch (error) {
+                if (!(error instanceof ServiceUnavailableError)) throw error;
+                memoryUnavailable = true;
+                log.warn('Memory unavailable; answering without it', { error });
+                annotateTrace({ memoryUnavailable: true });
+                options.onMemoryUnavailable?.('Memory is unavailable; answering without it.');
             }
-            
-            // Get relevant memories with a lower similarity threshold
-            const relevantMemories = await this.memoryManager.getRelatedMemories(userInput, 5); // Add parameters for count and threshold
-            console.log("Retrieved memories:", relevantMemories.length);
-            
-            // Construct messages array with history and context
-            const messages = [
-                {
-                    role: "system",
-                    content: "You are Peter, a helpful personal assistant with access to previous conversation memories. Use the provided context when relevant."
-                },
-                // Add context from memories
-                {
-                    role: "system",
-                    content: this.constructContextFromMemories(relevantMemories)
-                },
-                // Add chat history
-                ...this.currentChatHistory
-            ];
-
-            // Use correct model name
-            const response = await this.openai.chat.completions.create({
-                model: "gpt-4o-mini",
-                messages: messages as ChatCompletionMessageParam[],
-                temperature: 0.7
+
+            const dueReminders = await memoryManager.getUnannouncedReminders();
+            const requestedReminder = this.readReminderRequest(userInput);
+            const note = reminderNote(dueReminders, requestedReminder && { ...requestedReminder, timeZone: this.timeZone });
+
+            // Fit persona, memories and as much of the thread as the budget allows
+            const tools = this.memoryTools && !memoryUnavailable ? createMemoryTools(memoryManager) : [];
+            const context = await this.contextBuilder.build({
+                persona: "You are Peter, a helpful personal assistant with access to previous conversation memories. Use the provided context when relevant." +
+                    (tools.length > 0
+                        ? " You can also search, save, correct and forget memories with your tools; memory ids are shown in brackets."
+                        : "") +
+                    (memoryUnavailable
+                        ? " Your memory is unavailable right now, so you can't recall earlier conversations; say so if the user asks about them."
+                        : "") +
+                    (relevantMemories.some(memory => citationFor(memory)) ? ` ${DOCUMENT_CITATION_NOTE}` : "") +
+                    (note ? `\n\n${note}` : ""),
+                memories: relevantMemories,
+                formatMemory: memory => this.memoryTools
+                    ? `- [${memory.id}] ${citedSummary(memory)}`
+                    : `- ${citedSummary(memory)}`,
+                tools: tools.map(tool => tool.definition),
+                history: thread?.messages || [],
+                summary: thread?.summary,
+                message: userInput,
+                signal
             });
+            const messages = context.messages;
 
-            const fullResponse = response.choices[0].message.content || '';
-            console.log('Assistant:', fullResponse);
+            const actions: ToolAction[] = [];
+            let fullResponse = '';
+            for await (const delta of runToolLoop(this.models.reply, messages, tools, {
+                temperature: 0.7,
+                signal,
+                maxSteps: this.maxToolSteps,
+                onAction: action => {
+                    actions.push(action);
+                    options.onToolAction?.(action);
+                }
+            })) {
+                fullResponse += delta;
+                yield delta;
+            }
+            if (signal?.aborted) return;
+            this.lastRetrievedMemories.set(
+                userId,
+                relevantMemories.filter(memory => context.report.memories.included.includes(memory.id))
+            );
+            this.lastToolActions.set(userId, actions);
+            this.lastContextReports.set(userId, context.report);
 
-            // Add assistant's response to chat history
-            this.currentChatHistory.push({ role: "assistant", content: fullResponse });
-            
-            // Keep chat history manageable (last 10 messages)
-            if (this.currentChatHistory.length > 10) {
-                this.currentChatHistory = this.currentChatHistory.slice(-10);
+            if (context.summary) {
+                await this.threads.setSummary(userId, threadId, context.summary);
             }
+            await this.threads.append(userId, threadId, [
+                { role: "user", content: await memoryManager.shieldText(userInput) },
+                { role: "assistant", content: await memoryManager.shieldText(fullResponse) }
+            ]);
 
-            // Store the complete interaction
-            await this.memoryManager.addMemory(
-                `User: ${userInput}\nAssistant: ${fullResponse}`,
-                'conversation'
-            );
+            await memoryManager.markRemindersAnnounced(dueReminders.map(reminder => reminder.id));
 
-            return fullResponse;
+            // Queue the complete interaction, unless Peter already took care of its memories.
+            // The reminder points at the queued write until it is stored.
+            const handledByTools = actions.some(action => action.ok && MEMORY_WRITE_TOOLS.includes(action.name));
+            const write = handledByTools
+                ? null
+                : await memoryManager.queueMemory(`User: ${userInput}\nAssistant: ${fullResponse}`, 'conversation');
+            if (requestedReminder) {
+                const reminder = await memoryManager.addReminder({
+                    text: requestedReminder.text,
+                    dueAt: requestedReminder.dueAt,
+                    timeZone: this.timeZone,
+                    recurrence: requestedReminder.recurrence,
+                    sourceMemoryId: write?.id ?? null
+                });
+                options.onReminder?.(reminder);
+            }
+            if (write) this.storeInBackground(memoryManager);
         } catch (error) {
-            console.error('Error in chat:', error);
+            if (isAbortError(error, signal)) return;
+            log.error('Error in chat', { error });
             throw error;
         }
     }
     
-    private constructContextFromMemories(relevantMemories: any[]): string {
-        if (relevantMemories.length === 0) return '';
-        
-        return "Here are relevant facts I know:\n" + 
-            relevantMemories.map(memory => `- ${memory.metadata.summary}`).join('\n');
+    // Stores the user's queued writes, behind whatever is already being stored for them.
+    private storeInBackground(memoryManager: MemoryManager): void {
+        const { userId } = memoryManager;
+        this.ingestion.enqueue(userId, () => traceTask('ingestion.job', { userId }, async () => {
+            await memoryManager.replayPendingWrites();
+        }));
+    }
+
+    /**
+     * Waits until every turn queued so far has been stored, or left in the
+     * write-ahead queue because memory is unavailable. Call it before exiting.
+     */
+    async flushIngestion(): Promise<void> {
+        await this.ingestion.flush();
+    }
+
+    // Whether turns are still being stored in the background.
+    hasPendingIngestion(): boolean {
+        return this.ingestion.size > 0;
+    }
+
+    // The reminder a message asks for, if it asks for one with a time Peter can read.
+    private readReminderRequest(userInput: string): ParsedTime | null {
+        try {
+            return parseReminderRequest(userInput, { timeZone: this.timeZone });
+        } catch (error) {
+            log.error('Error in reading reminder request', { error });
+            return null;
+        }
+    }
+
+    // Starts a fresh conversation on the user's next message; the old thread stays saved.
+    clearChatHistory(userId: string = DEFAULT_USER): void {
+        this.currentThreads.delete(userId);
+    }
+
+    // The thread the user's next message continues, if any.
+    getCurrentThreadId(userId: string = DEFAULT_USER): string | null {
+        return this.currentThreads.get(userId) ?? null;
+    }
+
+    /**
+     * Makes an existing thread the one the user's next message continues.
+     *
+     * @param threadId The thread to resume.
+     * @param userId (Optional) The thread's owner.
+     * @returns The thread, or null if the user has no such thread.
+     */
+    async resumeThread(threadId: string, userId: string = DEFAULT_USER): Promise<Thread | null> {
+        const thread = await this.threads.get(userId, threadId);
+        if (thread) this.currentThreads.set(userId, thread.id);
+        return thread;
+    }
+
+    // Deletes one of the user's threads; if it was the current one, the next message starts a new thread.
+    async deleteThread(threadId: string, userId: string = DEFAULT_USER): Promise<boolean> {
+        if (this.currentThreads.get(userId) === threadId) this.currentThreads.delete(userId);
+        return this.threads.delete(userId, threadId);
+    }
+
+    // The thread store, for listing and renaming threads.
+    getThreads(): ThreadStore {
+        return this.threads;
+    }
+
+    // The memories that informed the user's last answer.
+    getLastRetrievedMemories(userId: string = DEFAULT_USER): Memory[] {
+        return this.lastRetrievedMemories.get(userId) || [];
+    }
+
+    // What went into the prompt for the user's last answer, and what was cut.
+    getLastContextReport(userId: string = DEFAULT_USER): ContextReport | null {
+        return this.lastContextReports.get(userId) ?? null;
+    }
+
+    // The memory tool calls made during the user's last answer.
+    getLastToolActions(userId: string = DEFAULT_USER): ToolAction[] {
+        return this.lastToolActions.get(userId) || [];
+    }
+
+    // The time zone reminders are read in.
+    getTimeZone(): string {
+        return this.timeZone;
     }
 
-    // Add method to clear chat history
-    clearChatHistory(): void {
-        this.currentChatHistory = [];
+    // The memory manager scoped to the given user, for direct memory management.
+    getMemoryManager(userId: string = DEFAULT_USER): MemoryManager {
+        return this.memoryManager.forUser(userId);
     }
 }
\ No newline at end of file
@@ -0,0 +1,103 @@
+// pinecone vector store
+
+import { Index, Pinecone } from '@pinecone-database/pinecone';
+import {
+    matchesFilter,
+    ListOptions,
+    ListPage,
+    RecordMetadata,
+    VectorMatch,
+    VectorQuery,
+    VectorRecord,
+    VectorStore
+} from './vectorStore.ts';
+
+/**
+ * PineconeVectorStore - VectorStore backed by a Pinecone index.
+ */
+export class PineconeVectorStore implements VectorStore {
+    private index: Index<RecordMetadata>;
+
+    /**
+     * @param indexName Name of the Pinecone index.
+     * @param baseIndex (Internal) Unscoped index shared by namespace views.
+     * @param namespaceName Namespace this view operates on ('' is Pinecone's default namespace).
+     */
+    constructor(
+        indexName: string = 'personal-assistant',
+        private baseIndex?: Index<RecordMetadata>,
+        namespaceName: string = ''
+    ) {
+        if (!this.baseIndex) {
+            if (!process.env.PINECONE_API_KEY) {
+                throw new Error('PINECONE_API_KEY is not set');
+            }
+            this.baseIndex = new Pinecone().index<RecordMetadata>(indexName);
+        }
+        this.index = namespaceName ? this.baseIndex.namespace(namespaceName) : this.baseIndex;
+    }
+
+    namespace(name: string): VectorStore {
+        return new PineconeVectorStore(undefined, this.baseIndex, name);
+    }
+
+    async listNamespaces(): Promise<string[]> {
+        const stats = await this.baseIndex!.describeIndexStats();
+        return Object.entries(stats.namespaces || {})
+            .filter(([, summary]) => (summary.recordCount ?? 0) > 0)
+            .map(([name]) => name);
+    }
+
+    async deleteNamespace(name: string): Promise<void> {
+        await this.baseIndex!.namespace(name).deleteAll();
+    }
+
+    async upsert(records: VectorRecord[]): Promise<void> {
+        if (records.length === 0) return;
+        await this.index.upsert(records);
+    }
+
+    async query({ vector, topK, filter }: VectorQuery): Promise<VectorMatch[]> {
+        const response = await this.index.query({
+            vector,
+            topK,
+            includeMetadata: true,
+            includeValues: true,
+            ...(filter && Object.keys(filter).length > 0 ? { filter } : {})
+        });
+        return (response.matches || []).map(match => ({
+            id: match.id,
+            values: match.values,
+            metadata: match.metadata || {},
+            score: match.score ?? 0
+        }));
+    }
+
+    async updateMetadata(id: string, metadata: RecordMetadata): Promise<void> {
+        await this.index.update({ id, metadata });
+    }
+
+    async fetch(ids: string[]): Promise<VectorRecord[]> {
+        if (ids.length === 0) return [];
+        const response = await this.index.fetch(ids);
+        return Object.values(response.records || {}).map(record => ({
+            id: record.id,
+            values: record.values,
+            metadata: record.metadata || {}
+        }));
+    }
+
+    async delete(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        await this.index.deleteMany(ids);
+    }
+
+    // Pinecone's list endpoint only returns ids (serverless indexes only), so records
+    // are fetched and the filter is applied client-side.
+    async list({ filter, limit = 100, cursor }: ListOptions = {}): Promise<ListPage> {
+        const response = await this.index.listPaginated({ limit, paginationToken: cursor });
+        const ids = (response.vectors || []).map(vector => vector.id as string);
+        const records = (await this.fetch(ids)).filter(record => matchesFilter(record.metadata, filter));
+        return { records, cursor: response.pagination?.next };
+    }
+}
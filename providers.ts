@@ -0,0 +1,82 @@
+import { AnthropicChatProvider } from './anthropicProvider.ts';
+import { GeminiChatProvider, GeminiEmbeddingProvider } from './geminiProvider.ts';
+import { ChatProvider, EmbeddingProvider, ModelRoles } from './llmProvider.ts';
+import { LocalChatProvider, LocalEmbeddingProvider } from './localProvider.ts';
+import { OpenAIChatProvider, OpenAIEmbeddingProvider } from './openaiProvider.ts';
+import { ResilientChatProvider, ResilientEmbeddingProvider } from './resilience.ts';
+
+/**
+ * Parses a model spec of the form "provider:model" (e.g. "anthropic:claude-3-5-haiku-latest").
+ * The model may be omitted to use the provider's default.
+ *
+ * @param spec The model spec.
+ */
+export function parseModelSpec(spec: string): { provider: string; model?: string } {
+    const separator = spec.indexOf(':');
+    if (separator === -1) return { provider: spec.trim().toLowerCase() };
+    return {
+        provider: spec.slice(0, separator).trim().toLowerCase(),
+        model: spec.slice(separator + 1).trim() || undefined
+    };
+}
+
+/**
+ * Creates a chat model from its spec. Remote models get timeouts, retries and a
+ * circuit breaker per provider (see resilience.ts).
+ *
+ * @param spec The model spec, e.g. "openai:gpt-4o-mini".
+ */
+export function createChatProvider(spec: string): ChatProvider {
+    const { provider, model } = parseModelSpec(spec);
+    switch (provider) {
+        case 'openai':
+            return new ResilientChatProvider(new OpenAIChatProvider(model));
+        case 'anthropic':
+            return new ResilientChatProvider(new AnthropicChatProvider(model));
+        case 'gemini':
+            return new ResilientChatProvider(new GeminiChatProvider(model));
+        case 'local':
+            return new LocalChatProvider(model);
+        default:
+            throw new Error(`Unknown chat provider: ${provider}`);
+    }
+}
+
+// Creates an embedding model from its spec; remote ones are wrapped like chat models.
+export function createEmbeddingProvider(spec: string, dimension?: number): EmbeddingProvider {
+    const { provider, model } = parseModelSpec(spec);
+    switch (provider) {
+        case 'openai':
+            return new ResilientEmbeddingProvider(new OpenAIEmbeddingProvider(model, dimension));
+        case 'gemini':
+            return new ResilientEmbeddingProvider(new GeminiEmbeddingProvider(model));
+        case 'local':
+            return new LocalEmbeddingProvider(model, dimension);
+        default:
+            throw new Error(`Unknown embedding provider: ${provider}`);
+    }
+}
+
+// Builds the embedder from PETER_EMBEDDING_MODEL / PETER_EMBEDDING_DIMENSION.
+export function createEmbedderFromEnv(): EmbeddingProvider {
+    const setting = process.env.PETER_EMBEDDING_DIMENSION;
+    const dimension = setting ? Number(setting) : undefined;
+    if (dimension !== undefined && (!Number.isInteger(dimension) || dimension < 1)) {
+        throw new Error(`PETER_EMBEDDING_DIMENSION must be a positive integer, got "${setting}"`);
+    }
+    return createEmbeddingProvider(process.env.PETER_EMBEDDING_MODEL || 'openai:text-embedding-3-small', dimension);
+}
+
+/**
+ * Creates the model for every role from the environment. Each role falls back to
+ * PETER_CHAT_MODEL, then to OpenAI's gpt-4o-mini.
+ */
+export function createModelRoles(): ModelRoles {
+    const defaultChat = process.env.PETER_CHAT_MODEL || 'openai:gpt-4o-mini';
+    return {
+        reply: createChatProvider(process.env.PETER_REPLY_MODEL || defaultChat),
+        summarizer: createChatProvider(process.env.PETER_SUMMARIZER_MODEL || defaultChat),
+        classifier: createChatProvider(process.env.PETER_CLASSIFIER_MODEL || defaultChat),
+        embedder: createEmbedderFromEnv(),
+    };
+}
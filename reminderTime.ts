@@ -0,0 +1,383 @@
+// natural-language reminder times ("Friday at 5", "in 2 hours", "every Monday at 9"), in a time zone
+
+/**
+ * How often a reminder repeats, e.g. every 2 weeks. Occurrences keep the
+ * wall-clock time of the first one, across daylight saving changes.
+ */
+export interface Recurrence {
+    unit: 'day' | 'week' | 'month' | 'year';
+    interval: number;
+}
+
+export interface ParsedTime {
+    dueAt: number;
+    recurrence: Recurrence | null;
+    // The text with the time expression taken out, e.g. "call mom".
+    text: string;
+}
+
+export interface TimeOptions {
+    // Defaults to the current time.
+    now?: number;
+    // IANA time zone the text is read in. Defaults to defaultTimeZone().
+    timeZone?: string;
+}
+
+interface CalendarDate {
+    year: number;
+    // 1 to 12.
+    month: number;
+    day: number;
+}
+
+interface WallTime extends CalendarDate {
+    hour: number;
+    minute: number;
+    // 0 (Sunday) to 6.
+    weekday: number;
+}
+
+// Time of day used when only a date is given.
+const DEFAULT_HOUR = 9;
+// Bare hours below this ("at 5") are read as afternoon or evening.
+const BARE_HOUR_PM_BELOW = 8;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const NUMBER_WORDS: Record<string, number> = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+    seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12
+};
+const DAY_PARTS: Record<string, number> = { morning: 9, afternoon: 15, evening: 18, night: 20, tonight: 20 };
+const MINUTE_MS = 60 * 1000;
+
+const MONTH_NAME = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const WEEKDAY_NAME = WEEKDAYS.join('|');
+const AMOUNT = `\\d+|${Object.keys(NUMBER_WORDS).join('|')}`;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            weekday: 'long'
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+// The date and time on a clock in the given zone at an instant.
+function wallTime(ms: number, timeZone: string): WallTime {
+    const parts: Record<string, string> = {};
+    for (const part of partsFormatter(timeZone).formatToParts(ms)) {
+        parts[part.type] = part.value;
+    }
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        weekday: WEEKDAYS.indexOf(parts.weekday.toLowerCase())
+    };
+}
+
+// How far the zone's clock is ahead of UTC at an instant.
+function offsetAt(ms: number, timeZone: string): number {
+    const wall = wallTime(ms, timeZone);
+    return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute) - Math.floor(ms / MINUTE_MS) * MINUTE_MS;
+}
+
+// The instant a clock in the given zone shows a date and time.
+function fromWallTime(date: CalendarDate, hour: number, minute: number, timeZone: string): number {
+    const guess = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+    const first = guess - offsetAt(guess, timeZone);
+    // Near a daylight saving change the offset at the answer can differ from the guess's.
+    return guess - offsetAt(first, timeZone);
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+    const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+    return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+// Adds months, clamping the day to the end of shorter months (Jan 31 -> Feb 28).
+function addMonths(date: CalendarDate, months: number): CalendarDate {
+    const index = date.year * 12 + date.month - 1 + months;
+    const year = Math.floor(index / 12);
+    const month = index % 12 + 1;
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return { year, month, day: Math.min(date.day, lastDay) };
+}
+
+function shiftDate(date: CalendarDate, unit: Recurrence['unit'], amount: number): CalendarDate {
+    switch (unit) {
+        case 'day': return addDays(date, amount);
+        case 'week': return addDays(date, amount * 7);
+        case 'month': return addMonths(date, amount);
+        case 'year': return addMonths(date, amount * 12);
+    }
+}
+
+function readAmount(word: string): number {
+    return NUMBER_WORDS[word.toLowerCase()] ?? parseInt(word, 10);
+}
+
+function readUnit(word: string): Recurrence['unit'] | 'minute' | 'hour' {
+    const unit = word.toLowerCase();
+    if (unit.startsWith('min')) return 'minute';
+    if (unit.startsWith('h')) return 'hour';
+    if (unit.startsWith('d')) return 'day';
+    if (unit.startsWith('w')) return 'week';
+    if (unit.startsWith('mo')) return 'month';
+    return 'year';
+}
+
+function readHour(hour: number, meridiem: string | undefined): number {
+    const marker = meridiem?.toLowerCase().replace(/\./g, '');
+    if (marker === 'pm' && hour < 12) return hour + 12;
+    if (marker === 'am' && hour === 12) return 0;
+    if (!marker && hour >= 1 && hour < BARE_HOUR_PM_BELOW) return hour + 12;
+    return hour;
+}
+
+/**
+ * The time zone reminders are read and shown in: PETER_TIME_ZONE, or the
+ * system's.
+ */
+export function defaultTimeZone(): string {
+    return process.env.PETER_TIME_ZONE || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Throws unless the name is a time zone this runtime knows, e.g. "Europe/Berlin".
+export function validateTimeZone(timeZone: string): string {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+    } catch {
+        throw new Error(`Unknown time zone "${timeZone}"`);
+    }
+    return timeZone;
+}
+
+/**
+ * Finds a time expression in a text and resolves it. Understands:
+ * - relative times: "in 20 minutes", "in an hour", "in 3 days"
+ * - days: "today", "tonight", "tomorrow", "Friday", "next Monday", "March 12",
+ *   "12th of March", "on the 12th", "2025-03-12"
+ * - times: "at 5" (read as 5 PM: bare hours below 8 are afternoon), "5:30pm",
+ *   "at 17:30", "noon", "midnight", "in the morning" (9), "evening" (18)
+ * - recurrence: "every day", "every other week", "every 3 months", "every
+ *   Monday", "daily", "weekly", "monthly", "yearly"
+ * A date without a time is at 9 AM; a time without a date is the next time the
+ * clock shows it.
+ *
+ * @param text The text, e.g. "call mom Friday at 5".
+ * @param options (Optional) The current time and the time zone.
+ * @returns The due time, recurrence and remaining text, or null if the text has no time in it.
+ */
+export function parseWhen(text: string, options: TimeOptions = {}): ParsedTime | null {
+    const now = options.now ?? Date.now();
+    const timeZone = validateTimeZone(options.timeZone || defaultTimeZone());
+    let rest = text;
+    let found = false;
+    // Removes the first match of a pattern from the text and returns it.
+    const take = (pattern: RegExp): RegExpExecArray | null => {
+        const match = pattern.exec(rest);
+        if (match) {
+            rest = rest.slice(0, match.index) + ' ' + rest.slice(match.index + match[0].length);
+            found = true;
+        }
+        return match;
+    };
+
+    let recurrence: Recurrence | null = null;
+    let weekday: number | null = null;
+    let hour: number | null = null;
+    let minute = 0;
+
+    const every = take(new RegExp(`\\bevery\\s+(other\\s+)?(?:(${AMOUNT})\\s+)?(day|week|month|year)s?\\b`, 'i'));
+    const everyWeekday = !every && take(new RegExp(`\\bevery\\s+(${WEEKDAY_NAME})s?\\b`, 'i'));
+    const everyPart = !every && !everyWeekday && take(/\bevery\s+(morning|afternoon|evening|night)\b/i);
+    const adverb = !every && !everyWeekday && !everyPart && take(/\b(daily|weekly|monthly|yearly|annually)\b/i);
+    if (every) {
+        recurrence = { unit: readUnit(every[3]) as Recurrence['unit'], interval: every[1] ? 2 : every[2] ? readAmount(every[2]) : 1 };
+    } else if (everyWeekday) {
+        recurrence = { unit: 'week', interval: 1 };
+        weekday = WEEKDAYS.indexOf(everyWeekday[1].toLowerCase());
+    } else if (everyPart) {
+        recurrence = { unit: 'day', interval: 1 };
+        hour = DAY_PARTS[everyPart[1].toLowerCase()];
+    } else if (adverb) {
+        const word = adverb[1].toLowerCase();
+        recurrence = { unit: word === 'daily' ? 'day' : word === 'weekly' ? 'week' : word === 'monthly' ? 'month' : 'year', interval: 1 };
+    }
+    if (recurrence && (!Number.isInteger(recurrence.interval) || recurrence.interval < 1)) {
+        throw new Error('A reminder has to repeat at least every 1 unit');
+    }
+
+    // "in 20 minutes" is an exact instant; "in 3 days" moves the date and keeps the time of day.
+    let relativeMs: number | null = null;
+    let relativeDate: { unit: Recurrence['unit']; amount: number } | null = null;
+    const halfHour = take(/\bin\s+half\s+an\s+hour\b/i);
+    const relative = !halfHour && take(new RegExp(`\\bin\\s+(${AMOUNT})\\s*(minutes?|mins?|hours?|hrs?|days?|weeks?|months?|years?)\\b`, 'i'));
+    if (halfHour) {
+        relativeMs = 30 * MINUTE_MS;
+    } else if (relative) {
+        const amount = readAmount(relative[1]);
+        const unit = readUnit(relative[2]);
+        if (unit === 'minute' || unit === 'hour') {
+            relativeMs = amount * (unit === 'hour' ? 60 : 1) * MINUTE_MS;
+        } else {
+            relativeDate = { unit, amount };
+        }
+    }
+
+    const today = wallTime(now, timeZone);
+    let date: CalendarDate | null = null;
+    // Whether the date was spelled out with a year; such a date is never moved forward.
+    let exactYear = false;
+    // How to move a resolved time that has already passed.
+    let rollover: { unit: Recurrence['unit']; amount: number } | null = null;
+    let forceNext = false;
+
+    const iso = take(/\b(?:on\s+)?(\d{4})-(\d{2})-(\d{2})\b/);
+    const monthFirst = !iso && take(new RegExp(`\\b(?:on\\s+)?(${MONTH_NAME})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'i'));
+    const dayFirst = !iso && !monthFirst && take(new RegExp(`\\b(?:on\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_NAME})\\b(?:,?\\s+(\\d{4}))?`, 'i'));
+    const dayOfMonth = !iso && !monthFirst && !dayFirst && take(/\bon\s+the\s+(\d{1,2})(?:st|nd|rd|th)\b/i);
+    const dayWord = take(/\b(?:the\s+)?(day\s+after\s+tomorrow|tomorrow|today|tonight)\b/i);
+    const weekdayWord = weekday === null && take(new RegExp(`\\b(?:(next|this|on)\\s+)?(${WEEKDAY_NAME})\\b`, 'i'));
+
+    if (iso) {
+        date = { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+        exactYear = true;
+    } else if (monthFirst || dayFirst) {
+        const match = (monthFirst || dayFirst) as RegExpExecArray;
+        const [monthName, day, year] = monthFirst ? [match[1], match[2], match[3]] : [match[2], match[1], match[3]];
+        date = { year: year ? Number(year) : today.year, month: MONTHS.indexOf(monthName.slice(0, 3).toLowerCase()) + 1, day: Number(day) };
+        exactYear = Boolean(year);
+        rollover = { unit: 'year', amount: 1 };
+    } else if (dayOfMonth) {
+        date = { year: today.year, month: today.month, day: Number(dayOfMonth[1]) };
+        rollover = { unit: 'month', amount: 1 };
+    } else if (dayWord) {
+        const word = dayWord[1].toLowerCase().replace(/\s+/g, ' ');
+        date = addDays(today, word === 'tomorrow' ? 1 : word === 'day after tomorrow' ? 2 : 0);
+        if (word === 'tonight') hour = hour ?? DAY_PARTS.tonight;
+    } else if (weekdayWord) {
+        weekday = WEEKDAYS.indexOf(weekdayWord[2].toLowerCase());
+        forceNext = weekdayWord[1]?.toLowerCase() === 'next';
+    } else if (relativeDate) {
+        date = shiftDate(today, relativeDate.unit, relativeDate.amount);
+    }
+    if (date && (date.month < 1 || date.month > 12 || date.day < 1 || date.day > 31)) {
+        throw new Error(`"${text}" has an invalid date`);
+    }
+    if (weekday !== null) {
+        const ahead = (weekday - today.weekday + 7) % 7;
+        date = addDays(today, ahead === 0 && forceNext ? 7 : ahead);
+        rollover = { unit: 'week', amount: 1 };
+    }
+
+    const clock = take(/\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)(?=\s|$|[.,!?;])/i)
+        || take(/\bat\s+(\d{1,2})(?::(\d{2}))?\b/i);
+    const namedTime = !clock && take(/\b(?:at\s+)?(noon|midday|midnight)\b/i);
+    const dayPart = !clock && !namedTime && take(/\b(?:in\s+the\s+|this\s+|at\s+)?(morning|afternoon|evening|night)\b/i);
+    if (clock) {
+        hour = readHour(Number(clock[1]), clock[3]);
+        minute = clock[2] ? Number(clock[2]) : 0;
+        if (hour > 23 || minute > 59) {
+            throw new Error(`"${text}" has an invalid time`);
+        }
+    } else if (namedTime) {
+        hour = namedTime[1].toLowerCase() === 'midnight' ? 0 : 12;
+    } else if (dayPart) {
+        hour = DAY_PARTS[dayPart[1].toLowerCase()];
+    }
+
+    if (!found) return null;
+
+    let dueAt: number;
+    if (relativeMs !== null) {
+        dueAt = now + relativeMs;
+    } else {
+        const keepTimeOfDay = relativeDate !== null && hour === null;
+        const resolvedHour = hour ?? (keepTimeOfDay ? today.hour : DEFAULT_HOUR);
+        const resolvedMinute = hour === null && keepTimeOfDay ? today.minute : minute;
+        const day = date ?? today;
+        dueAt = fromWallTime(day, resolvedHour, resolvedMinute, timeZone);
+        if (dueAt <= now && !exactYear) {
+            // A time that already passed means its next occurrence: the next day, week, month or year.
+            const step = rollover ?? { unit: 'day' as const, amount: 1 };
+            for (let amount = step.amount; dueAt <= now; amount += step.amount) {
+                dueAt = fromWallTime(shiftDate(day, step.unit, amount), resolvedHour, resolvedMinute, timeZone);
+            }
+        }
+    }
+
+    const cleaned = rest
+        .replace(/\s+/g, ' ')
+        .replace(/\s+([,.!?;])/g, '$1')
+        .replace(/^[\s,]*(?:to|that|about)\s+/i, '')
+        .replace(/(?:[\s,]+(?:on|at|by|for|in))+[\s,.!?]*$/i, '')
+        .replace(/^[\s,]+|[\s,.!?;]+$/g, '');
+    return { dueAt, recurrence, text: cleaned };
+}
+
+/**
+ * Recognizes a reminder request in a chat message, such as "remind me to call
+ * mom Friday at 5" or "set a reminder to water the plants every morning".
+ *
+ * @param message The user's message.
+ * @param options (Optional) The current time and the time zone.
+ * @returns What to be reminded of and when, or null if the message is not a reminder request with a time.
+ */
+export function parseReminderRequest(message: string, options: TimeOptions = {}): ParsedTime | null {
+    const request = /\b(?:remind\s+me|set\s+(?:a\s+|me\s+a\s+)?reminder)\b(?:\s+(?:to|that|about|for))?\s+([\s\S]+)/i.exec(message);
+    if (!request) return null;
+    const parsed = parseWhen(request[1], options);
+    return parsed && parsed.text ? parsed : null;
+}
+
+/**
+ * The first occurrence of a recurring reminder after a given time, at the same
+ * wall-clock time as the original.
+ *
+ * @param dueAt The occurrence to start from.
+ * @param recurrence How often it repeats.
+ * @param timeZone The zone whose clock the reminder follows.
+ * @param after The returned occurrence is later than this.
+ */
+export function nextOccurrence(dueAt: number, recurrence: Recurrence, timeZone: string, after: number): number {
+    const start = wallTime(dueAt, timeZone);
+    let next = dueAt;
+    for (let amount = recurrence.interval; next <= after; amount += recurrence.interval) {
+        next = fromWallTime(shiftDate(start, recurrence.unit, amount), start.hour, start.minute, timeZone);
+    }
+    return next;
+}
+
+// E.g. "Fri, Oct 23, 5:00 PM".
+export function formatDue(ms: number, timeZone: string): string {
+    return new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit'
+    }).format(ms);
+}
+
+// E.g. "every day", "every 2 weeks".
+export function describeRecurrence(recurrence: Recurrence): string {
+    return recurrence.interval === 1 ? `every ${recurrence.unit}` : `every ${recurrence.interval} ${recurrence.unit}s`;
+}
@@ -0,0 +1,292 @@
+// scheduled reminders: storage, firing and how Peter brings them up
+
+import { v4 as uuidv4 } from 'uuid';
+import { JsonDocument } from './fileStorage.ts';
+import { log } from './logger.ts';
+import { MemoryManager } from './memoryManager.ts';
+import { describeRecurrence, formatDue, nextOccurrence, Recurrence } from './reminderTime.ts';
+
+/**
+ * scheduled: waiting for its time. due: its time came and it has not been dealt
+ * with yet. done and cancelled reminders are kept for the record.
+ */
+export type ReminderStatus = 'scheduled' | 'due' | 'done' | 'cancelled';
+
+export interface Reminder {
+    id: string;
+    // What to do, e.g. "call mom".
+    text: string;
+    dueAt: number;
+    // The zone the time was given in; recurring reminders follow its clock.
+    timeZone: string;
+    recurrence: Recurrence | null;
+    status: ReminderStatus;
+    createdAt: number;
+    // When it last became due.
+    firedAt: number | null;
+    // The occurrence a snoozed reminder was put off from; a recurring one continues its schedule from there.
+    snoozedFrom: number | null;
+    // Whether Peter has brought it up since it became due.
+    announced: boolean;
+    // The memory of the conversation the reminder was asked for in, if one was stored. While that
+    // memory is still being stored, the ID of its queued write (see MemoryManager.queueMemory).
+    sourceMemoryId: string | null;
+}
+
+export type ReminderInput = Pick<Reminder, 'text' | 'dueAt' | 'timeZone' | 'recurrence' | 'sourceMemoryId'>;
+
+// Per user: their reminders by ID.
+type ReminderFile = Record<string, Record<string, Reminder>>;
+
+const CLOSED_STATUSES: ReminderStatus[] = ['done', 'cancelled'];
+
+/**
+ * ReminderStore - Keeps each user's reminders in a local JSON file. Reminders
+ * returned are copies; change them through the store.
+ */
+export class ReminderStore {
+    private document: JsonDocument<ReminderFile>;
+
+    constructor(filePath?: string) {
+        this.document = new JsonDocument<ReminderFile>(filePath, () => ({}));
+    }
+
+    async create(userId: string, input: ReminderInput): Promise<Reminder> {
+        if (!input.text.trim()) {
+            throw new Error('A reminder needs something to remind of');
+        }
+        const reminder: Reminder = {
+            id: uuidv4(),
+            text: input.text.trim(),
+            dueAt: input.dueAt,
+            timeZone: input.timeZone,
+            recurrence: input.recurrence,
+            status: 'scheduled',
+            createdAt: Date.now(),
+            firedAt: null,
+            snoozedFrom: null,
+            announced: false,
+            sourceMemoryId: input.sourceMemoryId
+        };
+        await this.document.update(file => {
+            file[userId] = file[userId] || {};
+            file[userId][reminder.id] = reminder;
+        });
+        return { ...reminder };
+    }
+
+    async get(userId: string, reminderId: string): Promise<Reminder | null> {
+        const file = await this.document.read();
+        const reminder = file[userId]?.[reminderId];
+        return reminder ? { ...reminder } : null;
+    }
+
+    /**
+     * Lists a user's reminders, soonest first.
+     *
+     * @param userId The owner.
+     * @param includeClosed (Optional) Also list done and cancelled reminders.
+     */
+    async list(userId: string, includeClosed: boolean = false): Promise<Reminder[]> {
+        const file = await this.document.read();
+        return Object.values(file[userId] || {})
+            .filter(reminder => includeClosed || !CLOSED_STATUSES.includes(reminder.status))
+            .map(reminder => ({ ...reminder }))
+            .sort((a, b) => a.dueAt - b.dueAt);
+    }
+
+    /**
+     * Puts a reminder off until a later time.
+     *
+     * @returns The reminder, or null if the user has no such reminder.
+     */
+    async snooze(userId: string, reminderId: string, until: number): Promise<Reminder | null> {
+        return this.change(userId, reminderId, reminder => {
+            reminder.snoozedFrom = reminder.snoozedFrom ?? reminder.dueAt;
+            reminder.dueAt = until;
+            reminder.status = 'scheduled';
+            reminder.announced = false;
+        });
+    }
+
+    /**
+     * Marks a reminder done. A recurring reminder moves on to its next
+     * occurrence instead.
+     *
+     * @returns The reminder, or null if the user has no such reminder.
+     */
+    async complete(userId: string, reminderId: string): Promise<Reminder | null> {
+        return this.change(userId, reminderId, reminder => {
+            if (!reminder.recurrence) {
+                reminder.status = 'done';
+                return;
+            }
+            const occurrence = reminder.snoozedFrom ?? reminder.dueAt;
+            reminder.dueAt = nextOccurrence(occurrence, reminder.recurrence, reminder.timeZone, Math.max(Date.now(), reminder.dueAt, occurrence));
+            reminder.snoozedFrom = null;
+            reminder.status = 'scheduled';
+            reminder.announced = false;
+        });
+    }
+
+    async cancel(userId: string, reminderId: string): Promise<Reminder | null> {
+        return this.change(userId, reminderId, reminder => {
+            reminder.status = 'cancelled';
+        });
+    }
+
+    /**
+     * Marks every scheduled reminder whose time has come as due, for all users.
+     *
+     * @param now (Optional) The current time.
+     * @returns The reminders that just became due, with their owners.
+     */
+    async fireDue(now: number = Date.now()): Promise<{ userId: string; reminder: Reminder }[]> {
+        const file = await this.document.read();
+        const isDue = (reminder: Reminder) => reminder.status === 'scheduled' && reminder.dueAt <= now;
+        if (!Object.values(file).some(reminders => Object.values(reminders).some(isDue))) return [];
+        return this.document.update(current => {
+            const fired: { userId: string; reminder: Reminder }[] = [];
+            for (const [userId, reminders] of Object.entries(current)) {
+                for (const reminder of Object.values(reminders).filter(isDue)) {
+                    reminder.status = 'due';
+                    reminder.firedAt = now;
+                    reminder.announced = false;
+                    fired.push({ userId, reminder: { ...reminder } });
+                }
+            }
+            return fired;
+        });
+    }
+
+    // Due reminders Peter has not brought up yet, oldest first.
+    async unannounced(userId: string): Promise<Reminder[]> {
+        return (await this.list(userId)).filter(reminder => reminder.status === 'due' && !reminder.announced);
+    }
+
+    async markAnnounced(userId: string, reminderIds: string[]): Promise<void> {
+        if (reminderIds.length === 0) return;
+        await this.document.update(file => {
+            for (const id of reminderIds) {
+                const reminder = file[userId]?.[id];
+                if (reminder) reminder.announced = true;
+            }
+        });
+    }
+
+    // Points reminders from some memories at another (after a merge), or at nothing (after a delete).
+    async relinkMemories(userId: string, fromIds: string[], toId: string | null): Promise<void> {
+        const from = new Set(fromIds);
+        const file = await this.document.read();
+        const linked = (reminder: Reminder) => reminder.sourceMemoryId !== null && from.has(reminder.sourceMemoryId);
+        if (!Object.values(file[userId] || {}).some(linked)) return;
+        await this.document.update(current => {
+            for (const reminder of Object.values(current[userId] || {}).filter(linked)) {
+                reminder.sourceMemoryId = toId;
+            }
+        });
+    }
+
+    async deleteUser(userId: string): Promise<void> {
+        await this.document.update(file => {
+            delete file[userId];
+        });
+    }
+
+    // Applies a change to an open reminder.
+    private async change(userId: string, reminderId: string, mutate: (reminder: Reminder) => void): Promise<Reminder | null> {
+        return this.document.update(file => {
+            const reminder = file[userId]?.[reminderId];
+            if (!reminder) return null;
+            if (CLOSED_STATUSES.includes(reminder.status)) {
+                throw new Error(`Reminder ${reminderId} is already ${reminder.status}`);
+            }
+            mutate(reminder);
+            return { ...reminder };
+        });
+    }
+}
+
+/**
+ * Describes a reminder in a line of plain English, e.g. "call mom (Fri, Oct 23,
+ * 5:00 PM, every week)".
+ *
+ * @param reminder The reminder.
+ */
+export function describeReminder(reminder: Reminder): string {
+    const when = formatDue(reminder.dueAt, reminder.timeZone);
+    return `${reminder.text} (${reminder.recurrence ? `${when}, ${describeRecurrence(reminder.recurrence)}` : when})`;
+}
+
+/**
+ * The note added to Peter's instructions about reminders: the ones that became
+ * due since the user last heard about them, and one being set in this turn.
+ *
+ * @param due Reminders to bring up.
+ * @param requested (Optional) The reminder the user's message asks for.
+ * @returns The note, or an empty string when there is nothing to say.
+ */
+export function reminderNote(due: Reminder[], requested?: Pick<Reminder, 'text' | 'dueAt' | 'timeZone' | 'recurrence'> | null): string {
+    const lines: string[] = [];
+    if (due.length > 0) {
+        lines.push('These reminders are due; remind the user of them before anything else:');
+        lines.push(...due.map(reminder => `- ${describeReminder(reminder)}`));
+    }
+    if (requested) {
+        const when = formatDue(requested.dueAt, requested.timeZone);
+        const repeat = requested.recurrence ? `, repeating ${describeRecurrence(requested.recurrence)}` : '';
+        lines.push(`A reminder to "${requested.text}" is being scheduled for ${when} (${requested.timeZone})${repeat}. Confirm it briefly.`);
+    }
+    return lines.join('\n');
+}
+
+// Longest delay setInterval honours; it fires after 1 ms for anything longer.
+const MAX_INTERVAL_MS = 2 ** 31 - 1;
+
+/**
+ * Reads PETER_REMINDER_CHECK_SECONDS (default 30) as the time in milliseconds
+ * between reminder checks.
+ */
+export function reminderCheckInterval(): number {
+    const setting = process.env.PETER_REMINDER_CHECK_SECONDS;
+    const intervalMs = (setting ? Number(setting) : 30) * 1000;
+    if (!Number.isFinite(intervalMs) || intervalMs <= 0 || intervalMs > MAX_INTERVAL_MS) {
+        throw new Error(`PETER_REMINDER_CHECK_SECONDS must be a positive number of seconds, got "${setting}"`);
+    }
+    return intervalMs;
+}
+
+/**
+ * Checks for due reminders now and then on a fixed interval, marking them due
+ * so they are brought up at the user's next turn. A check that comes round while
+ * the previous one is still running is skipped. The timer does not keep the
+ * process alive.
+ *
+ * @param memory Any memory manager; reminders of every user are checked.
+ * @param intervalMs Time between checks.
+ * @param onDue (Optional) Called with the reminders that just became due, e.g. to show them right away.
+ * @returns A function that stops the schedule.
+ */
+export function scheduleReminders(
+    memory: MemoryManager,
+    intervalMs: number,
+    onDue?: (fired: { userId: string; reminder: Reminder }[]) => void
+): () => void {
+    let checking = false;
+    const check = async () => {
+        if (checking) return;
+        checking = true;
+        try {
+            const fired = await memory.fireDueReminders();
+            if (fired.length > 0) onDue?.(fired);
+        } catch (error) {
+            log.error('Error in checking reminders', { error });
+        } finally {
+            checking = false;
+        }
+    };
+    void check();
+    const timer = setInterval(check, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
+}
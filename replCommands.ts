@@ -0,0 +1,711 @@
+// slash-commands for the console REPL
+
+import * as path from 'path';
+import { displaySource, ingestPath } from './documentIngestion.ts';
+import { formatFactKey } from './factStore.ts';
+import { KNOWN_EDGE_TYPES } from './memoryGraph.ts';
+import { runMaintenance } from './memoryMaintenance.ts';
+import { describeToolAction } from './memoryTools.ts';
+import { Memory, MemoryManager } from './memoryManager.ts';
+import { exportMemories, importMemories } from './memoryTransfer.ts';
+import { PersonalAssistant } from './personalAssistant.ts';
+import { describeReminder, Reminder } from './reminders.ts';
+import { getCircuitStates } from './resilience.ts';
+import { describeRecurrence, formatDue, parseWhen } from './reminderTime.ts';
+import { SENSITIVITY_TIERS, validateTier } from './sensitiveData.ts';
+import { formatAge, formatTable } from './textTable.ts';
+import { ThreadSummary } from './threadStore.ts';
+import { getSessionStats } from './tracing.ts';
+
+export interface CommandContext {
+    assistant: PersonalAssistant;
+    userId: string;
+    // Prompts the user and resolves with their answer.
+    ask: (question: string) => Promise<string>;
+}
+
+interface Command {
+    usage: string;
+    description: string;
+    run: (args: string, ctx: CommandContext, memory: MemoryManager) => Promise<void>;
+}
+
+// Upper bound on how many memories /memories will page through.
+const MAX_LISTED_MEMORIES = 200;
+// Messages /resume prints to remind the user where the thread left off.
+const RESUME_PREVIEW_MESSAGES = 4;
+// How long /snooze puts a reminder off when no time is given.
+const DEFAULT_SNOOZE = 'in 10 minutes';
+
+function printMemories(memories: Memory[]): void {
+    if (memories.length === 0) {
+        console.log('No memories found.');
+        return;
+    }
+    console.log(formatTable(
+        ['ID', 'Importance', 'Age', 'Type', 'Summary'],
+        memories.map(memory => [
+            memory.id,
+            typeof memory.metadata.importance === 'number' ? memory.metadata.importance.toFixed(2) : '-',
+            formatAge(memory.metadata.timestamp),
+            memory.metadata.type,
+            memory.metadata.summary || memory.content
+        ])
+    ));
+}
+
+// Parses "tag=family type=important" (or a raw JSON object) into a metadata filter.
+function parseFilter(args: string): Record<string, any> {
+    if (args.startsWith('{')) return JSON.parse(args);
+    const filter: Record<string, any> = {};
+    for (const pair of args.split(/\s+/).filter(Boolean)) {
+        const [key, ...rest] = pair.split('=');
+        const raw = rest.join('=');
+        if (!key || !raw) {
+            throw new Error(`Invalid filter "${pair}", expected key=value`);
+        }
+        const value = raw === 'true' ? true : raw === 'false' ? false : isNaN(Number(raw)) ? raw : Number(raw);
+        filter[key === 'tag' ? 'tags' : key] = value;
+    }
+    return filter;
+}
+
+// Finds one of the user's threads by ID or by a unique ID prefix.
+async function findThread(ctx: CommandContext, idOrPrefix: string): Promise<ThreadSummary> {
+    const threads = await ctx.assistant.getThreads().list(ctx.userId);
+    const exact = threads.find(thread => thread.id === idOrPrefix);
+    if (exact) return exact;
+    const matches = threads.filter(thread => thread.id.startsWith(idOrPrefix));
+    if (matches.length === 0) throw new Error(`No thread ${idOrPrefix}`);
+    if (matches.length > 1) throw new Error(`${idOrPrefix} matches ${matches.length} threads; type more of the ID`);
+    return matches[0];
+}
+
+// Finds one of the user's open reminders by ID or by a unique ID prefix.
+async function findReminder(memory: MemoryManager, idOrPrefix: string): Promise<Reminder> {
+    const reminders = await memory.listReminders();
+    const exact = reminders.find(reminder => reminder.id === idOrPrefix);
+    if (exact) return exact;
+    const matches = reminders.filter(reminder => reminder.id.startsWith(idOrPrefix));
+    if (matches.length === 0) throw new Error(`No open reminder ${idOrPrefix}`);
+    if (matches.length > 1) throw new Error(`${idOrPrefix} matches ${matches.length} reminders; type more of the ID`);
+    return matches[0];
+}
+
+async function confirm(ctx: CommandContext, question: string): Promise<boolean> {
+    const answer = await ctx.ask(`${question} (y/N) `);
+    return answer.trim().toLowerCase().startsWith('y');
+}
+
+const commands: Record<string, Command> = {
+    remember: {
+        usage: '/remember <fact>',
+        description: 'Store a fact as an important memory',
+        run: async (args, ctx, memory) => {
+            if (!args) throw new Error('Usage: /remember <fact>');
+            const memoryIds = await memory.addMemory(args, 'important');
+            console.log(memoryIds.length > 0 ? `Remembered (${memoryIds.join(', ')}).` : 'Nothing was stored.');
+        }
+    },
+    forget: {
+        usage: '/forget <id|query>',
+        description: 'Delete a memory by id, or pick one from a search',
+        run: async (args, ctx, memory) => {
+            if (!args) throw new Error('Usage: /forget <id|query>');
+            const byId = await memory.getMemory(args);
+            if (byId) {
+                printMemories([byId]);
+                if (await confirm(ctx, 'Forget this memory?')) {
+                    await memory.deleteMemory(byId.id);
+                    console.log('Forgotten.');
+                }
+                return;
+            }
+
+            const matches = await memory.searchMemoriesComplex(args, {}, 5);
+            if (matches.length === 0) {
+                console.log('No matching memories.');
+                return;
+            }
+            console.log(formatTable(
+                ['#', 'ID', 'Summary'],
+                matches.map((match, index) => [String(index + 1), match.id, match.metadata.summary || match.content])
+            ));
+            const answer = (await ctx.ask('Forget which? (number, "all", or Enter to cancel) ')).trim().toLowerCase();
+            const selected = answer === 'all' ? matches : matches.filter((_, index) => String(index + 1) === answer);
+            if (selected.length === 0) {
+                console.log('Nothing forgotten.');
+                return;
+            }
+            if (await confirm(ctx, `Forget ${selected.length} memor${selected.length === 1 ? 'y' : 'ies'}?`)) {
+                for (const match of selected) {
+                    await memory.deleteMemory(match.id);
+                }
+                console.log('Forgotten.');
+            }
+        }
+    },
+    memories: {
+        usage: '/memories [key=value ...]',
+        description: 'List stored memories, optionally filtered (e.g. tag=family type=important)',
+        run: async (args, ctx, memory) => {
+            const filter = args ? parseFilter(args) : undefined;
+            const memories: Memory[] = [];
+            let cursor: string | undefined;
+            do {
+                const page = await memory.listMemories({ filter, cursor, limit: 100 });
+                memories.push(...page.memories);
+                cursor = page.cursor;
+            } while (cursor && memories.length < MAX_LISTED_MEMORIES);
+            memories.sort((a, b) => b.metadata.timestamp - a.metadata.timestamp);
+            printMemories(memories.slice(0, MAX_LISTED_MEMORIES));
+        }
+    },
+    search: {
+        usage: '/search <query>',
+        description: 'Search memories by keyword and meaning (supports tag:, type:, after:, before: and "phrases")',
+        run: async (args, ctx, memory) => {
+            if (!args) throw new Error('Usage: /search <query>');
+            const results = await memory.searchMemoriesComplex(args, {}, 10);
+            if (results.length === 0 || !results[0].match) {
+                printMemories(results);
+                return;
+            }
+            const format = (score: number | null | undefined, digits: number) => typeof score === 'number' ? score.toFixed(digits) : '-';
+            console.log(formatTable(
+                ['ID', 'Fused', 'Vector', 'Keyword', 'Summary'],
+                results.map(result => [
+                    result.id,
+                    format(result.match?.fused, 4),
+                    format(result.match?.vector, 2),
+                    format(result.match?.keyword, 2),
+                    result.metadata.summary || result.content
+                ])
+            ));
+        }
+    },
+    edit: {
+        usage: '/edit <id> <text>',
+        description: 'Replace the content of a memory',
+        run: async (args, ctx, memory) => {
+            const [memoryId, ...rest] = args.split(/\s+/);
+            const text = rest.join(' ').trim();
+            if (!memoryId || !text) throw new Error('Usage: /edit <id> <text>');
+            await memory.editMemory(memoryId, text);
+            const updated = await memory.getMemory(memoryId);
+            printMemories(updated ? [updated] : []);
+        }
+    },
+    history: {
+        usage: '/history <id>',
+        description: 'Show every revision of a memory and why it changed',
+        run: async (args, ctx, memory) => {
+            if (!args) throw new Error('Usage: /history <id>');
+            const current = await memory.getMemory(args);
+            if (!current) throw new Error(`Memory ${args} not found`);
+            const revisions = await memory.getMemoryHistory(args);
+            console.log(formatTable(
+                ['Version', 'Written', 'Replaced', 'Reason', 'Summary'],
+                [
+                    ...revisions.map(revision => [
+                        String(revision.version),
+                        formatAge(revision.timestamp),
+                        formatAge(revision.replacedAt),
+                        revision.reason,
+                        revision.summary || revision.content
+                    ]),
+                    [
+                        `${current.metadata.version || 1} (current)`,
+                        formatAge(current.metadata.timestamp),
+                        '-',
+                        '-',
+                        current.metadata.summary || current.content
+                    ]
+                ]
+            ));
+        }
+    },
+    rollback: {
+        usage: '/rollback <id> <version>',
+        description: 'Restore a memory to an earlier version',
+        run: async (args, ctx, memory) => {
+            const [memoryId, versionArg] = args.split(/\s+/);
+            const version = Number(versionArg);
+            if (!memoryId || !Number.isInteger(version)) throw new Error('Usage: /rollback <id> <version>');
+            await memory.rollbackMemory(memoryId, version);
+            const restored = await memory.getMemory(memoryId);
+            printMemories(restored ? [restored] : []);
+        }
+    },
+    reveal: {
+        usage: '/reveal <id>',
+        description: 'Show a memory with its encrypted personal data decrypted',
+        run: async (args, ctx, memory) => {
+            if (!args) throw new Error('Usage: /reveal <id>');
+            const revealed = await memory.revealMemory(args);
+            if (!revealed) throw new Error(`Memory ${args} not found`);
+            console.log(revealed.content);
+        }
+    },
+    sensitivity: {
+        usage: '/sensitivity <id> <tier>',
+        description: `Set how sensitive a memory is (${SENSITIVITY_TIERS.join(', ')}); secret ones never reach a prompt`,
+        run: async (args, ctx, memory) => {
+            const [memoryId, tier] = args.split(/\s+/);
+            if (!memoryId || !tier) throw new Error('Usage: /sensitivity <id> <tier>');
+            await memory.setSensitivity(memoryId, validateTier(tier));
+            console.log(`Memory ${memoryId} is now ${tier}.`);
+        }
+    },
+    link: {
+        usage: '/link <id> <id> [type]',
+        description: `Link two memories (types: ${KNOWN_EDGE_TYPES.join(', ')}, or your own)`,
+        run: async (args, ctx, memory) => {
+            const [fromId, toId, type] = args.split(/\s+/).filter(Boolean);
+            if (!fromId || !toId) throw new Error('Usage: /link <id> <id> [type]');
+            await memory.linkMemories(fromId, toId, type);
+            console.log('Linked.');
+        }
+    },
+    unlink: {
+        usage: '/unlink <id> <id> [type]',
+        description: 'Remove the links between two memories',
+        run: async (args, ctx, memory) => {
+            const [fromId, toId, type] = args.split(/\s+/).filter(Boolean);
+            if (!fromId || !toId) throw new Error('Usage: /unlink <id> <id> [type]');
+            await memory.unlinkMemories(fromId, toId, type);
+            console.log('Unlinked.');
+        }
+    },
+    links: {
+        usage: '/links <id> [hops]',
+        description: 'Show the memories linked to a memory',
+        run: async (args, ctx, memory) => {
+            const [memoryId, hopsArg] = args.split(/\s+/).filter(Boolean);
+            const hops = hopsArg ? Number(hopsArg) : 1;
+            if (!memoryId || !Number.isInteger(hops) || hops < 1) throw new Error('Usage: /links <id> [hops]');
+            const neighbors = await memory.getNeighbors(memoryId, hops);
+            if (neighbors.length === 0) {
+                console.log('No linked memories.');
+                return;
+            }
+            console.log(formatTable(
+                ['Depth', 'From', 'Link', 'ID', 'Summary'],
+                neighbors.map(neighbor => [
+                    String(neighbor.depth),
+                    neighbor.fromId,
+                    neighbor.type,
+                    neighbor.memory.id,
+                    neighbor.memory.metadata.summary || neighbor.memory.content
+                ])
+            ));
+        }
+    },
+    facts: {
+        usage: '/facts [subject]',
+        description: 'List known facts (e.g. user.name), optionally about one entity',
+        run: async (args, ctx, memory) => {
+            const facts = await memory.listFacts(args || undefined);
+            if (facts.length === 0) {
+                console.log('No facts known.');
+                return;
+            }
+            console.log(formatTable(
+                ['Key', 'Value', 'Confidence', 'Since', 'Source'],
+                facts.map(fact => [
+                    formatFactKey(fact),
+                    fact.value,
+                    fact.confidence.toFixed(2),
+                    formatAge(fact.validFrom),
+                    fact.sourceMemoryId || '(set directly)'
+                ])
+            ));
+        }
+    },
+    fact: {
+        usage: '/fact <key> [value]',
+        description: 'Show every value a fact has had, or set it (e.g. /fact sister.birthday March 12)',
+        run: async (args, ctx, memory) => {
+            const [key, ...rest] = args.split(/\s+/);
+            const value = rest.join(' ').trim();
+            if (!key) throw new Error('Usage: /fact <key> [value]');
+            if (value) {
+                const change = await memory.setFact(key, value);
+                console.log(change.outcome === 'updated'
+                    ? `${formatFactKey(change.fact)} changed from "${change.previous?.value}" to "${change.fact.value}".`
+                    : `${formatFactKey(change.fact)} is "${change.fact.value}".`);
+                return;
+            }
+            const history = await memory.getFactHistory(key);
+            if (history.length === 0) {
+                console.log(`Nothing known about ${key}.`);
+                return;
+            }
+            console.log(formatTable(
+                ['Value', 'Confidence', 'From', 'Until', 'Source'],
+                history.map(fact => [
+                    fact.value,
+                    fact.confidence.toFixed(2),
+                    formatAge(fact.validFrom),
+                    fact.validTo === null ? '(current)' : formatAge(fact.validTo),
+                    fact.sourceMemoryId || '(set directly)'
+                ])
+            ));
+        }
+    },
+    why: {
+        usage: '/why',
+        description: 'Show which memories informed the last answer, and what Peter changed',
+        run: async (args, ctx) => {
+            const memories = ctx.assistant.getLastRetrievedMemories(ctx.userId);
+            const actions = ctx.assistant.getLastToolActions(ctx.userId);
+            if (memories.length === 0 && actions.length === 0) {
+                console.log('The last answer did not use any memories.');
+                return;
+            }
+            if (memories.length > 0) printMemories(memories);
+            if (actions.length > 0) {
+                console.log('Memory actions:');
+                actions.forEach(action => console.log(`  ${describeToolAction(action)}`));
+            }
+        }
+    },
+    context: {
+        usage: '/context',
+        description: 'Show how the last prompt used its token budget',
+        run: async (args, ctx) => {
+            const report = ctx.assistant.getLastContextReport(ctx.userId);
+            if (!report) {
+                console.log('No answer yet.');
+                return;
+            }
+            console.log(formatTable(
+                ['Section', 'Tokens'],
+                [
+                    ...Object.entries(report.tokens).map(([section, tokens]) => [section, String(tokens)]),
+                    ['total', `${report.used} of ${report.budget}`]
+                ]
+            ));
+            console.log(`Memories: ${report.memories.included.length} included, ${report.memories.cut.length} cut${report.memories.cut.length > 0 ? ` (${report.memories.cut.join(', ')})` : ''}.`);
+            console.log(`Thread: ${report.history.included} recent messages, ${report.history.summarized} summarized${report.summaryUpdated ? ' (summary updated)' : ''}${report.history.dropped > 0 ? `, ${report.history.dropped} dropped` : ''}.`);
+        }
+    },
+    threads: {
+        usage: '/threads',
+        description: 'List saved conversation threads',
+        run: async (args, ctx) => {
+            const threads = await ctx.assistant.getThreads().list(ctx.userId);
+            if (threads.length === 0) {
+                console.log('No saved threads.');
+                return;
+            }
+            const currentId = ctx.assistant.getCurrentThreadId(ctx.userId);
+            console.log(formatTable(
+                ['ID', 'Messages', 'Updated', 'Title'],
+                threads.map(thread => [
+                    thread.id === currentId ? `${thread.id} *` : thread.id,
+                    String(thread.messageCount),
+                    formatAge(thread.updatedAt),
+                    thread.title
+                ])
+            ));
+        }
+    },
+    resume: {
+        usage: '/resume <id>',
+        description: 'Continue a saved thread (an ID prefix is enough)',
+        run: async (args, ctx) => {
+            if (!args) throw new Error('Usage: /resume <id>');
+            const summary = await findThread(ctx, args);
+            const thread = await ctx.assistant.resumeThread(summary.id, ctx.userId);
+            if (!thread) throw new Error(`No thread ${args}`);
+            console.log(`Resumed "${thread.title}".`);
+            for (const message of thread.messages.slice(-RESUME_PREVIEW_MESSAGES)) {
+                console.log(`${message.role === 'user' ? 'You' : 'Assistant'}: ${message.content}`);
+            }
+        }
+    },
+    rename: {
+        usage: '/rename <id> <title>',
+        description: 'Rename a saved thread',
+        run: async (args, ctx) => {
+            const [idOrPrefix, ...rest] = args.split(/\s+/);
+            const title = rest.join(' ').trim();
+            if (!idOrPrefix || !title) throw new Error('Usage: /rename <id> <title>');
+            const summary = await findThread(ctx, idOrPrefix);
+            await ctx.assistant.getThreads().rename(ctx.userId, summary.id, title);
+            console.log('Renamed.');
+        }
+    },
+    drop: {
+        usage: '/drop <id>',
+        description: 'Delete a saved thread',
+        run: async (args, ctx) => {
+            if (!args) throw new Error('Usage: /drop <id>');
+            const summary = await findThread(ctx, args);
+            if (await confirm(ctx, `Delete the thread "${summary.title}" (${summary.messageCount} messages)?`)) {
+                await ctx.assistant.deleteThread(summary.id, ctx.userId);
+                console.log('Deleted.');
+            }
+        }
+    },
+    remind: {
+        usage: '/remind <what> <when>',
+        description: 'Schedule a reminder (e.g. /remind call mom Friday at 5, /remind stretch every day at 3pm)',
+        run: async (args, ctx, memory) => {
+            if (!args) throw new Error('Usage: /remind <what> <when>');
+            const timeZone = ctx.assistant.getTimeZone();
+            const parsed = parseWhen(args, { timeZone });
+            if (!parsed) throw new Error(`No time found in "${args}"; try "tomorrow at 9" or "in 2 hours"`);
+            if (!parsed.text) throw new Error('What should the reminder say?');
+            const reminder = await memory.addReminder({ ...parsed, timeZone, sourceMemoryId: null });
+            console.log(`Reminder set: ${describeReminder(reminder)} [${reminder.id}]`);
+        }
+    },
+    reminders: {
+        usage: '/reminders [all]',
+        description: 'List open reminders (all: include done and cancelled ones)',
+        run: async (args, ctx, memory) => {
+            const reminders = await memory.listReminders(args === 'all');
+            if (reminders.length === 0) {
+                console.log('No reminders.');
+                return;
+            }
+            console.log(formatTable(
+                ['ID', 'Status', 'Due', 'Repeats', 'Reminder'],
+                reminders.map(reminder => [
+                    reminder.id,
+                    reminder.status,
+                    formatDue(reminder.dueAt, reminder.timeZone),
+                    reminder.recurrence ? describeRecurrence(reminder.recurrence) : '-',
+                    reminder.text
+                ])
+            ));
+        }
+    },
+    snooze: {
+        usage: '/snooze <id> [when]',
+        description: `Put a reminder off (default ${DEFAULT_SNOOZE}; e.g. /snooze <id> tomorrow morning)`,
+        run: async (args, ctx, memory) => {
+            const [idOrPrefix, ...rest] = args.split(/\s+/);
+            if (!idOrPrefix) throw new Error('Usage: /snooze <id> [when]');
+            const when = rest.join(' ').trim() || DEFAULT_SNOOZE;
+            const reminder = await findReminder(memory, idOrPrefix);
+            const parsed = parseWhen(when, { timeZone: reminder.timeZone });
+            if (!parsed) throw new Error(`No time found in "${when}"`);
+            const snoozed = await memory.snoozeReminder(reminder.id, parsed.dueAt);
+            console.log(`Snoozed until ${formatDue(snoozed.dueAt, snoozed.timeZone)}.`);
+        }
+    },
+    done: {
+        usage: '/done <id>',
+        description: 'Mark a reminder done (a recurring one moves on to its next time)',
+        run: async (args, ctx, memory) => {
+            if (!args) throw new Error('Usage: /done <id>');
+            const reminder = await memory.completeReminder((await findReminder(memory, args)).id);
+            console.log(reminder.status === 'done' ? 'Done.' : `Done; next one ${formatDue(reminder.dueAt, reminder.timeZone)}.`);
+        }
+    },
+    cancel: {
+        usage: '/cancel <id>',
+        description: 'Cancel a reminder',
+        run: async (args, ctx, memory) => {
+            if (!args) throw new Error('Usage: /cancel <id>');
+            const reminder = await findReminder(memory, args);
+            await memory.cancelReminder(reminder.id);
+            console.log(`Cancelled "${reminder.text}".`);
+        }
+    },
+    export: {
+        usage: '/export <file> [--embeddings]',
+        description: 'Back up all memories to a JSONL file',
+        run: async (args, ctx, memory) => {
+            const parts = args.split(/\s+/).filter(Boolean);
+            const includeEmbeddings = parts.includes('--embeddings');
+            const [filePath] = parts.filter(part => part !== '--embeddings');
+            if (!filePath) throw new Error('Usage: /export <file> [--embeddings]');
+            const count = await exportMemories(memory, filePath, includeEmbeddings);
+            console.log(`Exported ${count} memories to ${filePath}.`);
+        }
+    },
+    import: {
+        usage: '/import <file>',
+        description: 'Import memories from a JSONL export, merging duplicates',
+        run: async (args, ctx, memory) => {
+            if (!args) throw new Error('Usage: /import <file>');
+            const report = await importMemories(memory, args);
+            console.log(formatTable(
+                ['Created', 'Merged', 'Skipped', 'Errors', 'Re-embedded'],
+                [[
+                    String(report.created.length),
+                    String(report.merged.length),
+                    String(report.skipped.length),
+                    String(report.errors.length),
+                    report.reembedded ? 'yes' : 'no'
+                ]]
+            ));
+            for (const error of report.errors) {
+                console.log(`  line ${error.line}: ${error.message}`);
+            }
+        }
+    },
+    ingest: {
+        usage: '/ingest <file|directory> [--remove]',
+        description: 'Load notes (.txt, .md, .html, .json, .csv) into memory; --remove unloads a file',
+        run: async (args, ctx, memory) => {
+            const parts = args.split(/\s+/).filter(Boolean);
+            const remove = parts.includes('--remove');
+            const target = parts.filter(part => part !== '--remove').join(' ');
+            if (!target) throw new Error('Usage: /ingest <file|directory> [--remove]');
+            if (remove) {
+                const report = await memory.syncDocument(path.resolve(target), []);
+                console.log(`Removed ${report.removed} chunks of ${target}.`);
+                return;
+            }
+            const report = await ingestPath(memory, target);
+            if (report.documents.length > 0) {
+                console.log(formatTable(
+                    ['Document', 'Chunks', 'Added', 'Unchanged', 'Removed'],
+                    report.documents.map(document => [
+                        displaySource(document.source),
+                        String(document.chunks),
+                        String(document.added),
+                        String(document.unchanged),
+                        String(document.removed)
+                    ])
+                ));
+            } else {
+                console.log('No supported documents found.');
+            }
+            if (report.skipped.length > 0) {
+                console.log(`Skipped ${report.skipped.length} files in unsupported formats.`);
+            }
+            for (const error of report.errors) {
+                console.log(`  ${displaySource(error.source)}: ${error.message}`);
+            }
+        }
+    },
+    maintain: {
+        usage: '/maintain [--dry-run]',
+        description: 'Merge near-duplicate memories (--dry-run only lists them)',
+        run: async (args, ctx, memory) => {
+            const dryRun = args.split(/\s+/).includes('--dry-run');
+            const report = await runMaintenance(memory, { dryRun });
+            if (report.resumedAfter) {
+                console.log(`Resumed an interrupted run after ${report.resumedAfter}.`);
+            }
+            if (report.merges.length === 0) {
+                console.log(`Scanned ${report.scanned} memories; nothing to merge.`);
+            } else {
+                console.log(formatTable(
+                    ['Keep', 'Merge', 'Summaries'],
+                    report.merges.map(merge => [merge.targetId, merge.sourceIds.join(', '), merge.summaries.join(' | ')])
+                ));
+                console.log(`Scanned ${report.scanned} memories; ${dryRun ? 'would merge' : 'merged'} ${report.merges.length} clusters.`);
+            }
+            for (const error of report.errors) {
+                console.log(`  ${error.memoryId}: ${error.message}`);
+            }
+        }
+    },
+    pending: {
+        usage: '/pending [retry]',
+        description: 'List memory writes waiting to be stored, and the state of each backend; retry stores them now',
+        run: async (args, ctx, memory) => {
+            if (args === 'retry') {
+                const { stored, remaining } = await memory.replayPendingWrites(true);
+                console.log(`Stored ${stored.length} queued writes; ${remaining.length} still queued.`);
+            } else if (args) {
+                throw new Error('Usage: /pending [retry]');
+            }
+            const circuits = getCircuitStates();
+            if (circuits.length > 0) {
+                console.log(circuits.map(circuit => `${circuit.service}: ${circuit.state}`).join(', '));
+            }
+            const writes = await memory.getPendingWrites();
+            if (writes.length === 0) {
+                console.log('No memory writes are waiting.');
+                return;
+            }
+            console.log(formatTable(
+                ['ID', 'Queued', 'Attempts', 'Last error', 'Content'],
+                writes.map(write => [
+                    write.id,
+                    formatAge(write.queuedAt),
+                    String(write.attempts),
+                    write.lastError || '',
+                    write.content
+                ])
+            ));
+        }
+    },
+    stats: {
+        usage: '/stats',
+        description: 'Show model calls, tokens, estimated cost and latency for this session',
+        run: async () => {
+            const stats = getSessionStats();
+            console.log(`${stats.turns} turns in ${formatAge(stats.startedAt)}, about $${stats.costUsd.toFixed(4)} spent.`);
+            const models = Object.entries(stats.models);
+            if (models.length === 0) {
+                console.log('No model calls yet.');
+                return;
+            }
+            console.log(formatTable(
+                ['Model', 'Calls', 'Input', 'Output', 'Cost'],
+                models.map(([model, spend]) => [
+                    model,
+                    String(spend.calls),
+                    String(spend.inputTokens),
+                    String(spend.outputTokens),
+                    `$${spend.costUsd.toFixed(4)}${spend.unpriced > 0 ? ` (${spend.unpriced} unpriced)` : ''}`
+                ])
+            ));
+            console.log(formatTable(
+                ['Span', 'Count', 'Avg ms', 'Max ms'],
+                Object.entries(stats.spans).map(([name, span]) => [
+                    name,
+                    String(span.count),
+                    String(Math.round(span.totalMs / span.count)),
+                    String(span.maxMs)
+                ])
+            ));
+        }
+    },
+    help: {
+        usage: '/help',
+        description: 'List commands',
+        run: async () => {
+            console.log(formatTable(
+                ['Command', 'Description'],
+                Object.values(commands).map(command => [command.usage, command.description])
+            ));
+        }
+    }
+};
+
+export function isCommand(input: string): boolean {
+    return input.trim().startsWith('/');
+}
+
+/**
+ * Runs a slash-command typed into the REPL. Errors are printed rather than thrown
+ * so a bad command never ends the session.
+ *
+ * @param input The raw input line, starting with "/".
+ * @param ctx The assistant, user and prompt function.
+ */
+export async function runCommand(input: string, ctx: CommandContext): Promise<void> {
+    const trimmed = input.trim().slice(1);
+    const [name] = trimmed.split(/\s+/, 1);
+    const args = trimmed.slice(name.length).trim();
+    const command = commands[name.toLowerCase()];
+    if (!command) {
+        console.log(`Unknown command /${name}. Type /help for a list.`);
+        return;
+    }
+    try {
+        await command.run(args, ctx, ctx.assistant.getMemoryManager(ctx.userId));
+    } catch (error: any) {
+        console.error(`Error: ${error.message || error}`);
+    }
+}
@@ -0,0 +1,347 @@
+// timeouts, retries and circuit breakers around remote models and stores
+
+import { ChatMessage, ChatOptions, ChatProvider, ChatResult, EmbeddingProvider, isAbortError, StreamEvent } from './llmProvider.ts';
+import { log } from './logger.ts';
+import { ListOptions, ListPage, RecordMetadata, VectorMatch, VectorQuery, VectorRecord, VectorStore } from './vectorStore.ts';
+
+/**
+ * How calls to a remote service are protected. Read from the environment by
+ * resiliencePolicyFromEnv.
+ */
+export interface ResiliencePolicy {
+    // A call (or, for a stream, its first event) taking longer than this fails and is retried.
+    timeoutMs: number;
+    // Retries after the first attempt, for timeouts and transient errors only.
+    retries: number;
+    // The first retry waits about this long; each later one twice as long.
+    retryDelayMs: number;
+    // Consecutive failed calls that open the service's circuit.
+    breakerFailures: number;
+    // How long an open circuit fails calls immediately before letting one through.
+    breakerCooldownMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Longest wait between two retries.
+const MAX_RETRY_DELAY_MS = 10_000;
+
+// Node network errors worth retrying.
+const TRANSIENT_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = parseFloat(process.env[name] || '');
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * The policy set by PETER_REQUEST_TIMEOUT_SECONDS (default 30), PETER_MAX_RETRIES
+ * (default 2), PETER_RETRY_DELAY_MS (default 500), PETER_BREAKER_FAILURES
+ * (default 5) and PETER_BREAKER_COOLDOWN_SECONDS (default 30).
+ */
+export function resiliencePolicyFromEnv(): ResiliencePolicy {
+    return {
+        timeoutMs: numberFromEnv('PETER_REQUEST_TIMEOUT_SECONDS', 30) * 1000,
+        retries: Math.floor(numberFromEnv('PETER_MAX_RETRIES', 2)),
+        retryDelayMs: numberFromEnv('PETER_RETRY_DELAY_MS', 500),
+        breakerFailures: Math.max(1, Math.floor(numberFromEnv('PETER_BREAKER_FAILURES', 5))),
+        breakerCooldownMs: numberFromEnv('PETER_BREAKER_COOLDOWN_SECONDS', 30) * 1000
+    };
+}
+
+/**
+ * A remote service that could not be reached: its circuit is open, or every
+ * attempt timed out or failed with a transient error. Callers that can do
+ * without the service (retrieval, memory writes) catch this one and degrade.
+ */
+export class ServiceUnavailableError extends Error {
+    constructor(readonly service: string, message: string, readonly cause?: unknown) {
+        super(message);
+        this.name = 'ServiceUnavailableError';
+    }
+}
+
+/**
+ * A single attempt that ran out of time.
+ */
+export class CallTimeoutError extends Error {
+    constructor(readonly service: string, readonly timeoutMs: number) {
+        super(`${service} did not answer within ${timeoutMs} ms`);
+        this.name = 'CallTimeoutError';
+    }
+}
+
+// The fields SDK and network errors carry that tell a transient failure apart.
+interface ErrorLike {
+    name?: unknown;
+    message?: unknown;
+    status?: unknown;
+    statusCode?: unknown;
+    response?: { status?: unknown };
+    code?: unknown;
+    cause?: unknown;
+}
+
+function isErrorLike(error: unknown): error is ErrorLike {
+    return typeof error === 'object' && error !== null;
+}
+
+/**
+ * Whether an error is worth retrying: a timeout, a network error, rate limiting
+ * or a server-side failure. Bad requests and authentication errors are not.
+ *
+ * @param error The error a call failed with.
+ */
+export function isTransientError(error: unknown): boolean {
+    if (error instanceof CallTimeoutError) return true;
+    if (!isErrorLike(error)) return false;
+    const status = error.status ?? error.statusCode ?? error.response?.status;
+    if (typeof status === 'number') {
+        return status === 408 || status === 429 || status >= 500;
+    }
+    const code = error.code ?? (isErrorLike(error.cause) ? error.cause.code : undefined);
+    if (typeof code === 'string' && TRANSIENT_CODES.includes(code)) return true;
+    if (/Connection|Timeout|Unavailable|InternalServer/.test(String(error.name ?? ''))) return true;
+    return /fetch failed|socket hang up|network|overloaded/i.test(String(error.message ?? ''));
+}
+
+/**
+ * CircuitBreaker - Stops calling a service that keeps failing. After
+ * breakerFailures consecutive transient failures the circuit opens and calls
+ * fail at once with ServiceUnavailableError; once the cooldown has passed one
+ * call is let through, and its outcome closes or reopens the circuit. Errors
+ * that are not transient say nothing about the service being down and are
+ * passed through without counting.
+ */
+export class CircuitBreaker {
+    private failures = 0;
+    private openedAt: number | null = null;
+    private probing = false;
+
+    constructor(readonly service: string, private failureThreshold: number, private cooldownMs: number) {}
+
+    get state(): CircuitState {
+        if (this.openedAt === null) return 'closed';
+        return Date.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+    }
+
+    async run<T>(call: () => Promise<T>): Promise<T> {
+        const state = this.state;
+        if (state === 'open' || (state === 'half-open' && this.probing)) {
+            throw new ServiceUnavailableError(this.service, `${this.service} is unavailable (circuit open)`);
+        }
+        this.probing = state === 'half-open';
+        try {
+            const result = await call();
+            if (this.openedAt !== null) log.info('Circuit closed', { service: this.service });
+            this.failures = 0;
+            this.openedAt = null;
+            return result;
+        } catch (error) {
+            if (isTransientError(error)) this.recordFailure();
+            throw error;
+        } finally {
+            this.probing = false;
+        }
+    }
+
+    private recordFailure(): void {
+        this.failures++;
+        if (this.openedAt !== null || this.failures >= this.failureThreshold) {
+            if (this.openedAt === null) log.warn('Circuit opened', { service: this.service, failures: this.failures });
+            this.openedAt = Date.now();
+        }
+    }
+}
+
+// One breaker per service, shared by every client of it in this process.
+const breakers = new Map<string, CircuitBreaker>();
+
+function breakerFor(service: string, policy: ResiliencePolicy): CircuitBreaker {
+    let breaker = breakers.get(service);
+    if (!breaker) {
+        breaker = new CircuitBreaker(service, policy.breakerFailures, policy.breakerCooldownMs);
+        breakers.set(service, breaker);
+    }
+    return breaker;
+}
+
+// The state of every service called so far, for /pending.
+export function getCircuitStates(): { service: string; state: CircuitState }[] {
+    return [...breakers.values()].map(breaker => ({ service: breaker.service, state: breaker.state }));
+}
+
+// Waits before a retry: exponential backoff with full jitter.
+function backoff(policy: ResiliencePolicy, attempt: number, signal?: AbortSignal): Promise<void> {
+    const delay = Math.random() * Math.min(MAX_RETRY_DELAY_MS, policy.retryDelayMs * 2 ** attempt);
+    return new Promise(resolve => {
+        const timer = setTimeout(resolve, delay);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+        }, { once: true });
+    });
+}
+
+// Runs one attempt with a time limit. The attempt gets a signal that is aborted
+// when it times out or the caller aborts; calls that ignore it are raced instead.
+function attemptWithTimeout<T>(
+    service: string,
+    timeoutMs: number,
+    call: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+): Promise<T> {
+    const controller = new AbortController();
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+    if (signal?.aborted) controller.abort();
+    return new Promise<T>((resolve, reject) => {
+        const timer = timeoutMs > 0
+            ? setTimeout(() => {
+                reject(new CallTimeoutError(service, timeoutMs));
+                controller.abort();
+            }, timeoutMs)
+            : null;
+        call(controller.signal).then(resolve, reject).finally(() => {
+            if (timer) clearTimeout(timer);
+        });
+    });
+}
+
+/**
+ * Calls a remote service through its circuit breaker, with a timeout on every
+ * attempt and exponential-backoff retries for transient failures. Gives up with
+ * ServiceUnavailableError; other errors, and aborts through the caller's
+ * signal, are thrown as they are.
+ *
+ * @param service The service name, e.g. "openai" or "pinecone"; one breaker per name.
+ * @param policy Timeouts, retries and breaker settings.
+ * @param call The call, given a signal to pass on where the client supports one.
+ * @param signal (Optional) The caller's abort signal.
+ */
+export async function callWithRetry<T>(
+    service: string,
+    policy: ResiliencePolicy,
+    call: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+): Promise<T> {
+    const breaker = breakerFor(service, policy);
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await breaker.run(() => attemptWithTimeout(service, policy.timeoutMs, call, signal));
+        } catch (error: any) {
+            if (error instanceof ServiceUnavailableError || isAbortError(error, signal) || !isTransientError(error)) {
+                throw error;
+            }
+            if (attempt >= policy.retries) {
+                throw new ServiceUnavailableError(service, `${service} failed after ${attempt + 1} attempts: ${error?.message || error}`, error);
+            }
+            log.warn('Retrying a failed call', { service, attempt: attempt + 1, error });
+            await backoff(policy, attempt, signal);
+            if (signal?.aborted) throw error;
+        }
+    }
+}
+
+/**
+ * ResilientChatProvider - Adds timeouts, retries and the provider's circuit
+ * breaker to a chat model. A stream is retried until its first event arrives;
+ * once text has been yielded, a failure ends the stream.
+ */
+export class ResilientChatProvider implements ChatProvider {
+    readonly provider: string;
+    readonly model: string;
+
+    constructor(readonly inner: ChatProvider, private policy: ResiliencePolicy = resiliencePolicyFromEnv()) {
+        this.provider = inner.provider;
+        this.model = inner.model;
+    }
+
+    complete(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+        return callWithRetry(this.provider, this.policy, signal => this.inner.complete(messages, { ...options, signal }), options.signal);
+    }
+
+    async *stream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<StreamEvent> {
+        const { iterator, first } = await callWithRetry(this.provider, this.policy, async signal => {
+            const iterator = this.inner.stream(messages, { ...options, signal })[Symbol.asyncIterator]();
+            return { iterator, first: await iterator.next() };
+        }, options.signal);
+        if (first.done) return;
+        yield first.value;
+        for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+            yield next.value;
+        }
+    }
+}
+
+/**
+ * ResilientEmbeddingProvider - Adds timeouts, retries and the provider's
+ * circuit breaker to an embedding model.
+ */
+export class ResilientEmbeddingProvider implements EmbeddingProvider {
+    readonly provider: string;
+    readonly model: string;
+    readonly dimension: number;
+
+    constructor(readonly inner: EmbeddingProvider, private policy: ResiliencePolicy = resiliencePolicyFromEnv()) {
+        this.provider = inner.provider;
+        this.model = inner.model;
+        this.dimension = inner.dimension;
+    }
+
+    embed(texts: string[]): Promise<number[][]> {
+        return callWithRetry(this.provider, this.policy, () => this.inner.embed(texts));
+    }
+}
+
+/**
+ * ResilientVectorStore - Adds timeouts, retries and a circuit breaker to every
+ * call of a vector store. Namespaces share the breaker with the store they
+ * came from.
+ */
+export class ResilientVectorStore implements VectorStore {
+    constructor(
+        private inner: VectorStore,
+        private service: string,
+        private policy: ResiliencePolicy = resiliencePolicyFromEnv()
+    ) {}
+
+    private call<T>(run: () => Promise<T>): Promise<T> {
+        return callWithRetry(this.service, this.policy, run);
+    }
+
+    upsert(records: VectorRecord[]): Promise<void> {
+        return this.call(() => this.inner.upsert(records));
+    }
+
+    query(query: VectorQuery): Promise<VectorMatch[]> {
+        return this.call(() => this.inner.query(query));
+    }
+
+    fetch(ids: string[]): Promise<VectorRecord[]> {
+        return this.call(() => this.inner.fetch(ids));
+    }
+
+    delete(ids: string[]): Promise<void> {
+        return this.call(() => this.inner.delete(ids));
+    }
+
+    list(options?: ListOptions): Promise<ListPage> {
+        return this.call(() => this.inner.list(options));
+    }
+
+    updateMetadata(id: string, metadata: RecordMetadata): Promise<void> {
+        return this.call(() => this.inner.updateMetadata(id, metadata));
+    }
+
+    namespace(name: string): VectorStore {
+        return new ResilientVectorStore(this.inner.namespace(name), this.service, this.policy);
+    }
+
+    listNamespaces(): Promise<string[]> {
+        return this.call(() => this.inner.listNamespaces());
+    }
+
+    deleteNamespace(name: string): Promise<void> {
+        return this.call(() => this.inner.deleteNamespace(name));
+    }
+}
@@ -0,0 +1,119 @@
+// retrieval scoring: blends similarity with recency, importance and usage
+
+export interface ScoringWeights {
+    similarity: number;
+    recency: number;
+    importance: number;
+    access: number;
+}
+
+export interface ScoringConfig {
+    weights: ScoringWeights;
+    // Days after which the recency signal of an untouched memory halves.
+    recencyHalfLifeDays: number;
+    // Number of retrievals at which the access signal reaches its maximum.
+    accessSaturation: number;
+    // Memories less similar to the query than this are never returned.
+    minRelevance: number;
+    // How many candidates to fetch per requested result before re-ranking.
+    candidateMultiplier: number;
+}
+
+export interface ScoreBreakdown {
+    similarity: number;
+    recency: number;
+    importance: number;
+    access: number;
+    // Weighted blend of the signals above, used for ranking.
+    total: number;
+}
+
+export const DEFAULT_SCORING: ScoringConfig = {
+    weights: { similarity: 0.6, recency: 0.15, importance: 0.15, access: 0.1 },
+    recencyHalfLifeDays: 30,
+    accessSaturation: 10,
+    minRelevance: 0.2,
+    candidateMultiplier: 4,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function envNumber(name: string): number | undefined {
+    const value = process.env[name];
+    if (value === undefined || value === '') return undefined;
+    const parsed = Number(value);
+    if (Number.isNaN(parsed)) {
+        throw new Error(`${name} must be a number`);
+    }
+    return parsed;
+}
+
+/**
+ * Builds the scoring config from defaults, environment variables and explicit
+ * overrides (in increasing priority). PETER_SCORING_WEIGHTS takes four
+ * comma-separated numbers: similarity, recency, importance, access.
+ *
+ * @param overrides (Optional) Settings that win over everything else.
+ */
+export function resolveScoringConfig(overrides: Partial<ScoringConfig> = {}): ScoringConfig {
+    let weights = DEFAULT_SCORING.weights;
+    const setting = process.env.PETER_SCORING_WEIGHTS;
+    if (setting) {
+        const values = setting.split(',').map(part => part.trim() === '' ? NaN : Number(part));
+        if (values.length !== 4 || values.some(value => !Number.isFinite(value) || value < 0)) {
+            throw new Error(
+                `PETER_SCORING_WEIGHTS must be four comma-separated non-negative numbers `
+                + `(similarity, recency, importance, access), got "${setting}"`
+            );
+        }
+        const [similarity, recency, importance, access] = values;
+        weights = { similarity, recency, importance, access };
+    }
+    return {
+        weights,
+        recencyHalfLifeDays: envNumber('PETER_RECENCY_HALF_LIFE_DAYS') ?? DEFAULT_SCORING.recencyHalfLifeDays,
+        accessSaturation: DEFAULT_SCORING.accessSaturation,
+        minRelevance: envNumber('PETER_MIN_RELEVANCE') ?? DEFAULT_SCORING.minRelevance,
+        candidateMultiplier: DEFAULT_SCORING.candidateMultiplier,
+        ...overrides,
+    };
+}
+
+/**
+ * Scores one retrieved memory. Every signal is in [0, 1]; the total is their
+ * weighted average.
+ *
+ * @param similarity Cosine similarity between the query and the memory.
+ * @param metadata The memory's importance, last access time and access count.
+ * @param config The scoring config.
+ * @param now (Optional) Current time in ms.
+ */
+export function scoreMemory(
+    similarity: number,
+    metadata: { importance?: number; lastAccessed?: number; timestamp?: number; accessCount?: number },
+    config: ScoringConfig,
+    now: number = Date.now()
+): ScoreBreakdown {
+    const lastUsed = metadata.lastAccessed || metadata.timestamp || now;
+    const ageDays = Math.max(0, now - lastUsed) / DAY_MS;
+    const recency = Math.pow(0.5, ageDays / config.recencyHalfLifeDays);
+
+    const rawImportance = typeof metadata.importance === 'number' && !Number.isNaN(metadata.importance)
+        ? metadata.importance
+        : 0.5;
+    const importance = Math.min(1, Math.max(0, rawImportance));
+
+    const accessCount = metadata.accessCount || 0;
+    const access = Math.min(1, Math.log1p(accessCount) / Math.log1p(config.accessSaturation));
+
+    const { weights } = config;
+    const weightSum = weights.similarity + weights.recency + weights.importance + weights.access;
+    const total = weightSum === 0 ? 0 : (
+        weights.similarity * similarity +
+        weights.recency * recency +
+        weights.importance * importance +
+        weights.access * access
+    ) / weightSum;
+
+    return { similarity, recency, importance, access, total };
+}
@@ -0,0 +1,352 @@
+// PII detection, redaction and local encryption of sensitive values in memories
+
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { dataPath, JsonDocument } from './fileStorage.ts';
+
+export type PiiType = 'email' | 'phone' | 'card' | 'id' | 'secret';
+
+export const PII_TYPES: PiiType[] = ['email', 'phone', 'card', 'id', 'secret'];
+
+/**
+ * How careful to be with a memory. normal memories are used as context freely;
+ * private ones (contact details, ID numbers) only when PETER_PROMPT_SENSITIVITY
+ * allows it; secret ones (card numbers, passwords, keys) are never put in a
+ * prompt.
+ */
+export type SensitivityTier = 'normal' | 'private' | 'secret';
+
+export const SENSITIVITY_TIERS: SensitivityTier[] = ['normal', 'private', 'secret'];
+
+/**
+ * redact: detected values are replaced by a placeholder and dropped.
+ * encrypt: they are replaced by a placeholder and kept, encrypted with a local
+ * key, so they can be revealed on this machine.
+ */
+export type ProtectionMode = 'redact' | 'encrypt';
+
+export interface PiiFinding {
+    type: PiiType;
+    value: string;
+    start: number;
+    end: number;
+}
+
+export interface ShieldedText {
+    // The text with every detected value replaced by a placeholder such as [EMAIL_1a2b3c4d].
+    text: string;
+    findings: PiiFinding[];
+    // The placeholders and the values they stand for (encrypt mode only).
+    values: Record<string, string>;
+}
+
+export interface SensitiveDataOptions {
+    // Which detectors run. Defaults to PETER_PII_DETECTORS, or all of them.
+    detectors?: PiiType[];
+    // Defaults to PETER_PII_MODE, or "encrypt".
+    mode?: ProtectionMode;
+    // 32-byte key. Defaults to PETER_ENCRYPTION_KEY (base64), or a key file created in the data directory.
+    key?: Buffer;
+    // Where the key file is kept when no key is given.
+    keyPath?: string;
+    // Where encrypted values are kept. Defaults to a file in the data directory.
+    vaultPath?: string;
+}
+
+interface Detector {
+    type: PiiType;
+    pattern: RegExp;
+    // Capture group holding the value, when the match includes a label ("password: ...").
+    group?: number;
+    validate?: (value: string) => boolean;
+}
+
+// Per namespace: encrypted values by placeholder.
+type VaultFile = Record<string, Record<string, string>>;
+
+// Checked in this order; a later detector never claims text an earlier one already found.
+const DETECTORS: Detector[] = [
+    { type: 'secret', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+    { type: 'secret', pattern: /\b(?:sk|pk|rk)[-_](?:live[-_]|test[-_]|proj[-_])?[A-Za-z0-9_-]{16,}\b/g },
+    { type: 'secret', pattern: /\bAKIA[0-9A-Z]{16}\b/g },
+    { type: 'secret', pattern: /\bgh[pousr]_[A-Za-z0-9]{30,}\b/g },
+    { type: 'secret', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+    {
+        type: 'secret',
+        pattern: /\b(?:password|passwd|passcode|pin|api[ _-]?key|secret|token)\s*(?:is|:|=)\s*["']?([^\s"']{4,})/gi,
+        group: 1
+    },
+    { type: 'card', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: value => passesLuhn(value.replace(/\D/g, '')) },
+    { type: 'id', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+    { type: 'id', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\b/g },
+    { type: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+    {
+        type: 'phone',
+        pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]\d{2,4}){1,3}(?![\w-])|(?<![\w+])\+\d{8,15}\b/g,
+        validate: value => {
+            const digits = value.replace(/\D/g, '').length;
+            // Dates and times look like short digit groups too; real numbers have 7+ digits.
+            return digits >= 7 && digits <= 15 && !/^(?:\d{4}[./-]\d{1,2}[./-]\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{4})$/.test(value);
+        }
+    }
+];
+
+const PLACEHOLDER_PATTERN = /\[(EMAIL|PHONE|CARD|ID|SECRET)(?:_[0-9a-f]{8})?\]/g;
+
+const TIER_OF_TYPE: Record<PiiType, SensitivityTier> = {
+    email: 'private',
+    phone: 'private',
+    id: 'private',
+    card: 'secret',
+    secret: 'secret'
+};
+
+function passesLuhn(digits: string): boolean {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+// Same value, same placeholder: emails ignore case, numbers ignore spacing.
+function normalizeValue(type: PiiType, value: string): string {
+    if (type === 'email') return value.toLowerCase();
+    if (type === 'phone' || type === 'card' || type === 'id') return value.replace(/[\s().-]/g, '').toUpperCase();
+    return value;
+}
+
+/**
+ * Finds personal data and secrets in a text.
+ *
+ * @param text The text to scan.
+ * @param types (Optional) Which detectors to run. Defaults to all.
+ * @returns The findings, in order of position.
+ */
+export function detectPii(text: string, types: PiiType[] = PII_TYPES): PiiFinding[] {
+    const findings: PiiFinding[] = [];
+    // Placeholders from an earlier pass are left alone, so shielding twice changes nothing.
+    const placeholders = [...text.matchAll(PLACEHOLDER_PATTERN)].map(match => ({ start: match.index!, end: match.index! + match[0].length }));
+    const overlaps = (start: number, end: number) =>
+        [...placeholders, ...findings].some(span => start < span.end && end > span.start);
+    for (const detector of DETECTORS) {
+        if (!types.includes(detector.type)) continue;
+        for (const match of text.matchAll(detector.pattern)) {
+            const value = detector.group ? match[detector.group] : match[0];
+            const start = match.index! + (detector.group ? match[0].indexOf(value) : 0);
+            const end = start + value.length;
+            if (overlaps(start, end) || (detector.validate && !detector.validate(value))) continue;
+            findings.push({ type: detector.type, value, start, end });
+        }
+    }
+    return findings.sort((a, b) => a.start - b.start);
+}
+
+// The most sensitive of the given tiers.
+export function maxTier(...tiers: (SensitivityTier | undefined)[]): SensitivityTier {
+    return tiers.reduce<SensitivityTier>(
+        (highest, tier) => tier && SENSITIVITY_TIERS.indexOf(tier) > SENSITIVITY_TIERS.indexOf(highest) ? tier : highest,
+        'normal'
+    );
+}
+
+// Whether a memory of one tier may go into a prompt that allows up to another. Secret never does.
+export function tierAllowed(tier: SensitivityTier | undefined, limit: SensitivityTier): boolean {
+    const rank = SENSITIVITY_TIERS.indexOf(tier || 'normal');
+    return rank < SENSITIVITY_TIERS.indexOf('secret') && rank <= SENSITIVITY_TIERS.indexOf(limit);
+}
+
+/**
+ * The tier a text calls for, judging by the placeholders in it: contact
+ * details and IDs make it private, card numbers and secrets secret.
+ *
+ * @param text Text that has been through SensitiveDataGuard.shield.
+ */
+export function tierOfShieldedText(text: string): SensitivityTier {
+    const types = [...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1].toLowerCase() as PiiType);
+    return maxTier(...types.map(type => TIER_OF_TYPE[type]));
+}
+
+export function validateTier(tier: string): SensitivityTier {
+    if (!SENSITIVITY_TIERS.includes(tier as SensitivityTier)) {
+        throw new Error(`Unknown sensitivity "${tier}"; use ${SENSITIVITY_TIERS.join(', ')}`);
+    }
+    return tier as SensitivityTier;
+}
+
+function detectorsFromEnv(): PiiType[] {
+    const setting = (process.env.PETER_PII_DETECTORS || '').trim().toLowerCase();
+    if (!setting) return PII_TYPES;
+    if (setting === 'off' || setting === 'none') return [];
+    const types = setting.split(',').map(type => type.trim()).filter(Boolean);
+    const unknown = types.filter(type => !PII_TYPES.includes(type as PiiType));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown PII detector(s) in PETER_PII_DETECTORS: ${unknown.join(', ')}; use ${PII_TYPES.join(', ')}`);
+    }
+    return types as PiiType[];
+}
+
+function modeFromEnv(): ProtectionMode {
+    const mode = process.env.PETER_PII_MODE || 'encrypt';
+    if (mode !== 'redact' && mode !== 'encrypt') {
+        throw new Error(`PETER_PII_MODE must be "redact" or "encrypt", got "${mode}"`);
+    }
+    return mode;
+}
+
+/**
+ * SensitiveDataGuard - Keeps personal data and secrets out of everything that
+ * leaves the machine or sits in the vector store. Detected values are replaced by
+ * placeholders before text goes to a model or into storage; in encrypt mode the
+ * values are kept in a local vault, encrypted with AES-256-GCM under a key that
+ * never leaves this machine, and can be put back with reveal.
+ *
+ * Placeholders are derived from the value with a keyed hash, so the same email
+ * always gets the same placeholder and duplicate detection keeps working.
+ */
+export class SensitiveDataGuard {
+    readonly detectors: PiiType[];
+    readonly mode: ProtectionMode;
+    private vault: JsonDocument<VaultFile>;
+    private keyPath: string;
+    private key: Promise<Buffer> | null;
+
+    constructor(options: SensitiveDataOptions = {}) {
+        this.detectors = options.detectors ?? detectorsFromEnv();
+        this.mode = options.mode ?? modeFromEnv();
+        this.keyPath = options.keyPath || dataPath('secret.key');
+        this.key = options.key ? Promise.resolve(options.key) : null;
+        this.vault = new JsonDocument<VaultFile>(options.vaultPath, () => ({}));
+    }
+
+    /**
+     * Replaces personal data and secrets in a text with placeholders. In encrypt
+     * mode the values are saved to the namespace's vault, if one is given; a
+     * search query only needs the placeholders, so it can be matched against
+     * stored text.
+     *
+     * @param text The text.
+     * @param namespace (Optional) The owner's namespace, to keep the values in.
+     */
+    async shield(text: string, namespace?: string): Promise<ShieldedText> {
+        const findings = detectPii(text, this.detectors);
+        if (findings.length === 0) return { text, findings, values: {} };
+
+        const key = this.mode === 'encrypt' ? await this.loadKey() : null;
+        const values: Record<string, string> = {};
+        let shielded = '';
+        let position = 0;
+        for (const finding of findings) {
+            const label = finding.type.toUpperCase();
+            const placeholder = key
+                ? `[${label}_${createHmac('sha256', key).update(`${finding.type}:${normalizeValue(finding.type, finding.value)}`).digest('hex').slice(0, 8)}]`
+                : `[${label}]`;
+            if (key) values[placeholder] = finding.value;
+            shielded += text.slice(position, finding.start) + placeholder;
+            position = finding.end;
+        }
+        shielded += text.slice(position);
+
+        if (key && namespace) {
+            await this.vault.update(file => {
+                const entries = file[namespace] = file[namespace] || {};
+                for (const [placeholder, value] of Object.entries(values)) {
+                    entries[placeholder] = seal(key, value);
+                }
+            });
+        }
+        return { text: shielded, findings, values };
+    }
+
+    /**
+     * Puts the original values back in place of placeholders, where the vault has
+     * them. Redacted values stay redacted.
+     *
+     * @param namespaces The namespaces whose vaults to look in, in order.
+     * @param text Shielded text.
+     */
+    async reveal(namespaces: string[], text: string): Promise<string> {
+        const placeholders = text.match(PLACEHOLDER_PATTERN);
+        if (!placeholders) return text;
+        const file = await this.vault.read();
+        const key = await this.loadKey();
+        return text.replace(PLACEHOLDER_PATTERN, placeholder => {
+            for (const namespace of namespaces) {
+                const sealed = file[namespace]?.[placeholder];
+                if (sealed) return unseal(key, sealed);
+            }
+            return placeholder;
+        });
+    }
+
+    // Copies the vault entries a text refers to into another namespace, e.g. when sharing a memory.
+    async copyValues(fromNamespace: string, toNamespace: string, text: string): Promise<void> {
+        const placeholders = text.match(PLACEHOLDER_PATTERN) || [];
+        const file = await this.vault.read();
+        const entries = placeholders.filter(placeholder => file[fromNamespace]?.[placeholder]);
+        if (entries.length === 0) return;
+        await this.vault.update(current => {
+            const target = current[toNamespace] = current[toNamespace] || {};
+            for (const placeholder of entries) {
+                target[placeholder] = current[fromNamespace][placeholder];
+            }
+        });
+    }
+
+    async deleteNamespace(namespace: string): Promise<void> {
+        await this.vault.update(file => {
+            delete file[namespace];
+        });
+    }
+
+    // PETER_ENCRYPTION_KEY, or the key file, created with owner-only permissions on first use.
+    private loadKey(): Promise<Buffer> {
+        if (!this.key) {
+            this.key = (async () => {
+                if (process.env.PETER_ENCRYPTION_KEY) {
+                    return parseKey(process.env.PETER_ENCRYPTION_KEY, 'PETER_ENCRYPTION_KEY');
+                }
+                try {
+                    return parseKey(await fs.readFile(this.keyPath, 'utf8'), this.keyPath);
+                } catch (error: any) {
+                    if (error.code !== 'ENOENT') throw error;
+                }
+                const key = randomBytes(32);
+                await fs.mkdir(path.dirname(this.keyPath), { recursive: true });
+                await fs.writeFile(this.keyPath, key.toString('base64'), { mode: 0o600, flag: 'wx' });
+                return key;
+            })();
+            this.key.catch(() => { this.key = null; });
+        }
+        return this.key;
+    }
+}
+
+function parseKey(encoded: string, source: string): Buffer {
+    const key = Buffer.from(encoded.trim(), 'base64');
+    if (key.length !== 32) {
+        throw new Error(`${source} must hold a base64-encoded 32-byte key`);
+    }
+    return key;
+}
+
+// AES-256-GCM, as "iv.tag.ciphertext" in base64.
+function seal(key: Buffer, value: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.');
+}
+
+function unseal(key: Buffer, sealed: string): string {
+    const [iv, tag, ciphertext] = sealed.split('.').map(part => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,637 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+import { ApiAuth, authenticate, readApiAuth, requireAdmin } from './apiAuth.ts';
+import { Chatbot } from './chatbot.ts';
+import { chunkDocument, DocumentChunk, formatOfPath, validateFormat } from './documentChunker.ts';
+import { parseFactKey } from './factStore.ts';
+import { log } from './logger.ts';
+import { DEFAULT_EDGE_TYPE, validateEdgeType } from './memoryGraph.ts';
+import { isMaintenanceRunning, maintenanceInterval, runMaintenance, scheduleMaintenance } from './memoryMaintenance.ts';
+import { DEFAULT_USER, Memory, MemoryManager } from './memoryManager.ts';
+import { Reminder, reminderCheckInterval, scheduleReminders } from './reminders.ts';
+import { defaultTimeZone, ParsedTime, parseWhen, validateTimeZone } from './reminderTime.ts';
+import { ServiceUnavailableError } from './resilience.ts';
+import { SensitivityTier, validateTier } from './sensitiveData.ts';
+import { Thread } from './threadStore.ts';
+import { flushTraces } from './tracing.ts';
+import {
+    HttpError,
+    optionalInteger,
+    optionalJsonObject,
+    optionalString,
+    optionalStringArray,
+    readJsonBody,
+    requireString,
+    sendError,
+    sendJson,
+    startEventStream
+} from './httpUtils.ts';
+
+// Load environment variables
+dotenv.config();
+
+interface RequestContext {
+    req: IncomingMessage;
+    res: ServerResponse;
+    url: URL;
+    params: string[];
+    userId: string;
+    memory: MemoryManager;
+}
+
+interface Route {
+    method: string;
+    path: RegExp;
+    admin?: boolean;
+    handler: (ctx: RequestContext) => Promise<void>;
+}
+
+const chatbot = new Chatbot();
+
+// Memories are returned without their embedding vectors.
+function serializeMemory(memory: Memory) {
+    return { id: memory.id, content: memory.content, metadata: memory.metadata };
+}
+
+async function requireMemory(memory: MemoryManager, memoryId: string): Promise<Memory> {
+    const existing = await memory.getMemory(memoryId);
+    if (!existing) {
+        throw new HttpError(404, `Memory ${memoryId} not found`);
+    }
+    return existing;
+}
+
+async function requireThread(userId: string, threadId: string): Promise<Thread> {
+    const thread = await chatbot.getThreads().get(userId, threadId);
+    if (!thread) {
+        throw new HttpError(404, `Thread ${threadId} not found`);
+    }
+    return thread;
+}
+
+async function requireReminder(memory: MemoryManager, reminderId: string): Promise<Reminder> {
+    const reminder = await memory.getReminder(reminderId);
+    if (!reminder) {
+        throw new HttpError(404, `Reminder ${reminderId} not found`);
+    }
+    if (reminder.status === 'done' || reminder.status === 'cancelled') {
+        throw new HttpError(409, `Reminder ${reminderId} is already ${reminder.status}`);
+    }
+    return reminder;
+}
+
+// Resolves a natural-language time such as "Friday at 5" or "in 2 hours".
+function requireTime(text: string, timeZone: string): ParsedTime {
+    let parsed: ParsedTime | null;
+    try {
+        parsed = parseWhen(text, { timeZone });
+    } catch (error: any) {
+        throw new HttpError(400, error.message);
+    }
+    if (!parsed) {
+        throw new HttpError(400, `No time found in "${text}"`);
+    }
+    return parsed;
+}
+
+// Validates an optional sensitivity tier from a request body.
+function optionalTier(body: Record<string, unknown>): SensitivityTier | undefined {
+    const tier = optionalString(body, 'sensitivity');
+    if (tier === undefined) return undefined;
+    try {
+        return validateTier(tier);
+    } catch (error: any) {
+        throw new HttpError(400, error.message);
+    }
+}
+
+// Chunks an uploaded document, in the format given or the one its source name implies.
+function requireChunks(body: Record<string, unknown>, source: string): DocumentChunk[] {
+    const content = requireString(body, 'content');
+    const format = optionalString(body, 'format');
+    try {
+        const resolved = format === undefined ? formatOfPath(source) : validateFormat(format);
+        if (!resolved) {
+            throw new Error(`No format given and none implied by "${source}"`);
+        }
+        return chunkDocument(content, resolved);
+    } catch (error: any) {
+        throw new HttpError(400, error.message);
+    }
+}
+
+// Validates a fact key such as "user.name".
+function requireFactKey(key: string): string {
+    try {
+        parseFactKey(key);
+    } catch (error: any) {
+        throw new HttpError(400, error.message);
+    }
+    return key;
+}
+
+const routes: Route[] = [
+    {
+        // Streams the reply as Server-Sent Events: "delta" events, then "done" (or "error").
+        // A "memory_unavailable" event means the reply was given without memory.
+        method: 'POST',
+        path: /^\/chat$/,
+        handler: async ({ req, res, userId }) => {
+            const body = await readJsonBody(req);
+            const message = requireString(body, 'message');
+            const threadId = optionalString(body, 'threadId') || uuidv4();
+
+            const controller = new AbortController();
+            res.on('close', () => {
+                if (!res.writableFinished) controller.abort();
+            });
+
+            const send = startEventStream(res);
+            send('thread', { threadId });
+            try {
+                const onMemoryUnavailable = (notice: string) => send('memory_unavailable', { message: notice });
+                for await (const chunk of chatbot.chatStream(message, threadId, userId, controller.signal, onMemoryUnavailable)) {
+                    send('delta', chunk);
+                }
+                if (!controller.signal.aborted) {
+                    send('done', { threadId });
+                }
+            } catch (error) {
+                log.error('Error in /chat', { error });
+                send('error', { message: 'Chat failed' });
+            }
+            res.end();
+        }
+    },
+    {
+        // Threads without their messages, most recently active first.
+        method: 'GET',
+        path: /^\/threads$/,
+        handler: async ({ res, userId }) => {
+            sendJson(res, 200, { threads: await chatbot.getThreads().list(userId) });
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/threads$/,
+        handler: async ({ req, res, userId }) => {
+            const body = await readJsonBody(req);
+            const thread = await chatbot.getThreads().create(userId, optionalString(body, 'title') || '');
+            sendJson(res, 201, { thread });
+        }
+    },
+    {
+        method: 'GET',
+        path: /^\/threads\/([^/]+)$/,
+        handler: async ({ res, params, userId }) => {
+            const [threadId] = params;
+            sendJson(res, 200, { thread: await requireThread(userId, threadId) });
+        }
+    },
+    {
+        method: 'PATCH',
+        path: /^\/threads\/([^/]+)$/,
+        handler: async ({ req, res, params, userId }) => {
+            const [threadId] = params;
+            const body = await readJsonBody(req);
+            const title = requireString(body, 'title');
+            await requireThread(userId, threadId);
+            const thread = await chatbot.getThreads().rename(userId, threadId, title);
+            sendJson(res, 200, { thread });
+        }
+    },
+    {
+        method: 'DELETE',
+        path: /^\/threads\/([^/]+)$/,
+        handler: async ({ res, params, userId }) => {
+            const [threadId] = params;
+            await requireThread(userId, threadId);
+            await chatbot.getThreads().delete(userId, threadId);
+            res.writeHead(204);
+            res.end();
+        }
+    },
+    {
+        method: 'GET',
+        path: /^\/memories$/,
+        handler: async ({ res, url, memory }) => {
+            const limit = optionalInteger(url.searchParams.get('limit'), 'limit', 1, 100) ?? 20;
+            const cursor = url.searchParams.get('cursor') || undefined;
+            const filter = optionalJsonObject(url.searchParams.get('filter'), 'filter');
+            const page = await memory.listMemories({ limit, cursor, filter });
+            sendJson(res, 200, { memories: page.memories.map(serializeMemory), cursor: page.cursor ?? null });
+        }
+    },
+    {
+        method: 'GET',
+        path: /^\/memories\/search$/,
+        handler: async ({ res, url, memory }) => {
+            const query = url.searchParams.get('q');
+            if (!query) {
+                throw new HttpError(400, '"q" query parameter is required');
+            }
+            const limit = optionalInteger(url.searchParams.get('limit'), 'limit', 1, 50);
+            const filter = optionalJsonObject(url.searchParams.get('filter'), 'filter');
+            let memories: Memory[];
+            try {
+                memories = await memory.searchMemoriesComplex(query, filter || {}, limit);
+            } catch (error: any) {
+                // Search errors are handled inside, so apart from an outage (503)
+                // anything thrown is bad query syntax.
+                if (error instanceof ServiceUnavailableError) throw error;
+                throw new HttpError(400, error.message);
+            }
+            sendJson(res, 200, {
+                memories: memories.map(entry => ({ ...serializeMemory(entry), match: entry.match }))
+            });
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/memories$/,
+        handler: async ({ req, res, memory }) => {
+            const body = await readJsonBody(req);
+            const content = requireString(body, 'content');
+            const type = optionalString(body, 'type') || 'important';
+            const tags = optionalStringArray(body, 'tags') || [];
+            const relatedIds = optionalStringArray(body, 'relatedIds') || [];
+            const sensitivity = optionalTier(body);
+            const memoryIds = await memory.addMemory(content, type, tags, relatedIds, sensitivity);
+            if (memoryIds.length === 0) {
+                sendJson(res, 200, { stored: false, memories: [] });
+                return;
+            }
+            const stored = await Promise.all(memoryIds.map(id => memory.getMemory(id)));
+            const memories = stored.filter((entry): entry is Memory => entry !== null);
+            sendJson(res, 201, { stored: true, memories: memories.map(serializeMemory) });
+        }
+    },
+    {
+        method: 'PATCH',
+        path: /^\/memories\/([^/]+)$/,
+        handler: async ({ req, res, params, memory }) => {
+            const [memoryId] = params;
+            const body = await readJsonBody(req);
+            const content = requireString(body, 'content');
+            const summary = optionalString(body, 'summary');
+            await requireMemory(memory, memoryId);
+            await memory.editMemory(memoryId, content, summary);
+            const updated = await memory.getMemory(memoryId);
+            sendJson(res, 200, { memory: updated && serializeMemory(updated) });
+        }
+    },
+    {
+        method: 'DELETE',
+        path: /^\/memories\/([^/]+)$/,
+        handler: async ({ res, params, memory }) => {
+            const [memoryId] = params;
+            await requireMemory(memory, memoryId);
+            await memory.deleteMemory(memoryId);
+            res.writeHead(204);
+            res.end();
+        }
+    },
+    {
+        method: 'PUT',
+        path: /^\/memories\/([^/]+)\/sensitivity$/,
+        handler: async ({ req, res, params, memory }) => {
+            const [memoryId] = params;
+            const body = await readJsonBody(req);
+            const tier = optionalTier(body);
+            if (!tier) {
+                throw new HttpError(400, '"sensitivity" is required');
+            }
+            await requireMemory(memory, memoryId);
+            await memory.setSensitivity(memoryId, tier);
+            const updated = await memory.getMemory(memoryId);
+            sendJson(res, 200, { memory: updated && serializeMemory(updated) });
+        }
+    },
+    {
+        // The memory with its encrypted personal data decrypted.
+        method: 'GET',
+        path: /^\/memories\/([^/]+)\/reveal$/,
+        handler: async ({ res, params, memory }) => {
+            const [memoryId] = params;
+            await requireMemory(memory, memoryId);
+            const revealed = await memory.revealMemory(memoryId);
+            sendJson(res, 200, { memory: revealed && serializeMemory(revealed) });
+        }
+    },
+    {
+        // Prior revisions, oldest first, plus the current state.
+        method: 'GET',
+        path: /^\/memories\/([^/]+)\/history$/,
+        handler: async ({ res, params, memory }) => {
+            const [memoryId] = params;
+            const current = await requireMemory(memory, memoryId);
+            const revisions = await memory.getMemoryHistory(memoryId);
+            sendJson(res, 200, { current: serializeMemory(current), revisions });
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/memories\/([^/]+)\/rollback$/,
+        handler: async ({ req, res, params, memory }) => {
+            const [memoryId] = params;
+            const body = await readJsonBody(req);
+            const version = body.version;
+            if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+                throw new HttpError(400, '"version" must be a positive integer');
+            }
+            await requireMemory(memory, memoryId);
+            const revisions = await memory.getMemoryHistory(memoryId);
+            if (!revisions.some(revision => revision.version === version)) {
+                throw new HttpError(404, `Memory ${memoryId} has no version ${version}`);
+            }
+            await memory.rollbackMemory(memoryId, version);
+            const restored = await memory.getMemory(memoryId);
+            sendJson(res, 200, { memory: restored && serializeMemory(restored) });
+        }
+    },
+    {
+        // Memories reachable by following links, breadth-first.
+        method: 'GET',
+        path: /^\/memories\/([^/]+)\/neighbors$/,
+        handler: async ({ res, url, params, memory }) => {
+            const [memoryId] = params;
+            const hops = optionalInteger(url.searchParams.get('hops'), 'hops', 1, 3) ?? 1;
+            const types = url.searchParams.getAll('type');
+            await requireMemory(memory, memoryId);
+            const neighbors = await memory.getNeighbors(memoryId, hops, types.length > 0 ? types : undefined);
+            sendJson(res, 200, {
+                neighbors: neighbors.map(neighbor => ({
+                    memory: serializeMemory(neighbor.memory),
+                    fromId: neighbor.fromId,
+                    type: neighbor.type,
+                    depth: neighbor.depth
+                }))
+            });
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/memories\/([^/]+)\/links$/,
+        handler: async ({ req, res, params, memory }) => {
+            const [memoryId] = params;
+            const body = await readJsonBody(req);
+            const targetId = requireString(body, 'targetId');
+            const type = optionalString(body, 'type') || DEFAULT_EDGE_TYPE;
+            try {
+                validateEdgeType(type);
+            } catch (error: any) {
+                throw new HttpError(400, error.message);
+            }
+            await requireMemory(memory, memoryId);
+            await requireMemory(memory, targetId);
+            if (memoryId === targetId) {
+                throw new HttpError(400, 'A memory cannot be linked to itself');
+            }
+            await memory.linkMemories(memoryId, targetId, type);
+            const updated = await memory.getMemory(memoryId);
+            sendJson(res, 200, { memory: updated && serializeMemory(updated) });
+        }
+    },
+    {
+        method: 'DELETE',
+        path: /^\/memories\/([^/]+)\/links\/([^/]+)$/,
+        handler: async ({ res, url, params, memory }) => {
+            const [memoryId, targetId] = params;
+            await requireMemory(memory, memoryId);
+            await memory.unlinkMemories(memoryId, targetId, url.searchParams.get('type') || undefined);
+            res.writeHead(204);
+            res.end();
+        }
+    },
+    {
+        // Adds a document, or updates the one added earlier under the same source.
+        method: 'POST',
+        path: /^\/documents$/,
+        handler: async ({ req, res, memory }) => {
+            const body = await readJsonBody(req);
+            const source = requireString(body, 'source');
+            const report = await memory.syncDocument(source, requireChunks(body, source));
+            sendJson(res, report.added > 0 ? 201 : 200, report);
+        }
+    },
+    {
+        method: 'DELETE',
+        path: /^\/documents$/,
+        handler: async ({ res, url, memory }) => {
+            const source = url.searchParams.get('source');
+            if (!source) throw new HttpError(400, '"source" query parameter is required');
+            const report = await memory.syncDocument(source, []);
+            if (report.removed === 0) throw new HttpError(404, `Document ${source} not found`);
+            res.writeHead(204);
+            res.end();
+        }
+    },
+    {
+        // Current structured facts, optionally about one entity.
+        method: 'GET',
+        path: /^\/facts$/,
+        handler: async ({ res, url, memory }) => {
+            const subject = url.searchParams.get('subject') || undefined;
+            sendJson(res, 200, { facts: await memory.listFacts(subject) });
+        }
+    },
+    {
+        // The current value (null when retracted) plus every value the key has had, oldest first.
+        method: 'GET',
+        path: /^\/facts\/([^/]+)$/,
+        handler: async ({ res, params, memory }) => {
+            const key = requireFactKey(params[0]);
+            const history = await memory.getFactHistory(key);
+            if (history.length === 0) {
+                throw new HttpError(404, `No fact ${key}`);
+            }
+            sendJson(res, 200, { fact: await memory.getFact(key), history });
+        }
+    },
+    {
+        method: 'PUT',
+        path: /^\/facts\/([^/]+)$/,
+        handler: async ({ req, res, params, memory }) => {
+            const key = requireFactKey(params[0]);
+            const body = await readJsonBody(req);
+            const value = requireString(body, 'value');
+            const change = await memory.setFact(key, value);
+            sendJson(res, change.outcome === 'created' ? 201 : 200, change);
+        }
+    },
+    {
+        // Everything known about an entity: facts, replaced values and source memories.
+        method: 'GET',
+        path: /^\/entities\/([^/]+)$/,
+        handler: async ({ res, params, memory }) => {
+            const entity = await memory.getEntity(params[0]);
+            sendJson(res, 200, { ...entity, memories: entity.memories.map(serializeMemory) });
+        }
+    },
+    {
+        // Open reminders, soonest first; ?all=true includes done and cancelled ones.
+        method: 'GET',
+        path: /^\/reminders$/,
+        handler: async ({ res, url, memory }) => {
+            sendJson(res, 200, { reminders: await memory.listReminders(url.searchParams.get('all') === 'true') });
+        }
+    },
+    {
+        // The time is read from the text, e.g. "call mom Friday at 5" or "water the plants every morning".
+        method: 'POST',
+        path: /^\/reminders$/,
+        handler: async ({ req, res, memory }) => {
+            const body = await readJsonBody(req);
+            const text = requireString(body, 'text');
+            let timeZone: string;
+            try {
+                timeZone = validateTimeZone(optionalString(body, 'timeZone') || defaultTimeZone());
+            } catch (error: any) {
+                throw new HttpError(400, error.message);
+            }
+            const parsed = requireTime(text, timeZone);
+            if (!parsed.text) {
+                throw new HttpError(400, '"text" needs to say what to remind of');
+            }
+            const sourceMemoryId = optionalString(body, 'sourceMemoryId') || null;
+            if (sourceMemoryId) await requireMemory(memory, sourceMemoryId);
+            const reminder = await memory.addReminder({ ...parsed, timeZone, sourceMemoryId });
+            sendJson(res, 201, { reminder });
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/reminders\/([^/]+)\/snooze$/,
+        handler: async ({ req, res, params, memory }) => {
+            const [reminderId] = params;
+            const body = await readJsonBody(req);
+            const reminder = await requireReminder(memory, reminderId);
+            const until = requireTime(optionalString(body, 'until') || 'in 10 minutes', reminder.timeZone);
+            sendJson(res, 200, { reminder: await memory.snoozeReminder(reminderId, until.dueAt) });
+        }
+    },
+    {
+        method: 'POST',
+        path: /^\/reminders\/([^/]+)\/complete$/,
+        handler: async ({ res, params, memory }) => {
+            const [reminderId] = params;
+            await requireReminder(memory, reminderId);
+            sendJson(res, 200, { reminder: await memory.completeReminder(reminderId) });
+        }
+    },
+    {
+        method: 'DELETE',
+        path: /^\/reminders\/([^/]+)$/,
+        handler: async ({ res, params, memory }) => {
+            const [reminderId] = params;
+            await requireReminder(memory, reminderId);
+            await memory.cancelReminder(reminderId);
+            res.writeHead(204);
+            res.end();
+        }
+    },
+    {
+        // Merges near-duplicate memories across the user's whole corpus (or, with dryRun, just
+        // reports the clusters) and optionally consolidates the given memories.
+        method: 'POST',
+        path: /^\/admin\/maintenance$/,
+        admin: true,
+        handler: async ({ req, res, memory }) => {
+            const body = await readJsonBody(req);
+            const consolidateIds = optionalStringArray(body, 'consolidate') || [];
+            if (consolidateIds.length > 0 && consolidateIds.length < 3) {
+                throw new HttpError(400, '"consolidate" needs at least 3 memory ids');
+            }
+            if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+                throw new HttpError(400, '"dryRun" must be a boolean');
+            }
+            const dryRun = body.dryRun === true;
+
+            if (isMaintenanceRunning(memory.userId)) {
+                throw new HttpError(409, 'Maintenance is already running for this user');
+            }
+
+            const toConsolidate = await Promise.all(consolidateIds.map(id => requireMemory(memory, id)));
+            const report = await runMaintenance(memory, { dryRun });
+            if (!dryRun) {
+                await memory.consolidateThreadMemories(toConsolidate);
+            }
+            sendJson(res, 200, { report, consolidated: dryRun ? 0 : toConsolidate.length });
+        }
+    }
+];
+
+// Decodes a path parameter; a malformed escape is the client's error.
+function decodeParam(param: string): string {
+    try {
+        return decodeURIComponent(param);
+    } catch {
+        throw new HttpError(400, `Malformed path parameter "${param}"`);
+    }
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse, auth: ApiAuth) {
+    // Unauthenticated callers learn nothing, not even which routes exist.
+    const caller = authenticate(req, auth);
+    const url = new URL(req.url || '/', 'http://localhost');
+    const matching = routes.filter(route => route.path.test(url.pathname));
+    const route = matching.find(candidate => candidate.method === req.method);
+    if (!route) {
+        throw matching.length > 0
+            ? new HttpError(405, `Method ${req.method} not allowed`)
+            : new HttpError(404, `No route for ${url.pathname}`);
+    }
+
+    if (route.admin) requireAdmin(caller, auth);
+    const { userId } = caller;
+    let memory: MemoryManager;
+    try {
+        memory = chatbot.getMemoryManager(userId);
+    } catch {
+        throw new HttpError(400, 'Invalid X-User-Id header');
+    }
+
+    const params = (route.path.exec(url.pathname) || []).slice(1).map(decodeParam);
+    await route.handler({ req, res, url, params, userId, memory });
+}
+
+function startServer() {
+    const auth = readApiAuth();
+    // Read up front so a bad setting stops the server before it listens.
+    const reminderIntervalMs = reminderCheckInterval();
+    const maintenanceIntervalMs = maintenanceInterval();
+    const port = parseInt(process.env.PETER_PORT || '3000', 10);
+    const host = process.env.PETER_HOST || '127.0.0.1';
+
+    const server = createServer((req, res) => {
+        handleRequest(req, res, auth).catch(error => sendError(res, error));
+    });
+    server.listen(port, host, () => {
+        console.log(`Peter API listening on http://${host}:${port}`);
+    });
+
+    chatbot.getMemoryManager(DEFAULT_USER).migrateLegacyMemories()
+        .catch(error => log.error('Error in migrating legacy memories', { error }));
+
+    // Due reminders are brought up in the user's next /chat reply.
+    scheduleReminders(chatbot.getMemoryManager(DEFAULT_USER), reminderIntervalMs);
+
+    if (maintenanceIntervalMs !== null) {
+        scheduleMaintenance(chatbot.getMemoryManager(DEFAULT_USER), maintenanceIntervalMs);
+    }
+
+    // Finish storing the messages already answered, and save the embedding cache and traces, before exiting.
+    const shutdown = () => {
+        server.close();
+        chatbot.flushIngestion()
+            .then(() => chatbot.getMemoryManager(DEFAULT_USER).flushEmbeddingCache())
+            .then(() => flushTraces())
+            .catch(error => log.error('Error in shutdown', { error }))
+            .finally(() => process.exit(0));
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+}
+
+startServer();
@@ -1,9 +1,17 @@
 import { Pinecone } from '@pinecone-database/pinecone';
 import * as dotenv from 'dotenv';
+import { createEmbedderFromEnv } from './providers.ts';
 
 dotenv.config();
 
 async function setupPinecone() {
+    if ((process.env.VECTOR_STORE || 'pinecone').toLowerCase() !== 'pinecone') {
+        console.log('VECTOR_STORE is not "pinecone", nothing to set up');
+        return;
+    }
+
+    const indexName = process.env.PINECONE_INDEX || 'personal-assistant';
+
     try {
         const pc = new Pinecone({
             apiKey: process.env.PINECONE_API_KEY!
@@ -11,22 +19,22 @@ async function setupPinecone() {
 
         // Check if index already exists
         const indexList = await pc.listIndexes();
-        if (indexList.indexes?.some((index: { name: string }) => index.name === 'personal-assistant')) {
+        if (indexList.indexes?.some((index: { name: string }) => index.name === indexName)) {
             console.log('Index already exists, skipping creation');
             return;
         }
 
         // Create index for embeddings
-        // Note: dimension should match your embedding model
-        // OpenAI's text-embedding-3-small has 1536 dimensions
+        // The dimension comes from the configured embedding model (PETER_EMBEDDING_MODEL)
+        const { dimension } = createEmbedderFromEnv();
         await pc.createIndex({
-            name: 'personal-assistant',
-            dimension: 1536,
+            name: indexName,
+            dimension,
             metric: 'cosine',
             spec: {
                 serverless: {
-                    cloud: 'aws',
-                    region: 'us-east-1'
+                    cloud: (process.env.PINECONE_CLOUD || 'aws') as 'aws' | 'gcp' | 'azure',
+                    region: process.env.PINECONE_REGION || 'us-east-1'
                 }
             }
         });
@@ -0,0 +1,78 @@
+// HTTP API authentication
+
+import assert from 'node:assert/strict';
+import { IncomingMessage } from 'http';
+import { describe, it } from 'node:test';
+import { ApiAuth, authenticate, parseUserTokens, requireAdmin } from '../apiAuth.ts';
+
+const auth: ApiAuth = {
+    apiToken: 'shared-token',
+    adminToken: 'admin-token',
+    userTokens: [{ userId: 'alice', token: 'alice-token' }, { userId: 'bob', token: 'bob-token' }],
+    trustUserHeader: false
+};
+
+function request(token?: string, userId?: string): IncomingMessage {
+    const headers: Record<string, string> = {};
+    if (token) headers.authorization = `Bearer ${token}`;
+    if (userId) headers['x-user-id'] = userId;
+    return { headers } as IncomingMessage;
+}
+
+describe('authenticate', () => {
+    it('rejects a missing or unknown token with 401', () => {
+        assert.throws(() => authenticate(request(), auth), { status: 401 });
+        assert.throws(() => authenticate(request('guess'), auth), { status: 401 });
+    });
+
+    it('binds a user token to its user', () => {
+        assert.deepEqual(authenticate(request('alice-token'), auth), { userId: 'alice', admin: false });
+        assert.deepEqual(authenticate(request('alice-token', 'alice'), auth), { userId: 'alice', admin: false });
+        assert.throws(() => authenticate(request('alice-token', 'bob'), auth), { status: 403 });
+    });
+
+    it('lets the shared token pick another user only when the header is trusted', () => {
+        assert.deepEqual(authenticate(request('shared-token'), auth), { userId: 'default', admin: false });
+        assert.throws(() => authenticate(request('shared-token', 'alice'), auth), { status: 403 });
+        assert.deepEqual(
+            authenticate(request('shared-token', 'alice'), { ...auth, trustUserHeader: true }),
+            { userId: 'alice', admin: false }
+        );
+    });
+
+    it('lets the admin token act as any user', () => {
+        assert.deepEqual(authenticate(request('admin-token', 'bob'), auth), { userId: 'bob', admin: true });
+    });
+});
+
+describe('requireAdmin', () => {
+    it('refuses admin routes to every other token', () => {
+        for (const token of ['shared-token', 'alice-token']) {
+            assert.throws(() => requireAdmin(authenticate(request(token), auth), auth), { status: 403 });
+        }
+        assert.doesNotThrow(() => requireAdmin(authenticate(request('admin-token'), auth), auth));
+    });
+
+    it('refuses admin routes to everyone when no admin token is configured', () => {
+        const withoutAdmin = { ...auth, adminToken: undefined };
+        assert.throws(
+            () => requireAdmin(authenticate(request('shared-token'), withoutAdmin), withoutAdmin),
+            { status: 403, message: /PETER_ADMIN_TOKEN/ }
+        );
+    });
+});
+
+describe('parseUserTokens', () => {
+    it('reads "userId:token" pairs, allowing colons in the token', () => {
+        assert.deepEqual(parseUserTokens(' alice:a1, bob:b:2 ,'), [
+            { userId: 'alice', token: 'a1' },
+            { userId: 'bob', token: 'b:2' }
+        ]);
+    });
+
+    it('rejects malformed pairs and invalid user IDs', () => {
+        assert.throws(() => parseUserTokens('alice'), /PETER_USER_TOKENS/);
+        assert.throws(() => parseUserTokens(':token'), /PETER_USER_TOKENS/);
+        assert.throws(() => parseUserTokens('bad user:token'), /Invalid user id/);
+    });
+});
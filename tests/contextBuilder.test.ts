@@ -0,0 +1,91 @@
+// token-budgeted prompt assembly
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { ContextBuilder } from '../contextBuilder.ts';
+import { LocalChatProvider } from '../localProvider.ts';
+import { Memory } from '../memoryManager.ts';
+import { ThreadMessage } from '../threadStore.ts';
+
+const model = new LocalChatProvider();
+
+function memory(id: string, summary: string): Memory {
+    return {
+        id,
+        content: summary,
+        embedding: [],
+        metadata: { summary, type: 'important', timestamp: 0, lastAccessed: 0, importance: 0.5, version: 1 }
+    };
+}
+
+function thread(turns: number, words: number): ThreadMessage[] {
+    return Array.from({ length: turns * 2 }, (_, i) => ({
+        role: i % 2 === 0 ? 'user' : 'assistant',
+        content: `message ${i} ${'word '.repeat(words)}`,
+        timestamp: i
+    }));
+}
+
+describe('ContextBuilder', () => {
+    const saved = process.env.PETER_CONTEXT_TOKENS;
+
+    afterEach(() => {
+        if (saved === undefined) delete process.env.PETER_CONTEXT_TOKENS;
+        else process.env.PETER_CONTEXT_TOKENS = saved;
+    });
+
+    it('reads the budget from PETER_CONTEXT_TOKENS, capped by the model\'s window', () => {
+        process.env.PETER_CONTEXT_TOKENS = '1000';
+        assert.equal(new ContextBuilder(model, model).budget, 1000);
+        process.env.PETER_CONTEXT_TOKENS = '1000000';
+        assert.equal(new ContextBuilder(model, model).budget, 8192 - 1024);
+    });
+
+    it('rejects a budget that is not a positive integer', () => {
+        for (const tokens of ['lots', '0', '-100', '1.5']) {
+            process.env.PETER_CONTEXT_TOKENS = tokens;
+            assert.throws(() => new ContextBuilder(model, model), /PETER_CONTEXT_TOKENS/);
+        }
+    });
+
+    it('keeps memories within their share, best first', async () => {
+        const builder = new ContextBuilder(model, model, { maxTokens: 300, memoryShare: 0.5 });
+        const long = 'detail '.repeat(100);
+        const { report } = await builder.build({
+            persona: 'You are Peter.',
+            memories: [memory('a', 'Likes tea'), memory('b', long), memory('c', 'Lives in Lisbon')],
+            history: [],
+            message: 'Hello'
+        });
+
+        assert.deepEqual(report.memories, { included: ['a', 'c'], cut: ['b'] });
+        assert.ok(report.used <= report.budget);
+    });
+
+    it('folds turns that no longer fit into a rolling summary', async () => {
+        const summarizer = new LocalChatProvider('stub', () => 'They talked about tea.');
+        const builder = new ContextBuilder(model, summarizer, { maxTokens: 400 });
+        const history = thread(10, 20);
+
+        const { messages, report, summary } = await builder.build({ persona: 'You are Peter.', memories: [], history, message: 'And now?' });
+
+        assert.ok(report.summaryUpdated);
+        assert.equal(summary?.messageCount, history.length - report.history.included);
+        assert.ok(report.history.included > 0 && report.history.included < history.length);
+        assert.ok(messages.some(message => message.content.includes('They talked about tea.')));
+        // The verbatim turns that follow the summary open with the user.
+        assert.equal(messages.find(message => message.role !== 'system')?.role, 'user');
+        assert.ok(report.used <= report.budget);
+    });
+
+    it('drops the overflow when summarizing fails', async () => {
+        const summarizer = new LocalChatProvider('stub', () => { throw new Error('offline'); });
+        const builder = new ContextBuilder(model, summarizer, { maxTokens: 400 });
+        const history = thread(10, 20);
+
+        const { report, summary } = await builder.build({ persona: 'You are Peter.', memories: [], history, message: 'And now?' });
+
+        assert.equal(summary, null);
+        assert.equal(report.history.dropped, history.length - report.history.included);
+    });
+});
@@ -0,0 +1,47 @@
+// splitting documents into cited chunks
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { chunkDocument, formatOfPath } from '../documentChunker.ts';
+
+describe('chunkDocument', () => {
+    it('splits Markdown by heading, keeping the heading path and offsets', () => {
+        const source = '# Setup\nInstall it.\n\n## Rollback\nRun the previous release.\n';
+        const chunks = chunkDocument(source, 'markdown');
+
+        assert.deepEqual(chunks.map(chunk => chunk.section), ['Setup', 'Setup > Rollback']);
+        const rollback = chunks[1];
+        assert.match(rollback.text, /Run the previous release\./);
+        assert.match(source.slice(rollback.start, rollback.end), /Run the previous release\./);
+    });
+
+    it('splits JSON by key and labels array elements by their name', () => {
+        const source = JSON.stringify({
+            owner: 'Sam',
+            cars: [{ name: 'Civic', plate: 'AB-123' }, { name: 'Golf', plate: 'CD-456' }]
+        });
+        const chunks = chunkDocument(source, 'json', 40);
+
+        assert.deepEqual(chunks.map(chunk => chunk.section), ['owner', 'cars > Civic', 'cars > Golf']);
+        assert.match(chunks[1].text, /plate: AB-123/);
+        assert.equal(source.slice(chunks[0].start, chunks[0].end), '"owner":"Sam"');
+        assert.equal(source.slice(chunks[1].start, chunks[1].end), '{"name":"Civic","plate":"AB-123"}');
+    });
+
+    it('splits CSV by row and text by paragraph within the size limit', () => {
+        const csv = chunkDocument('name,phone\nSam,"555-0100"\nAlex,555-0199\n', 'csv');
+        assert.equal(csv.length, 2);
+        assert.match(csv[0].text, /Sam/);
+        assert.match(csv[0].text, /555-0100/);
+
+        const text = chunkDocument(`${'a '.repeat(30)}\n\n${'b '.repeat(30)}`, 'text', 70);
+        assert.equal(text.length, 2);
+        assert.ok(text.every(chunk => chunk.text.length <= 70));
+    });
+
+    it('tells formats apart by extension', () => {
+        assert.equal(formatOfPath('notes/Setup.MD'), 'markdown');
+        assert.equal(formatOfPath('export.csv'), 'csv');
+        assert.equal(formatOfPath('photo.png'), null);
+    });
+});
@@ -0,0 +1,96 @@
+// the on-disk embedding cache
+
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { CachedEmbeddingProvider, createEmbeddingCache, EmbeddingCache } from '../embeddingCache.ts';
+import { LocalEmbeddingProvider } from '../localProvider.ts';
+import { blockableFile } from './fixtures.ts';
+
+// Counts the texts sent to the model.
+class CountingEmbedder extends LocalEmbeddingProvider {
+    embedded: string[] = [];
+
+    async embed(texts: string[]): Promise<number[][]> {
+        this.embedded.push(...texts);
+        return super.embed(texts);
+    }
+}
+
+describe('EmbeddingCache', () => {
+    let root: string;
+
+    before(async () => {
+        root = await fs.mkdtemp(path.join(tmpdir(), 'peter-cache-'));
+    });
+
+    after(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('evicts the least recently used entries', async () => {
+        const cache = new EmbeddingCache(undefined, 2);
+        await cache.setMany('local:test/2', ['a', 'b'], [[1, 0], [0, 1]]);
+        await cache.getMany('local:test/2', ['a']);
+        await cache.setMany('local:test/2', ['c'], [[1, 1]]);
+
+        const [a, b, c] = await cache.getMany('local:test/2', ['a', 'b', 'c']);
+        assert.deepEqual([a, b, c], [[1, 0], undefined, [1, 1]]);
+        assert.equal(cache.stats().evictions, 1);
+    });
+
+    it('discards vectors stored for another model', async () => {
+        const filePath = path.join(root, 'models.json');
+        const cache = new EmbeddingCache(filePath);
+        await cache.setMany('local:old/2', ['hello'], [[1, 0]]);
+        await cache.flush();
+
+        const reopened = new EmbeddingCache(filePath);
+        assert.deepEqual(await reopened.getMany('local:new/2', ['hello']), [undefined]);
+    });
+
+    it('keeps flushing after a failed write', async () => {
+        const { filePath, block, unblock } = await blockableFile(root, 'cache');
+        const cache = new EmbeddingCache(filePath);
+
+        await cache.setMany('local:test/2', ['hello'], [[1, 0]]);
+        await block();
+        await assert.rejects(cache.flush());
+        await unblock();
+        await cache.setMany('local:test/2', ['world'], [[0, 1]]);
+        await cache.flush();
+
+        const reopened = new EmbeddingCache(filePath);
+        const [hello, world] = await reopened.getMany('local:test/2', ['hello', 'world']);
+        assert.ok(hello && world);
+    });
+
+    it('rejects a cache size that is not a positive integer', () => {
+        const saved = process.env.PETER_EMBEDDING_CACHE_SIZE;
+        try {
+            for (const size of ['lots', '0', '-5', '2.5']) {
+                process.env.PETER_EMBEDDING_CACHE_SIZE = size;
+                assert.throws(() => createEmbeddingCache(), /PETER_EMBEDDING_CACHE_SIZE/);
+            }
+        } finally {
+            if (saved === undefined) delete process.env.PETER_EMBEDDING_CACHE_SIZE;
+            else process.env.PETER_EMBEDDING_CACHE_SIZE = saved;
+        }
+    });
+});
+
+describe('CachedEmbeddingProvider', () => {
+    it('sends only uncached texts to the model, matching them despite whitespace', async () => {
+        const inner = new CountingEmbedder();
+        const embedder = new CachedEmbeddingProvider(inner, new EmbeddingCache());
+
+        const [first] = await embedder.embed(['green  tea']);
+        const [again, other] = await embedder.embed([' green tea', 'black coffee']);
+
+        assert.deepEqual(inner.embedded, ['green  tea', 'black coffee']);
+        assert.deepEqual(again, first.map(value => Math.fround(value)));
+        assert.equal(other.length, inner.dimension);
+    });
+});
@@ -0,0 +1,70 @@
+// structured facts keyed by subject and attribute
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FactStore, parseFactKey } from '../factStore.ts';
+import { LocalChatProvider, LocalEmbeddingProvider } from '../localProvider.ts';
+import { createTestMemory } from './fixtures.ts';
+
+describe('parseFactKey', () => {
+    it('normalizes both parts and needs both', () => {
+        assert.deepEqual(parseFactKey('Sister.Date of Birth'), { subject: 'sister', attribute: 'date_of_birth' });
+        assert.throws(() => parseFactKey('birthday'), /Invalid fact key/);
+        assert.throws(() => parseFactKey('sister.'), /Invalid fact key/);
+    });
+});
+
+describe('FactStore', () => {
+    it('replaces a value under the same key and keeps the old one as history', async () => {
+        const facts = new FactStore();
+        const input = { subject: 'user', attribute: 'city', confidence: 0.8, sourceMemoryId: 'm1' };
+
+        assert.equal((await facts.assert('alice', { ...input, value: 'Lisbon' })).outcome, 'created');
+        assert.equal((await facts.assert('alice', { ...input, value: ' lisbon ' })).outcome, 'unchanged');
+        const change = await facts.assert('alice', { ...input, value: 'Porto', sourceMemoryId: 'm2' });
+
+        assert.equal(change.outcome, 'updated');
+        assert.equal(change.previous?.value, 'Lisbon');
+        assert.deepEqual((await facts.current('alice')).map(fact => fact.value), ['Porto']);
+        const history = await facts.history('alice', 'user', 'city');
+        assert.deepEqual(history.map(fact => [fact.value, fact.validTo === null]), [['Lisbon', false], ['Porto', true]]);
+        assert.deepEqual(await facts.current('bob'), []);
+    });
+
+    it('retracts the facts of a memory, except those it still states', async () => {
+        const facts = new FactStore();
+        await facts.assert('alice', { subject: 'user', attribute: 'city', value: 'Lisbon', confidence: 1, sourceMemoryId: 'm1' });
+        await facts.assert('alice', { subject: 'user', attribute: 'job', value: 'nurse', confidence: 1, sourceMemoryId: 'm1' });
+
+        assert.equal(await facts.retractBySource('alice', 'm1', ['user.job']), 1);
+        assert.deepEqual((await facts.current('alice')).map(fact => fact.attribute), ['job']);
+    });
+});
+
+describe('keyed facts in memories', () => {
+    it('updates the memory a key came from instead of adding a conflicting one', async () => {
+        // Classifies any text naming a city as the user's city.
+        const classifier = new LocalChatProvider('stub', messages => {
+            const text = messages.filter(message => message.role === 'user').pop()?.content || '';
+            const city = /Porto/.test(text) ? 'Porto' : 'Lisbon';
+            return JSON.stringify({
+                salient: true,
+                summary: `Lives in ${city}`,
+                facts: [{ content: `I live in ${city}`, importance: 0.8, subject: 'user', attribute: 'city', value: city }]
+            });
+        });
+        const chat = new LocalChatProvider();
+        const memory = createTestMemory({
+            models: { reply: chat, summarizer: chat, classifier, embedder: new LocalEmbeddingProvider() }
+        });
+
+        const [first] = await memory.addMemory('I live in Lisbon', 'conversation');
+        const [second] = await memory.addMemory('I moved, I live in Porto now', 'conversation');
+
+        assert.equal(second, first);
+        assert.equal((await memory.listMemories()).memories.length, 1);
+        assert.equal((await memory.getMemory(first))?.content, 'I live in Porto');
+        assert.equal((await memory.getFact('user.city'))?.value, 'Porto');
+        assert.deepEqual((await memory.getFactHistory('user.city')).map(fact => fact.value), ['Lisbon', 'Porto']);
+    });
+});
@@ -0,0 +1,43 @@
+// JSON documents on disk
+
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { JsonDocument, readJsonFile } from '../fileStorage.ts';
+import { blockableFile } from './fixtures.ts';
+
+describe('JsonDocument', () => {
+    let root: string;
+
+    before(async () => {
+        root = await fs.mkdtemp(path.join(tmpdir(), 'peter-document-'));
+    });
+
+    after(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('keeps writing after a failed write', async () => {
+        const { filePath, block, unblock } = await blockableFile(root, 'document');
+        const document = new JsonDocument<{ count: number }>(filePath, () => ({ count: 0 }));
+        await document.read();
+
+        await block();
+        await assert.rejects(document.update(value => { value.count++; }));
+        await unblock();
+        await document.update(value => { value.count++; });
+
+        assert.deepEqual(await readJsonFile(filePath, null), { count: 2 });
+    });
+
+    it('persists updates across reopening', async () => {
+        const filePath = path.join(root, 'reopened.json');
+        const document = new JsonDocument<string[]>(filePath, () => []);
+        await document.update(value => { value.push('first'); });
+        await document.update(value => { value.push('second'); });
+
+        assert.deepEqual(await new JsonDocument<string[]>(filePath, () => []).read(), ['first', 'second']);
+    });
+});
@@ -0,0 +1,56 @@
+// shared test setup: offline memory managers and files whose writes can be made to fail
+
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { FactStore } from '../factStore.ts';
+import { LocalChatProvider, LocalEmbeddingProvider } from '../localProvider.ts';
+import { LocalVectorStore } from '../localVectorStore.ts';
+import { MemoryHistoryStore } from '../memoryHistory.ts';
+import { MemoryManager, MemoryManagerOptions } from '../memoryManager.ts';
+import { PendingWriteStore } from '../pendingWrites.ts';
+import { ReminderStore } from '../reminders.ts';
+import { SensitiveDataGuard } from '../sensitiveData.ts';
+
+/**
+ * A memory manager that keeps everything in memory and uses the local models:
+ * the chat models echo (so classification falls back), the embedder is a
+ * hashed bag of words. Options override the defaults.
+ *
+ * @param options Parts of the setup to replace.
+ */
+export function createTestMemory(options: MemoryManagerOptions = {}): MemoryManager {
+    const chat = new LocalChatProvider();
+    return new MemoryManager({
+        store: new LocalVectorStore(),
+        models: { reply: chat, summarizer: chat, classifier: chat, embedder: new LocalEmbeddingProvider() },
+        history: new MemoryHistoryStore(),
+        embeddingCache: null,
+        keywordIndex: null,
+        facts: new FactStore(),
+        reminders: new ReminderStore(),
+        pendingWrites: new PendingWriteStore(),
+        sensitiveData: new SensitiveDataGuard({ key: randomBytes(32) }),
+        ...options
+    });
+}
+
+/**
+ * A file in a fresh directory under root. block swaps the directory for a plain
+ * file, so writes to the file fail until unblock.
+ *
+ * @param root An existing temporary directory.
+ * @param name The directory to create under it.
+ */
+export async function blockableFile(root: string, name: string) {
+    const directory = path.join(root, name);
+    await fs.mkdir(directory);
+    return {
+        filePath: path.join(directory, 'state.json'),
+        block: async () => {
+            await fs.rm(directory, { recursive: true });
+            await fs.writeFile(directory, 'not a directory');
+        },
+        unblock: () => fs.rm(directory)
+    };
+}
@@ -0,0 +1,110 @@
+// hybrid keyword + vector search: query syntax, BM25 and rank fusion
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { containsPhrases, fuseRankings, parseSearchQuery } from '../hybridSearch.ts';
+import { KeywordIndex, tokenize } from '../keywordIndex.ts';
+import { LocalEmbeddingProvider } from '../localProvider.ts';
+import { LocalVectorStore } from '../localVectorStore.ts';
+import { VectorRecord } from '../vectorStore.ts';
+import { createTestMemory } from './fixtures.ts';
+
+function record(id: string, content: string, tags: string[] = []): VectorRecord {
+    return { id, values: [1], metadata: { content, summary: content, tags } };
+}
+
+describe('parseSearchQuery', () => {
+    it('splits operators, phrases and free text', () => {
+        const parsed = parseSearchQuery('tag:Car type:important after:2024-01-01 "AB 123" plate');
+        assert.equal(parsed.text, 'AB 123 plate');
+        assert.deepEqual(parsed.phrases, ['AB 123']);
+        assert.deepEqual(parsed.filter, {
+            $and: [
+                { tags: 'car' },
+                { type: 'important' },
+                { timestamp: { $gte: new Date('2024-01-01T00:00:00').getTime() } }
+            ]
+        });
+    });
+
+    it('leaves plain queries unfiltered and rejects bad dates', () => {
+        assert.deepEqual(parseSearchQuery('where is my car'), { text: 'where is my car', phrases: [], filter: {} });
+        assert.throws(() => parseSearchQuery('before:yesterday'), /Invalid date in before:yesterday/);
+    });
+});
+
+describe('containsPhrases', () => {
+    it('ignores case and spacing', () => {
+        assert.ok(containsPhrases('Plate  ab 123 on the blue car', ['AB 123', 'blue car']));
+        assert.ok(!containsPhrases('Plate AB 124', ['AB 123']));
+    });
+});
+
+describe('fuseRankings', () => {
+    it('ranks results both rankings like above those only one likes', () => {
+        const fused = fuseRankings(
+            [{ id: 'a', score: 0.9 }, { id: 'b', score: 0.8 }],
+            [{ id: 'c', score: 7 }, { id: 'b', score: 5 }]
+        );
+        assert.deepEqual([...fused.keys()], ['b', 'a', 'c']);
+        assert.deepEqual(fused.get('a'), { vector: 0.9, keyword: null, fused: 1 / 61 });
+        assert.equal(fused.get('b')?.keyword, 5);
+    });
+});
+
+describe('KeywordIndex', () => {
+    it('indexes codes however they are typed', () => {
+        assert.deepEqual(tokenize('The plate is AB-123'), ['plate', 'ab', '123', 'ab123']);
+    });
+
+    it('ranks rarer and more concentrated terms higher, per namespace', async () => {
+        const index = new KeywordIndex();
+        await index.add('mine', [
+            record('short', 'plate AB123'),
+            record('long', 'plate AB123 on the car I bought last spring from a dealer in town'),
+            record('common', 'plate')
+        ]);
+        await index.add('theirs', [record('other', 'plate AB123')]);
+
+        const matches = await index.search('mine', 'ab123', 5);
+        assert.deepEqual(matches.map(match => match.id), ['short', 'long']);
+        assert.deepEqual(await index.search('mine', 'unknown', 5), []);
+        await index.remove('mine', ['short']);
+        assert.deepEqual((await index.search('mine', 'ab123', 5)).map(match => match.id), ['long']);
+    });
+});
+
+describe('searchMemoriesComplex', () => {
+    it('finds a filtered keyword match ranked behind more than a page of unfiltered ones', async () => {
+        const store = new LocalVectorStore();
+        const embedder = new LocalEmbeddingProvider();
+        const filler = 'bought last spring from a dealer across town after months of saving up for a reliable family estate with heated seats and a roof rack';
+        const contents = [
+            ...Array.from({ length: 20 }, (_, i) => `Plate number ${i}`),
+            `The plate of my car ${filler}`
+        ];
+        const vectors = await embedder.embed(contents);
+        await store.namespace('memories:default').upsert(contents.map((content, i) => ({
+            id: `memory-${String(i).padStart(2, '0')}`,
+            values: vectors[i],
+            metadata: {
+                content,
+                summary: content,
+                type: 'important',
+                tags: i === 20 ? ['car'] : ['misc'],
+                salient: true,
+                timestamp: i,
+                lastAccessed: i,
+                importance: 0.5,
+                version: 1
+            }
+        })));
+        const memory = createTestMemory({ store, keywordIndex: new KeywordIndex() });
+
+        const results = await memory.searchMemoriesComplex('tag:car plate', {}, 1);
+
+        assert.deepEqual(results.map(result => result.id), ['memory-20']);
+        assert.equal(results[0].match?.vector, null);
+        assert.ok(results[0].match?.keyword);
+    });
+});
@@ -0,0 +1,74 @@
+// background ingestion with per-user ordering
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { IngestionQueue } from '../ingestionQueue.ts';
+
+// A job that records when it starts and finishes, and waits until released.
+function gatedJob(events: string[], name: string): { job: () => Promise<void>, release: () => void } {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    return {
+        job: async () => {
+            events.push(`start ${name}`);
+            await gate;
+            events.push(`end ${name}`);
+        },
+        release
+    };
+}
+
+describe('IngestionQueue', () => {
+    it('runs one user\'s jobs in order and other users\' jobs alongside', async () => {
+        const queue = new IngestionQueue(2);
+        const events: string[] = [];
+        const austin = gatedJob(events, 'alice:austin');
+        const denver = gatedJob(events, 'alice:denver');
+        const bob = gatedJob(events, 'bob');
+
+        queue.enqueue('alice', austin.job);
+        queue.enqueue('alice', denver.job);
+        queue.enqueue('bob', bob.job);
+        assert.deepEqual(events, ['start alice:austin', 'start bob']);
+        assert.equal(queue.size, 3);
+
+        denver.release();
+        bob.release();
+        await new Promise(resolve => setImmediate(resolve));
+        assert.ok(!events.includes('start alice:denver'));
+
+        austin.release();
+        await queue.flush();
+        assert.ok(events.indexOf('end alice:austin') < events.indexOf('start alice:denver'));
+        assert.equal(queue.size, 0);
+    });
+
+    it('keeps to its concurrency across users', async () => {
+        const queue = new IngestionQueue(1);
+        const events: string[] = [];
+        const first = gatedJob(events, 'alice');
+        const second = gatedJob(events, 'bob');
+
+        queue.enqueue('alice', first.job);
+        queue.enqueue('bob', second.job);
+        assert.deepEqual(events, ['start alice']);
+
+        first.release();
+        second.release();
+        await queue.flush();
+        assert.deepEqual(events, ['start alice', 'end alice', 'start bob', 'end bob']);
+    });
+
+    it('moves on after a failed job and flushes at once when idle', async () => {
+        const queue = new IngestionQueue(1);
+        const done: string[] = [];
+
+        queue.enqueue('alice', async () => { throw new Error('model down'); });
+        queue.enqueue('alice', async () => { done.push('next'); });
+        await queue.flush();
+
+        assert.deepEqual(done, ['next']);
+        await queue.flush();
+        assert.throws(() => new IngestionQueue(0), /positive integer/);
+    });
+});
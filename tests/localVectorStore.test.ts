@@ -0,0 +1,80 @@
+// the file-backed local vector store
+
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { LocalVectorStore } from '../localVectorStore.ts';
+import { VectorRecord } from '../vectorStore.ts';
+import { blockableFile } from './fixtures.ts';
+
+function record(id: string, values: number[], metadata: VectorRecord['metadata']): VectorRecord {
+    return { id, values, metadata };
+}
+
+describe('LocalVectorStore', () => {
+    let root: string;
+
+    before(async () => {
+        root = await fs.mkdtemp(path.join(tmpdir(), 'peter-vectors-'));
+    });
+
+    after(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('ranks matches by cosine similarity within the filter', async () => {
+        const store = new LocalVectorStore();
+        await store.upsert([
+            record('a', [1, 0], { type: 'important', tags: ['work'] }),
+            record('b', [0.9, 0.1], { type: 'conversation', tags: ['home'] }),
+            record('c', [0, 1], { type: 'important', tags: ['home'] })
+        ]);
+
+        const all = await store.query({ vector: [1, 0], topK: 2 });
+        assert.deepEqual(all.map(match => match.id), ['a', 'b']);
+        const home = await store.query({ vector: [1, 0], topK: 5, filter: { tags: { $in: ['home'] }, type: 'important' } });
+        assert.deepEqual(home.map(match => match.id), ['c']);
+    });
+
+    it('keeps namespaces apart', async () => {
+        const store = new LocalVectorStore();
+        await store.namespace('alice').upsert([record('a', [1, 0], { content: 'alice' })]);
+        await store.namespace('bob').upsert([record('b', [1, 0], { content: 'bob' })]);
+
+        assert.deepEqual(await store.namespace('alice').fetch(['a', 'b']), [record('a', [1, 0], { content: 'alice' })]);
+        assert.deepEqual((await store.listNamespaces()).sort(), ['alice', 'bob']);
+        await store.deleteNamespace('alice');
+        assert.deepEqual(await store.listNamespaces(), ['bob']);
+    });
+
+    it('pages through records with a cursor', async () => {
+        const store = new LocalVectorStore();
+        await store.upsert(['d', 'b', 'a', 'c', 'e'].map(id => record(id, [1], { content: id })));
+
+        const ids: string[] = [];
+        let cursor: string | undefined;
+        do {
+            const page = await store.list({ limit: 2, cursor });
+            ids.push(...page.records.map(entry => entry.id));
+            cursor = page.cursor;
+        } while (cursor);
+        assert.deepEqual(ids, ['a', 'b', 'c', 'd', 'e']);
+    });
+
+    it('keeps persisting after a failed write', async () => {
+        const { filePath, block, unblock } = await blockableFile(root, 'vectors');
+        const store = new LocalVectorStore(filePath);
+        await store.list();
+
+        await block();
+        await assert.rejects(store.upsert([record('a', [1, 0], { content: 'first' })]));
+        await unblock();
+        await store.upsert([record('b', [0, 1], { content: 'second' })]);
+
+        const reopened = new LocalVectorStore(filePath);
+        const page = await reopened.list();
+        assert.deepEqual(page.records.map(entry => entry.id), ['a', 'b']);
+    });
+});
@@ -0,0 +1,47 @@
+// memory revision history and rollback
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createTestMemory } from './fixtures.ts';
+
+describe('memory history', () => {
+    it('keeps every replaced state with the reason it changed', async () => {
+        const memory = createTestMemory();
+        const [id] = await memory.addMemory('My office is on the third floor', 'important');
+        await memory.editMemory(id, 'My office is on the fifth floor');
+        await memory.editMemory(id, 'My office is on the sixth floor', undefined, 'conflict-resolution');
+
+        const history = await memory.getMemoryHistory(id);
+        assert.deepEqual(history.map(revision => [revision.version, revision.reason]), [
+            [1, 'user-edit'],
+            [2, 'conflict-resolution']
+        ]);
+        assert.equal(history[0].content, 'My office is on the third floor');
+        assert.equal((await memory.getMemory(id))?.metadata.version, 3);
+    });
+
+    it('rolls back as a new version, keeping the replaced state', async () => {
+        const memory = createTestMemory();
+        const [id] = await memory.addMemory('My office is on the third floor', 'important', ['work']);
+        await memory.editMemory(id, 'My office is on the fifth floor');
+
+        await memory.rollbackMemory(id, 1);
+
+        const restored = await memory.getMemory(id);
+        assert.equal(restored?.content, 'My office is on the third floor');
+        assert.deepEqual(restored?.metadata.tags, ['work']);
+        assert.equal(restored?.metadata.version, 3);
+        const history = await memory.getMemoryHistory(id);
+        assert.deepEqual(history.map(revision => [revision.version, revision.reason, revision.content]), [
+            [1, 'user-edit', 'My office is on the third floor'],
+            [2, 'rollback', 'My office is on the fifth floor']
+        ]);
+    });
+
+    it('rejects a version the memory never had', async () => {
+        const memory = createTestMemory();
+        const [id] = await memory.addMemory('My office is on the third floor', 'important');
+
+        await assert.rejects(memory.rollbackMemory(id, 7), /has no version 7/);
+    });
+});
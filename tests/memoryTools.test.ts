@@ -0,0 +1,67 @@
+// memory tools against stores that page before filtering
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { LocalVectorStore } from '../localVectorStore.ts';
+import { createMemoryTools } from '../memoryTools.ts';
+import { ListOptions, ListPage, matchesFilter, VectorStore } from '../vectorStore.ts';
+import { createTestMemory } from './fixtures.ts';
+
+/**
+ * Pages like Pinecone does: a page holds `limit` records of any kind, and the
+ * filter is applied to that page afterwards.
+ */
+class FilterAfterPagingStore implements VectorStore {
+    constructor(private inner: VectorStore) {}
+
+    upsert = (...args: Parameters<VectorStore['upsert']>) => this.inner.upsert(...args);
+    query = (...args: Parameters<VectorStore['query']>) => this.inner.query(...args);
+    fetch = (...args: Parameters<VectorStore['fetch']>) => this.inner.fetch(...args);
+    delete = (...args: Parameters<VectorStore['delete']>) => this.inner.delete(...args);
+    updateMetadata = (...args: Parameters<VectorStore['updateMetadata']>) => this.inner.updateMetadata(...args);
+    listNamespaces = () => this.inner.listNamespaces();
+    deleteNamespace = (name: string) => this.inner.deleteNamespace(name);
+
+    namespace(name: string): VectorStore {
+        return new FilterAfterPagingStore(this.inner.namespace(name));
+    }
+
+    async list({ filter, limit, cursor }: ListOptions = {}): Promise<ListPage> {
+        const page = await this.inner.list({ limit, cursor });
+        return { records: page.records.filter(record => matchesFilter(record.metadata, filter)), cursor: page.cursor };
+    }
+}
+
+describe('list_memories_by_tag', () => {
+    it('collects tagged memories across pages', async () => {
+        const store = new FilterAfterPagingStore(new LocalVectorStore());
+        const memory = createTestMemory({ store });
+        // The tagged memories sort last, behind more than a page of untagged ones.
+        const records = Array.from({ length: 250 }, (_, i) => {
+            const tagged = i >= 240;
+            return {
+                id: `${tagged ? 'z' : 'a'}-${String(i).padStart(3, '0')}`,
+                values: [1, 0],
+                metadata: {
+                    content: `memory ${i}`,
+                    summary: `memory ${i}`,
+                    type: 'important',
+                    tags: tagged ? ['family'] : ['work'],
+                    timestamp: i,
+                    lastAccessed: i,
+                    importance: 0.5,
+                    version: 1
+                }
+            };
+        });
+        await store.namespace('memories:default').upsert(records);
+
+        const tool = createMemoryTools(memory).find(candidate => candidate.definition.name === 'list_memories_by_tag')!;
+        const all = await tool.run({ tag: 'Family' }) as { id: string }[];
+        const some = await tool.run({ tag: 'family', limit: 4 }) as { id: string }[];
+
+        assert.equal(all.length, 10);
+        assert.ok(all.every(entry => entry.id.startsWith('z-')));
+        assert.equal(some.length, 4);
+    });
+});
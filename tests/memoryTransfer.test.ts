@@ -0,0 +1,51 @@
+// memory export / import round trips
+
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { exportMemories, importMemories } from '../memoryTransfer.ts';
+import { createTestMemory } from './fixtures.ts';
+
+describe('memory export', () => {
+    let directory: string;
+
+    before(async () => {
+        directory = await fs.mkdtemp(path.join(tmpdir(), 'peter-transfer-'));
+    });
+
+    after(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('imports what it exported, keeping IDs, tags and embeddings', async () => {
+        const source = createTestMemory();
+        const [teaId] = await source.addMemory('My favourite tea is sencha', 'important', ['drinks']);
+        const [bikeId] = await source.addMemory('I ride a blue bicycle to work', 'important', ['travel']);
+        const file = path.join(directory, 'round-trip.jsonl');
+
+        assert.equal(await exportMemories(source, file, true), 2);
+
+        const target = createTestMemory();
+        const report = await importMemories(target, file);
+        assert.deepEqual(report.errors, []);
+        assert.equal(report.reembedded, false);
+        assert.deepEqual([...report.created].sort(), [teaId, bikeId].sort());
+
+        const [original] = (await source.listMemories({ includeEmbeddings: true })).memories.filter(entry => entry.id === teaId);
+        const imported = await target.getMemory(teaId);
+        assert.ok(imported);
+        assert.equal(imported.content, original.content);
+        assert.deepEqual(imported.metadata.tags, original.metadata.tags);
+        const [stored] = (await target.listMemories({ includeEmbeddings: true })).memories.filter(entry => entry.id === teaId);
+        assert.deepEqual(stored.embedding, original.embedding);
+    });
+
+    it('rejects a destination that cannot be written', async () => {
+        const memory = createTestMemory();
+        await memory.addMemory('My favourite tea is sencha', 'important');
+
+        await assert.rejects(exportMemories(memory, directory), { code: 'EISDIR' });
+    });
+});
@@ -0,0 +1,55 @@
+// replaying queued memory writes when the classifier fails
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { LocalChatProvider, LocalEmbeddingProvider, LocalResponder } from '../localProvider.ts';
+import { MemoryManager } from '../memoryManager.ts';
+import { ServiceUnavailableError } from '../resilience.ts';
+import { createTestMemory } from './fixtures.ts';
+
+function createMemory(classify: LocalResponder): MemoryManager {
+    const chat = new LocalChatProvider();
+    return createTestMemory({
+        models: {
+            reply: chat,
+            summarizer: chat,
+            classifier: new LocalChatProvider('stub', classify),
+            embedder: new LocalEmbeddingProvider()
+        }
+    });
+}
+
+describe('replayPendingWrites', () => {
+    it('keeps a write queued while the classifier is unavailable', async () => {
+        let available = false;
+        const memory = createMemory(() => {
+            if (!available) throw new ServiceUnavailableError('classifier', 'classifier is unavailable');
+            return JSON.stringify({
+                salient: true,
+                summary: 'Likes green tea',
+                facts: [{ content: 'Likes green tea', importance: 0.8, tags: [] }]
+            });
+        });
+        await memory.queueMemory('I really like green tea', 'conversation');
+
+        const failed = await memory.replayPendingWrites();
+        assert.deepEqual(failed.stored, []);
+        assert.equal(failed.remaining.length, 1);
+        assert.equal(failed.remaining[0].attempts, 1);
+
+        available = true;
+        const replayed = await memory.replayPendingWrites();
+        assert.equal(replayed.stored.length, 1);
+        assert.equal(replayed.stored[0].memoryIds.length, 1);
+        assert.deepEqual(replayed.remaining, []);
+    });
+
+    it('drops a write the classifier answers with an invalid reply', async () => {
+        const memory = createMemory(() => 'not json');
+        await memory.queueMemory('I really like green tea', 'conversation');
+
+        const replay = await memory.replayPendingWrites();
+        assert.deepEqual(replay.stored.map(entry => entry.memoryIds), [[]]);
+        assert.deepEqual(replay.remaining, []);
+    });
+});
@@ -0,0 +1,26 @@
+// model configuration from the environment
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { createEmbedderFromEnv } from '../providers.ts';
+
+describe('createEmbedderFromEnv', () => {
+    afterEach(() => {
+        delete process.env.PETER_EMBEDDING_MODEL;
+        delete process.env.PETER_EMBEDDING_DIMENSION;
+    });
+
+    it('uses the configured dimension', () => {
+        process.env.PETER_EMBEDDING_MODEL = 'local:hashed-bow';
+        process.env.PETER_EMBEDDING_DIMENSION = '64';
+        assert.equal(createEmbedderFromEnv().dimension, 64);
+    });
+
+    for (const setting of ['sixty-four', '0', '-3', '1.5', '64px']) {
+        it(`rejects a dimension of "${setting}"`, () => {
+            process.env.PETER_EMBEDDING_MODEL = 'local:hashed-bow';
+            process.env.PETER_EMBEDDING_DIMENSION = setting;
+            assert.throws(() => createEmbedderFromEnv(), /PETER_EMBEDDING_DIMENSION must be a positive integer/);
+        });
+    }
+});
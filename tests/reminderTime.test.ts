@@ -0,0 +1,81 @@
+// reading reminder times from text
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { nextOccurrence, parseReminderRequest, parseWhen } from '../reminderTime.ts';
+
+// Wednesday, March 12 2025, 10:00 UTC.
+const now = Date.UTC(2025, 2, 12, 10, 0);
+const utc = { now, timeZone: 'UTC' };
+
+describe('parseWhen', () => {
+    it('reads relative times', () => {
+        assert.deepEqual(parseWhen('call mom in 20 minutes', utc), {
+            dueAt: now + 20 * 60 * 1000,
+            recurrence: null,
+            text: 'call mom'
+        });
+        assert.equal(parseWhen('in an hour', utc)?.dueAt, now + 60 * 60 * 1000);
+    });
+
+    it('reads days and times, with bare early hours in the afternoon', () => {
+        assert.equal(parseWhen('call mom Friday at 5', utc)?.dueAt, Date.UTC(2025, 2, 14, 17, 0));
+        assert.equal(parseWhen('tomorrow', utc)?.dueAt, Date.UTC(2025, 2, 13, 9, 0));
+        assert.equal(parseWhen('March 20 at 5:30pm', utc)?.dueAt, Date.UTC(2025, 2, 20, 17, 30));
+        assert.equal(parseWhen('2025-04-01 at noon', utc)?.dueAt, Date.UTC(2025, 3, 1, 12, 0));
+    });
+
+    it('puts a time already past today on the next day', () => {
+        assert.equal(parseWhen('at 9am', utc)?.dueAt, Date.UTC(2025, 2, 13, 9, 0));
+        assert.equal(parseWhen('at 11am', utc)?.dueAt, Date.UTC(2025, 2, 12, 11, 0));
+    });
+
+    it('reads recurrence', () => {
+        assert.deepEqual(parseWhen('water the plants every other week', utc)?.recurrence, { unit: 'week', interval: 2 });
+        assert.deepEqual(parseWhen('pay rent monthly', utc)?.recurrence, { unit: 'month', interval: 1 });
+        assert.equal(parseWhen('pay rent monthly', utc)?.text, 'pay rent');
+    });
+
+    it('reads the clock of the given time zone across a daylight saving change', () => {
+        // New York moves to daylight saving time on March 9 2025.
+        const saturday = Date.UTC(2025, 2, 8, 15, 0);
+        const parsed = parseWhen('tomorrow at 9am', { now: saturday, timeZone: 'America/New_York' });
+        assert.equal(parsed?.dueAt, Date.UTC(2025, 2, 9, 13, 0));
+    });
+
+    it('returns null for text without a time, and rejects unknown zones', () => {
+        assert.equal(parseWhen('buy milk', utc), null);
+        assert.throws(() => parseWhen('tomorrow', { now, timeZone: 'Mars/Olympus' }), /Unknown time zone/);
+    });
+});
+
+describe('parseReminderRequest', () => {
+    it('finds what to be reminded of and when', () => {
+        const parsed = parseReminderRequest('Can you remind me to call mom Friday at 5?', utc);
+        assert.equal(parsed?.text, 'call mom');
+        assert.equal(parsed?.dueAt, Date.UTC(2025, 2, 14, 17, 0));
+    });
+
+    it('ignores messages that are not reminder requests or have no time', () => {
+        assert.equal(parseReminderRequest('I call mom every Friday', utc), null);
+        assert.equal(parseReminderRequest('remind me to call mom', utc), null);
+    });
+});
+
+describe('nextOccurrence', () => {
+    it('keeps the wall-clock time and clamps to the end of shorter months', () => {
+        const january31 = Date.UTC(2025, 0, 31, 9, 0);
+        assert.equal(
+            nextOccurrence(january31, { unit: 'month', interval: 1 }, 'UTC', january31),
+            Date.UTC(2025, 1, 28, 9, 0)
+        );
+    });
+
+    it('skips occurrences that are already past', () => {
+        const monday = Date.UTC(2025, 2, 3, 8, 0);
+        assert.equal(
+            nextOccurrence(monday, { unit: 'week', interval: 1 }, 'UTC', now),
+            Date.UTC(2025, 2, 17, 8, 0)
+        );
+    });
+});
@@ -0,0 +1,57 @@
+// checking for due reminders on a schedule
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { MemoryManager } from '../memoryManager.ts';
+import { reminderCheckInterval, scheduleReminders } from '../reminders.ts';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('reminderCheckInterval', () => {
+    const saved = process.env.PETER_REMINDER_CHECK_SECONDS;
+
+    afterEach(() => {
+        if (saved === undefined) delete process.env.PETER_REMINDER_CHECK_SECONDS;
+        else process.env.PETER_REMINDER_CHECK_SECONDS = saved;
+    });
+
+    it('reads seconds, defaulting to 30', () => {
+        delete process.env.PETER_REMINDER_CHECK_SECONDS;
+        assert.equal(reminderCheckInterval(), 30_000);
+        process.env.PETER_REMINDER_CHECK_SECONDS = '0.5';
+        assert.equal(reminderCheckInterval(), 500);
+    });
+
+    it('rejects values a timer cannot use', () => {
+        for (const seconds of ['0', '-1', 'soon', 'Infinity', '3000000']) {
+            process.env.PETER_REMINDER_CHECK_SECONDS = seconds;
+            assert.throws(() => reminderCheckInterval(), /PETER_REMINDER_CHECK_SECONDS/);
+        }
+    });
+});
+
+describe('scheduleReminders', () => {
+    it('skips a check while the previous one is still running', async () => {
+        let checks = 0;
+        let release!: () => void;
+        const stuck = new Promise<void>(resolve => { release = resolve; });
+        const memory = {
+            fireDueReminders: async () => {
+                checks++;
+                await stuck;
+                return [];
+            }
+        } as unknown as MemoryManager;
+
+        const stop = scheduleReminders(memory, 5);
+        try {
+            await sleep(50);
+            assert.equal(checks, 1);
+            release();
+            await sleep(50);
+            assert.ok(checks > 1);
+        } finally {
+            stop();
+        }
+    });
+});
@@ -0,0 +1,93 @@
+// retries, timeouts and circuit breakers
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+    CallTimeoutError,
+    callWithRetry,
+    CircuitBreaker,
+    isTransientError,
+    ResiliencePolicy,
+    ServiceUnavailableError
+} from '../resilience.ts';
+
+const policy: ResiliencePolicy = { timeoutMs: 50, retries: 2, retryDelayMs: 1, breakerFailures: 10, breakerCooldownMs: 1000 };
+
+function httpError(status: number): Error {
+    return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+describe('isTransientError', () => {
+    it('retries timeouts, rate limits and server errors', () => {
+        assert.ok(isTransientError(new CallTimeoutError('openai', 10)));
+        for (const status of [408, 429, 500, 503]) {
+            assert.ok(isTransientError(httpError(status)), `status ${status}`);
+        }
+        assert.ok(isTransientError({ response: { status: 502 } }));
+        assert.ok(isTransientError(Object.assign(new Error('fetch failed'), { cause: { code: 'ECONNRESET' } })));
+    });
+
+    it('does not retry client errors, conflicts or non-errors', () => {
+        for (const status of [400, 401, 404, 409]) {
+            assert.ok(!isTransientError(httpError(status)), `status ${status}`);
+        }
+        assert.ok(!isTransientError(new Error('Invalid model')));
+        assert.ok(!isTransientError(null));
+        assert.ok(!isTransientError('ECONNRESET'));
+    });
+});
+
+describe('callWithRetry', () => {
+    it('retries transient failures until one succeeds', async () => {
+        let calls = 0;
+        const result = await callWithRetry('retry-success', policy, async () => {
+            if (++calls < 3) throw httpError(503);
+            return 'ok';
+        });
+        assert.equal(result, 'ok');
+        assert.equal(calls, 3);
+    });
+
+    it('gives up with ServiceUnavailableError, and throws other errors at once', async () => {
+        let calls = 0;
+        await assert.rejects(
+            callWithRetry('retry-give-up', policy, async () => { calls++; throw httpError(500); }),
+            ServiceUnavailableError
+        );
+        assert.equal(calls, policy.retries + 1);
+
+        calls = 0;
+        await assert.rejects(callWithRetry('retry-bad-request', policy, async () => { calls++; throw httpError(400); }), /HTTP 400/);
+        assert.equal(calls, 1);
+    });
+
+    it('times out an attempt that does not answer', async () => {
+        await assert.rejects(
+            callWithRetry('retry-timeout', { ...policy, retries: 0 }, () => new Promise(() => {})),
+            ServiceUnavailableError
+        );
+    });
+});
+
+describe('CircuitBreaker', () => {
+    it('opens after repeated transient failures and ignores other errors', async () => {
+        const breaker = new CircuitBreaker('breaker-test', 2, 60_000);
+        await assert.rejects(breaker.run(async () => { throw httpError(400); }));
+        assert.equal(breaker.state, 'closed');
+
+        for (let i = 0; i < 2; i++) {
+            await assert.rejects(breaker.run(async () => { throw httpError(503); }));
+        }
+        assert.equal(breaker.state, 'open');
+        await assert.rejects(breaker.run(async () => 'ok'), ServiceUnavailableError);
+    });
+
+    it('closes again once a call after the cooldown succeeds', async () => {
+        const breaker = new CircuitBreaker('breaker-cooldown', 1, 0);
+        await assert.rejects(breaker.run(async () => { throw httpError(503); }));
+
+        assert.equal(breaker.state, 'half-open');
+        assert.equal(await breaker.run(async () => 'ok'), 'ok');
+        assert.equal(breaker.state, 'closed');
+    });
+});
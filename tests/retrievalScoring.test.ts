@@ -0,0 +1,27 @@
+// scoring configuration from the environment
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { DEFAULT_SCORING, resolveScoringConfig } from '../retrievalScoring.ts';
+
+describe('resolveScoringConfig', () => {
+    afterEach(() => {
+        delete process.env.PETER_SCORING_WEIGHTS;
+    });
+
+    it('uses the defaults when nothing is set', () => {
+        assert.deepEqual(resolveScoringConfig().weights, DEFAULT_SCORING.weights);
+    });
+
+    it('reads four weights', () => {
+        process.env.PETER_SCORING_WEIGHTS = '1, 0, 0.5, 0';
+        assert.deepEqual(resolveScoringConfig().weights, { similarity: 1, recency: 0, importance: 0.5, access: 0 });
+    });
+
+    for (const setting of ['1,1,1', '1,1,1,1,1', '1,,1,1', '1,x,1,1', '1,-1,1,1', '1,Infinity,1,1']) {
+        it(`rejects "${setting}"`, () => {
+            process.env.PETER_SCORING_WEIGHTS = setting;
+            assert.throws(() => resolveScoringConfig(), /PETER_SCORING_WEIGHTS must be four/);
+        });
+    }
+});
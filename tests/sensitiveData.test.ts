@@ -0,0 +1,86 @@
+// personal data detection, the encrypted vault and sensitivity tiers
+
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { detectPii, maxTier, SensitiveDataGuard, tierAllowed, tierOfShieldedText } from '../sensitiveData.ts';
+
+function types(text: string): string[] {
+    return detectPii(text).map(finding => `${finding.type}:${finding.value}`);
+}
+
+describe('detectPii', () => {
+    it('finds contact details, IDs, cards and secrets', () => {
+        assert.deepEqual(types('Mail sam@example.com or call +1 415 555 0100'), ['email:sam@example.com', 'phone:+1 415 555 0100']);
+        assert.deepEqual(types('SSN 123-45-6789, IBAN DE89 3704 0044 0532 0130 00'), ['id:123-45-6789', 'id:DE89 3704 0044 0532 0130 00']);
+        assert.deepEqual(types('Card 4111 1111 1111 1111'), ['card:4111 1111 1111 1111']);
+        assert.deepEqual(types('the wifi password is hunter22'), ['secret:hunter22']);
+        assert.deepEqual(types('key sk-live-abcdefghijklmnop1234'), ['secret:sk-live-abcdefghijklmnop1234']);
+    });
+
+    it('leaves dates, short numbers and numbers failing the card checksum alone', () => {
+        assert.deepEqual(types('On 2024-03-12 at 10:30 I paid 1200 for room 42'), []);
+        assert.deepEqual(types('Order 4111 1111 1111 1112'), []);
+    });
+
+    it('runs only the chosen detectors', () => {
+        assert.deepEqual(detectPii('sam@example.com, 415 555 0100', ['phone']).map(finding => finding.type), ['phone']);
+    });
+});
+
+describe('sensitivity tiers', () => {
+    it('follow the placeholders in a text', () => {
+        assert.equal(tierOfShieldedText('Lives in Lisbon'), 'normal');
+        assert.equal(tierOfShieldedText('Email [EMAIL_0a1b2c3d]'), 'private');
+        assert.equal(tierOfShieldedText('Email [EMAIL] and card [CARD_0a1b2c3d]'), 'secret');
+        assert.equal(maxTier('normal', undefined, 'private'), 'private');
+    });
+
+    it('keep secret memories out of every prompt', () => {
+        assert.ok(tierAllowed('private', 'private'));
+        assert.ok(!tierAllowed('private', 'normal'));
+        assert.ok(!tierAllowed('secret', 'secret'));
+    });
+});
+
+describe('SensitiveDataGuard', () => {
+    let root: string;
+
+    before(async () => {
+        root = await fs.mkdtemp(path.join(tmpdir(), 'peter-vault-'));
+    });
+
+    after(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('encrypts values into the vault and reveals them only for their namespace', async () => {
+        const key = randomBytes(32);
+        const vaultPath = path.join(root, 'vault.json');
+        const guard = new SensitiveDataGuard({ key, vaultPath, mode: 'encrypt', detectors: ['email', 'phone'] });
+
+        const shielded = await guard.shield('Reach Sam at Sam@Example.com', 'memories:alice');
+        assert.match(shielded.text, /^Reach Sam at \[EMAIL_[0-9a-f]{8}\]$/);
+        // The same value, however it is written, gets the same placeholder.
+        assert.equal((await guard.shield('sam@example.com')).text, shielded.text.replace('Reach Sam at ', ''));
+
+        const stored = await fs.readFile(vaultPath, 'utf8');
+        assert.ok(!stored.includes('Example.com'));
+        const reopened = new SensitiveDataGuard({ key, vaultPath, mode: 'encrypt', detectors: ['email', 'phone'] });
+        assert.equal(await reopened.reveal(['memories:alice'], shielded.text), 'Reach Sam at Sam@Example.com');
+        assert.equal(await reopened.reveal(['memories:bob'], shielded.text), shielded.text);
+    });
+
+    it('drops values in redact mode and leaves placeholders alone when shielding again', async () => {
+        const guard = new SensitiveDataGuard({ key: randomBytes(32), mode: 'redact', detectors: ['email'] });
+
+        const shielded = await guard.shield('Mail sam@example.com', 'memories:alice');
+        assert.equal(shielded.text, 'Mail [EMAIL]');
+        assert.deepEqual(shielded.values, {});
+        assert.equal((await guard.shield(shielded.text)).text, 'Mail [EMAIL]');
+        assert.equal(await guard.reveal(['memories:alice'], shielded.text), 'Mail [EMAIL]');
+    });
+});
@@ -0,0 +1,73 @@
+// per-user memory namespaces
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { LocalVectorStore } from '../localVectorStore.ts';
+import { DEFAULT_USER, MemoryManager } from '../memoryManager.ts';
+import { createTestMemory } from './fixtures.ts';
+
+async function contents(memory: MemoryManager): Promise<string[]> {
+    return (await memory.listMemories()).memories.map(entry => entry.content).sort();
+}
+
+describe('user namespaces', () => {
+    it('keeps each user\'s memories to that user', async () => {
+        const alice = createTestMemory({ userId: 'alice' });
+        const bob = alice.forUser('bob');
+        const [aliceId] = await alice.addMemory('My sister lives in Lisbon', 'important');
+        await bob.addMemory('I am allergic to peanuts', 'important');
+
+        assert.deepEqual(await contents(alice), ['My sister lives in Lisbon']);
+        assert.deepEqual(await contents(bob), ['I am allergic to peanuts']);
+        assert.equal(await bob.getMemory(aliceId), null);
+        assert.ok((await bob.getRelatedMemories('Where does my sister live?')).every(entry => entry.id !== aliceId));
+        assert.deepEqual(await alice.listUsers(), ['alice', 'bob']);
+    });
+
+    it('wipes one user without touching the others', async () => {
+        const alice = createTestMemory({ userId: 'alice' });
+        const bob = alice.forUser('bob');
+        await alice.addMemory('My sister lives in Lisbon', 'important');
+        await bob.addMemory('I am allergic to peanuts', 'important');
+
+        await alice.wipeUser('bob');
+
+        assert.deepEqual(await contents(bob), []);
+        assert.deepEqual(await contents(alice), ['My sister lives in Lisbon']);
+        assert.deepEqual(await alice.listUsers(), ['alice']);
+    });
+
+    it('shares a memory only with users who read the household', async () => {
+        const store = new LocalVectorStore();
+        const alice = createTestMemory({ store, userId: 'alice' });
+        const [id] = await alice.addMemory('The wifi password is on the fridge', 'important');
+        await alice.shareWithHousehold(id);
+
+        const withHousehold = createTestMemory({ store, userId: 'bob', includeHousehold: true });
+        const withoutHousehold = createTestMemory({ store, userId: 'carol', includeHousehold: false });
+        const found = await withHousehold.getRelatedMemories('Where is the wifi password?');
+        assert.ok(found.some(entry => entry.id === id));
+        assert.ok((await withoutHousehold.getRelatedMemories('Where is the wifi password?')).every(entry => entry.id !== id));
+        assert.deepEqual(await alice.listUsers(), ['alice']);
+    });
+
+    it('rejects user IDs that could escape a namespace', () => {
+        for (const userId of ['a:b', '../x', 'has space', 'x'.repeat(65)]) {
+            assert.throws(() => createTestMemory({ userId }), /Invalid user id/);
+        }
+    });
+
+    it('moves memories from the legacy default namespace to the default user once', async () => {
+        const store = new LocalVectorStore();
+        await store.namespace('').upsert([
+            { id: 'old-1', values: [1, 0], metadata: { content: 'first', salient: true } },
+            { id: 'old-2', values: [0, 1], metadata: { content: 'second', salient: true } }
+        ]);
+        const memory = createTestMemory({ store, userId: DEFAULT_USER });
+
+        assert.equal(await memory.migrateLegacyMemories(), 2);
+        assert.equal(await memory.migrateLegacyMemories(), 0);
+        assert.deepEqual(await contents(memory), ['first', 'second']);
+        assert.deepEqual((await store.namespace('').list()).records, []);
+    });
+});
@@ -0,0 +1,35 @@
+// plain-text table formatting for the console
+
+/**
+ * Formats rows as a fixed-width text table with a header row. Cells longer than
+ * maxWidth are truncated with an ellipsis.
+ *
+ * @param headers Column headers.
+ * @param rows Table rows, one string per column.
+ * @param maxWidth Maximum width of any column.
+ */
+export function formatTable(headers: string[], rows: string[][], maxWidth: number = 60): string {
+    const clip = (cell: string) => {
+        const flat = cell.replace(/\s+/g, ' ');
+        return flat.length > maxWidth ? flat.slice(0, maxWidth - 1) + '…' : flat;
+    };
+    const cells = [headers, ...rows].map(row => row.map(clip));
+    const widths = headers.map((_, column) => Math.max(...cells.map(row => (row[column] || '').length)));
+    const line = (row: string[]) => row.map((cell, column) => (cell || '').padEnd(widths[column])).join('  ').trimEnd();
+    return [
+        line(cells[0]),
+        widths.map(width => '-'.repeat(width)).join('  '),
+        ...cells.slice(1).map(line)
+    ].join('\n');
+}
+
+// Renders how long ago a timestamp was, e.g. "5m", "3h", "12d".
+export function formatAge(timestamp: number, now: number = Date.now()): string {
+    const seconds = Math.max(0, Math.round((now - timestamp) / 1000));
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.round(minutes / 60);
+    if (hours < 48) return `${hours}h`;
+    return `${Math.round(hours / 24)}d`;
+}
@@ -0,0 +1,169 @@
+// persistent conversation threads
+
+import { v4 as uuidv4 } from 'uuid';
+import { JsonDocument } from './fileStorage.ts';
+
+/**
+ * One turn in a thread, from the user or from Peter.
+ */
+export interface ThreadMessage {
+    role: 'user' | 'assistant';
+    content: string;
+    timestamp: number;
+}
+
+/**
+ * A running summary of the start of a thread, standing in for messages that no
+ * longer fit in the prompt.
+ */
+export interface RollingSummary {
+    text: string;
+    // How many messages, from the start of the thread, the summary covers.
+    messageCount: number;
+    updatedAt: number;
+}
+
+export interface Thread {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    // The full log, oldest first.
+    messages: ThreadMessage[];
+    summary?: RollingSummary;
+}
+
+// A thread without its messages, for listings.
+export interface ThreadSummary {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    messageCount: number;
+}
+
+// Per user: their threads by ID.
+type ThreadFile = Record<string, Record<string, Thread>>;
+
+// Untitled threads are named after their first message, cut to this length.
+const MAX_TITLE_LENGTH = 60;
+
+function titleFrom(text: string): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > MAX_TITLE_LENGTH ? flat.slice(0, MAX_TITLE_LENGTH - 1) + '…' : flat;
+}
+
+function summarize(thread: Thread): ThreadSummary {
+    return {
+        id: thread.id,
+        title: thread.title,
+        createdAt: thread.createdAt,
+        updatedAt: thread.updatedAt,
+        messageCount: thread.messages.length
+    };
+}
+
+/**
+ * ThreadStore - Keeps every conversation thread, with its full message log, per
+ * user in a local JSON file, so conversations survive restarts and can be
+ * resumed. Threads returned are copies; change them through the store.
+ */
+export class ThreadStore {
+    private document: JsonDocument<ThreadFile>;
+
+    constructor(filePath?: string) {
+        this.document = new JsonDocument<ThreadFile>(filePath, () => ({}));
+    }
+
+    /**
+     * Starts an empty thread.
+     *
+     * @param userId The thread's owner.
+     * @param title (Optional) Title; by default the thread is named after its first message.
+     */
+    async create(userId: string, title: string = ''): Promise<Thread> {
+        const now = Date.now();
+        const thread: Thread = { id: uuidv4(), title: titleFrom(title), createdAt: now, updatedAt: now, messages: [] };
+        await this.document.update(file => {
+            file[userId] = file[userId] || {};
+            file[userId][thread.id] = thread;
+        });
+        return structuredClone(thread);
+    }
+
+    async get(userId: string, threadId: string): Promise<Thread | null> {
+        const file = await this.document.read();
+        const thread = file[userId]?.[threadId];
+        return thread ? structuredClone(thread) : null;
+    }
+
+    // The user's threads, most recently active first.
+    async list(userId: string): Promise<ThreadSummary[]> {
+        const file = await this.document.read();
+        return Object.values(file[userId] || {})
+            .map(summarize)
+            .sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    /**
+     * Appends messages to a thread, creating it under the given ID if it does
+     * not exist yet (API clients may pick their own thread IDs).
+     *
+     * @param userId The thread's owner.
+     * @param threadId The thread.
+     * @param messages The new messages, oldest first.
+     */
+    async append(userId: string, threadId: string, messages: Omit<ThreadMessage, 'timestamp'>[]): Promise<Thread> {
+        const now = Date.now();
+        return this.document.update(file => {
+            file[userId] = file[userId] || {};
+            const thread = file[userId][threadId] = file[userId][threadId]
+                || { id: threadId, title: '', createdAt: now, updatedAt: now, messages: [] };
+            thread.messages.push(...messages.map(message => ({ ...message, timestamp: now })));
+            thread.updatedAt = now;
+            if (!thread.title) {
+                const firstUserMessage = thread.messages.find(message => message.role === 'user');
+                if (firstUserMessage) thread.title = titleFrom(firstUserMessage.content);
+            }
+            return structuredClone(thread);
+        });
+    }
+
+    /**
+     * Renames a thread.
+     *
+     * @param userId The thread's owner.
+     * @param threadId The thread.
+     * @param title The new title.
+     * @returns The renamed thread, or null if there is no such thread.
+     */
+    async rename(userId: string, threadId: string, title: string): Promise<Thread | null> {
+        if (!title.trim()) {
+            throw new Error('Thread title must not be empty');
+        }
+        return this.document.update(file => {
+            const thread = file[userId]?.[threadId];
+            if (!thread) return null;
+            thread.title = titleFrom(title);
+            thread.updatedAt = Date.now();
+            return structuredClone(thread);
+        });
+    }
+
+    // Replaces the thread's rolling summary; does nothing if the thread is gone.
+    async setSummary(userId: string, threadId: string, summary: RollingSummary): Promise<void> {
+        await this.document.update(file => {
+            const thread = file[userId]?.[threadId];
+            if (thread) thread.summary = summary;
+        });
+    }
+
+    // Deletes a thread; returns whether it existed.
+    async delete(userId: string, threadId: string): Promise<boolean> {
+        return this.document.update(file => {
+            if (!file[userId]?.[threadId]) return false;
+            delete file[userId][threadId];
+            return true;
+        });
+    }
+}
@@ -0,0 +1,69 @@
+// token estimates for prompt budgeting
+
+import { ChatMessage, ChatProvider } from './llmProvider.ts';
+
+// Average characters of English text per token, by provider. Real tokenizers are
+// not bundled; these estimates land a little above the true count, which is the
+// safe side for a budget.
+const CHARS_PER_TOKEN: Record<string, number> = {
+    openai: 3.8,
+    anthropic: 3.4,
+    gemini: 3.8,
+};
+const DEFAULT_CHARS_PER_TOKEN = 3.5;
+
+// Context window by provider, used to cap budgets that are set too high.
+const CONTEXT_WINDOWS: Record<string, number> = {
+    openai: 128000,
+    anthropic: 200000,
+    gemini: 1000000,
+};
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Role markers and separators each message adds.
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Estimates how many tokens a text takes for the given model. Characters outside
+ * ASCII (accents, CJK, emoji) are counted as a token each.
+ *
+ * @param text The text.
+ * @param model The model the text is for.
+ */
+export function countTokens(text: string, model: Pick<ChatProvider, 'provider'>): number {
+    if (!text) return 0;
+    let ascii = 0;
+    let other = 0;
+    for (const char of text) {
+        if (char.charCodeAt(0) < 128) ascii++;
+        else other++;
+    }
+    return Math.ceil(ascii / (CHARS_PER_TOKEN[model.provider] ?? DEFAULT_CHARS_PER_TOKEN)) + other;
+}
+
+export function countMessageTokens(messages: ChatMessage[], model: Pick<ChatProvider, 'provider'>): number {
+    return messages.reduce((total, message) => total + countTokens(message.content, model) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+export function contextWindow(model: ChatProvider): number {
+    return CONTEXT_WINDOWS[model.provider] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Cuts a text down to roughly the given number of tokens, at a word boundary
+ * where possible.
+ *
+ * @param text The text.
+ * @param maxTokens The token limit.
+ * @param model The model the text is for.
+ */
+export function truncateToTokens(text: string, maxTokens: number, model: ChatProvider): string {
+    if (countTokens(text, model) <= maxTokens) return text;
+    let end = Math.floor(maxTokens * (CHARS_PER_TOKEN[model.provider] ?? DEFAULT_CHARS_PER_TOKEN));
+    while (end > 0 && countTokens(text.slice(0, end) + '…', model) > maxTokens) {
+        end = Math.floor(end * 0.9);
+    }
+    const cut = text.slice(0, end);
+    const lastSpace = cut.lastIndexOf(' ');
+    return (lastSpace > end * 0.8 ? cut.slice(0, lastSpace) : cut).trimEnd() + '…';
+}
@@ -0,0 +1,165 @@
+// multi-round tool calling on top of any ChatProvider
+
+import { ChatMessage, ChatOptions, ChatProvider, ToolCall, ToolDefinition } from './llmProvider.ts';
+
+/**
+ * A tool the model can call: its definition (name, description, JSON Schema
+ * parameters) and the function that runs it. Arguments are validated against
+ * the schema before run is called.
+ */
+export interface Tool {
+    definition: ToolDefinition;
+    run(args: Record<string, any>): Promise<unknown>;
+}
+
+/**
+ * One tool call the model made, and how it went.
+ */
+export interface ToolAction {
+    name: string;
+    arguments: Record<string, unknown>;
+    ok: boolean;
+    // The tool's result, or the error message sent back to the model.
+    result: unknown;
+}
+
+export interface ToolLoopOptions extends Omit<ChatOptions, 'tools'> {
+    // Rounds of tool calls allowed before the model must answer without tools.
+    maxSteps?: number;
+    // Called after each tool call, e.g. to show the user what happened.
+    onAction?: (action: ToolAction) => void;
+}
+
+const DEFAULT_MAX_STEPS = 4;
+const STEP_LIMIT_NOTICE = 'You have used all your tool calls for this turn. Answer the user now with what you have, without calling any tools.';
+
+function typeOf(value: unknown): string {
+    if (Array.isArray(value)) return 'array';
+    if (value === null) return 'null';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+}
+
+function checkValue(schema: Record<string, any>, value: unknown, path: string): void {
+    const actual = typeOf(value);
+    const expected = schema.type;
+    const matches = expected === undefined
+        || actual === expected
+        || (expected === 'number' && actual === 'integer');
+    if (!matches) {
+        throw new Error(`${path} must be ${expected === 'integer' ? 'an integer' : `a ${expected}`}`);
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        throw new Error(`${path} must be one of ${schema.enum.join(', ')}`);
+    }
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) throw new Error(`${path} must be at least ${schema.minimum}`);
+        if (schema.maximum !== undefined && value > schema.maximum) throw new Error(`${path} must be at most ${schema.maximum}`);
+    }
+    if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        throw new Error(`${path} must not be empty`);
+    }
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, i) => checkValue(schema.items, item, `${path}[${i}]`));
+    }
+    if (actual === 'object' && schema.properties) {
+        const object = value as Record<string, unknown>;
+        for (const name of schema.required || []) {
+            if (object[name] === undefined) throw new Error(`${path}.${name} is required`);
+        }
+        for (const [name, item] of Object.entries(object)) {
+            const property = schema.properties[name];
+            if (!property) throw new Error(`${path}.${name} is not a known argument`);
+            checkValue(property, item, `${path}.${name}`);
+        }
+    }
+}
+
+/**
+ * Checks tool call arguments against the tool's JSON Schema. Supports the
+ * keywords tools here use: type, properties, required, items, enum, minimum,
+ * maximum and minLength.
+ *
+ * @param schema The tool's parameters schema.
+ * @param args The arguments the model sent.
+ */
+export function validateToolArguments(schema: Record<string, unknown>, args: Record<string, unknown>): void {
+    checkValue(schema, args, 'arguments');
+}
+
+// Runs one call, turning unknown tools, bad arguments and tool errors into a result the model can read.
+async function runToolCall(tools: Tool[], call: ToolCall): Promise<ToolAction> {
+    const tool = tools.find(candidate => candidate.definition.name === call.name);
+    try {
+        if (!tool) {
+            throw new Error(`Unknown tool ${call.name}`);
+        }
+        validateToolArguments(tool.definition.parameters, call.arguments);
+        const result = await tool.run(call.arguments);
+        return { name: call.name, arguments: call.arguments, ok: true, result };
+    } catch (error: any) {
+        return { name: call.name, arguments: call.arguments, ok: false, result: error.message || String(error) };
+    }
+}
+
+/**
+ * Streams a reply while letting the model call tools. Each round streams the
+ * model's output; if it called tools, they run, their results are appended to
+ * the conversation and the model goes again. After maxSteps rounds of tool
+ * calls the model is told to answer without tools, and any calls it still makes
+ * are ignored, so the loop always ends.
+ *
+ * Text the model writes in every round is yielded as it arrives.
+ *
+ * @param model The chat model.
+ * @param messages The conversation so far.
+ * @param tools The tools on offer.
+ * @param options (Optional) Step limit, action callback and the usual chat options.
+ * @returns The tool actions taken, in order.
+ */
+export async function* runToolLoop(
+    model: ChatProvider,
+    messages: ChatMessage[],
+    tools: Tool[],
+    options: ToolLoopOptions = {}
+): AsyncGenerator<string, ToolAction[]> {
+    const { maxSteps = DEFAULT_MAX_STEPS, onAction, ...chatOptions } = options;
+    const conversation = [...messages];
+    const actions: ToolAction[] = [];
+
+    for (let step = 0; step <= maxSteps; step++) {
+        if (step === maxSteps) {
+            // Tools stay defined (some providers reject tool results without them), but are off limits.
+            conversation.push({ role: 'system', content: STEP_LIMIT_NOTICE });
+        }
+        let text = '';
+        const calls: ToolCall[] = [];
+        const stream = model.stream(conversation, {
+            ...chatOptions,
+            ...(tools.length > 0 ? { tools: tools.map(tool => tool.definition) } : {})
+        });
+        for await (const event of stream) {
+            if (event.type === 'text') {
+                text += event.text;
+                yield event.text;
+            } else {
+                calls.push(event.call);
+            }
+        }
+        if (calls.length === 0 || step === maxSteps) break;
+
+        conversation.push({ role: 'assistant', content: text, toolCalls: calls });
+        for (const call of calls) {
+            const action = await runToolCall(tools, call);
+            actions.push(action);
+            onAction?.(action);
+            conversation.push({
+                role: 'tool',
+                toolCallId: call.id,
+                toolName: call.name,
+                content: JSON.stringify(action.ok ? { result: action.result } : { error: action.result })
+            });
+        }
+    }
+    return actions;
+}
@@ -0,0 +1,442 @@
+// per-turn traces: spans with latency, token usage and estimated cost per model
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { CachedEmbeddingProvider } from './embeddingCache.ts';
+import {
+    ChatMessage,
+    ChatOptions,
+    ChatProvider,
+    ChatResult,
+    EmbeddingProvider,
+    ModelRoles,
+    StreamEvent,
+    TokenUsage
+} from './llmProvider.ts';
+import { log } from './logger.ts';
+import { countMessageTokens, countTokens } from './tokenCounter.ts';
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * One timed step of a turn: retrieval, an ingestion step, a model call, an
+ * embedding batch or a store write. Spans nest through parentId.
+ */
+export interface Span {
+    id: string;
+    parentId: string | null;
+    name: string;
+    startedAt: number;
+    durationMs: number;
+    // For model calls: the model as "provider:model".
+    model?: string;
+    usage?: TokenUsage;
+    // Whether usage was estimated from the text (streams and embedders don't report it).
+    estimated?: boolean;
+    // Estimated cost in USD; null when the model has no known price.
+    costUsd?: number | null;
+    // Set when the step failed.
+    error?: string;
+    attributes: SpanAttributes;
+}
+
+/**
+ * Everything one turn did, in the order the steps finished.
+ */
+export interface Trace {
+    id: string;
+    name: string;
+    attributes: SpanAttributes;
+    startedAt: number;
+    durationMs: number;
+    spans: Span[];
+    totals: { inputTokens: number; outputTokens: number; costUsd: number };
+    error?: string;
+}
+
+export interface ModelSpend {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    // Calls of a model without a known price, left out of costUsd.
+    unpriced: number;
+}
+
+/**
+ * What this process has spent since it started, for /stats.
+ */
+export interface SessionStats {
+    startedAt: number;
+    turns: number;
+    // By "provider:model".
+    models: Record<string, ModelSpend>;
+    // Latency by span name.
+    spans: Record<string, { count: number; totalMs: number; maxMs: number }>;
+    costUsd: number;
+}
+
+// USD per million input and output tokens. Keys match a model spec or its prefix (dated versions).
+const MODEL_PRICES: Record<string, [number, number]> = {
+    'openai:gpt-4o-mini': [0.15, 0.6],
+    'openai:gpt-4o': [2.5, 10],
+    'openai:gpt-4.1-nano': [0.1, 0.4],
+    'openai:gpt-4.1-mini': [0.4, 1.6],
+    'openai:gpt-4.1': [2, 8],
+    'openai:text-embedding-3-small': [0.02, 0],
+    'openai:text-embedding-3-large': [0.13, 0],
+    'openai:text-embedding-ada-002': [0.1, 0],
+    'anthropic:claude-3-5-haiku': [0.8, 4],
+    'anthropic:claude-3-haiku': [0.25, 1.25],
+    'anthropic:claude-3-5-sonnet': [3, 15],
+    'anthropic:claude-3-7-sonnet': [3, 15],
+    'anthropic:claude-3-opus': [15, 75],
+    'gemini:gemini-1.5-flash': [0.075, 0.3],
+    'gemini:gemini-1.5-pro': [1.25, 5],
+    'gemini:gemini-2.0-flash': [0.1, 0.4],
+    'gemini:text-embedding-004': [0, 0],
+    'local:': [0, 0]
+};
+
+interface TraceScope {
+    trace: Trace;
+    // The span new spans nest under.
+    parentId: string | null;
+}
+
+const storage = new AsyncLocalStorage<TraceScope>();
+
+const session: SessionStats = { startedAt: Date.now(), turns: 0, models: {}, spans: {}, costUsd: 0 };
+
+// Traces are appended in the order they finish.
+let sinkChain: Promise<void> = Promise.resolve();
+
+let prices: Record<string, [number, number]> | null = null;
+
+// The built-in prices, overridden by PETER_MODEL_PRICES ({"provider:model": [input, output]}).
+function modelPrices(): Record<string, [number, number]> {
+    if (!prices) {
+        prices = { ...MODEL_PRICES };
+        if (process.env.PETER_MODEL_PRICES) {
+            try {
+                Object.assign(prices, JSON.parse(process.env.PETER_MODEL_PRICES));
+            } catch (error) {
+                log.warn('Ignoring PETER_MODEL_PRICES: not a JSON object', { error });
+            }
+        }
+    }
+    return prices;
+}
+
+/**
+ * Estimates what a model call cost.
+ *
+ * @param model The model as "provider:model".
+ * @param usage Its token usage.
+ * @returns The cost in USD, or null if the model has no known price.
+ */
+export function estimateCost(model: string, usage: TokenUsage): number | null {
+    const table = modelPrices();
+    const key = Object.keys(table)
+        .filter(candidate => model === candidate || model.startsWith(candidate))
+        .sort((a, b) => b.length - a.length)[0];
+    if (key === undefined) return null;
+    const [input, output] = table[key];
+    return (usage.inputTokens * input + usage.outputTokens * output) / 1_000_000;
+}
+
+// Files a finished span with the current trace, if any, and the session totals.
+function recordSpan(scope: TraceScope | undefined, span: Span): void {
+    scope?.trace.spans.push(span);
+    const timing = session.spans[span.name] = session.spans[span.name] || { count: 0, totalMs: 0, maxMs: 0 };
+    timing.count++;
+    timing.totalMs += span.durationMs;
+    timing.maxMs = Math.max(timing.maxMs, span.durationMs);
+    if (span.model && span.usage) {
+        const spend = session.models[span.model] = session.models[span.model]
+            || { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpriced: 0 };
+        spend.calls++;
+        spend.inputTokens += span.usage.inputTokens;
+        spend.outputTokens += span.usage.outputTokens;
+        if (span.costUsd === null || span.costUsd === undefined) {
+            spend.unpriced++;
+        } else {
+            spend.costUsd += span.costUsd;
+            session.costUsd += span.costUsd;
+        }
+    }
+}
+
+function newSpan(scope: TraceScope | undefined, name: string, startedAt: number, attributes: SpanAttributes): Span {
+    return {
+        id: uuidv4(),
+        parentId: scope?.parentId ?? null,
+        name,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        attributes
+    };
+}
+
+/**
+ * Times a step. Inside a traced turn it becomes a span of the turn, and the
+ * steps it runs nest under it; either way it counts towards the session's
+ * latency figures.
+ *
+ * @param name The step, e.g. "retrieval" or "store.upsert".
+ * @param attributes Counts and IDs describing it. Never content.
+ * @param run The step itself.
+ */
+export async function traceSpan<T>(name: string, attributes: SpanAttributes, run: () => Promise<T>): Promise<T> {
+    const scope = storage.getStore();
+    const startedAt = Date.now();
+    const span = newSpan(scope, name, startedAt, attributes);
+    try {
+        return await (scope ? storage.run({ trace: scope.trace, parentId: span.id }, run) : run());
+    } catch (error: any) {
+        span.error = error?.message || String(error);
+        throw error;
+    } finally {
+        span.durationMs = Date.now() - startedAt;
+        recordSpan(scope, span);
+    }
+}
+
+// Adds attributes to the current turn's trace, e.g. an ID that is only known partway through.
+export function annotateTrace(attributes: SpanAttributes): void {
+    const scope = storage.getStore();
+    if (scope) Object.assign(scope.trace.attributes, attributes);
+}
+
+/**
+ * Runs a streamed turn as one trace: every step it takes, including inside
+ * nested streams, is recorded as a span. When the stream ends the trace is
+ * logged at debug level and appended to PETER_TRACE_FILE, if set.
+ *
+ * @param name The kind of turn, e.g. "chat".
+ * @param attributes IDs describing the turn.
+ * @param source Starts the turn's stream.
+ */
+export async function* traceStream<T>(name: string, attributes: SpanAttributes, source: () => AsyncGenerator<T>): AsyncGenerator<T> {
+    const trace = startTrace(name, attributes);
+    const scope: TraceScope = { trace, parentId: null };
+    const stream = storage.run(scope, source);
+    let finished = false;
+    try {
+        while (true) {
+            // Each step of the stream runs inside the trace, whoever is pulling from it.
+            const step = await storage.run(scope, () => stream.next());
+            if (step.done) break;
+            yield step.value;
+        }
+        finished = true;
+    } catch (error: any) {
+        trace.error = error?.message || String(error);
+        throw error;
+    } finally {
+        if (!finished && !trace.error) await storage.run(scope, () => stream.return(undefined));
+        session.turns++;
+        finishTrace(trace);
+    }
+}
+
+/**
+ * Runs background work, such as storing a turn's memories after the reply
+ * (see ingestionQueue.ts), as a trace of its own, written like a turn's.
+ *
+ * @param name The kind of work, e.g. "ingestion".
+ * @param attributes IDs describing it.
+ * @param run The work.
+ */
+export async function traceTask<T>(name: string, attributes: SpanAttributes, run: () => Promise<T>): Promise<T> {
+    const trace = startTrace(name, attributes);
+    try {
+        return await storage.run({ trace, parentId: null }, run);
+    } catch (error: any) {
+        trace.error = error?.message || String(error);
+        throw error;
+    } finally {
+        finishTrace(trace);
+    }
+}
+
+function startTrace(name: string, attributes: SpanAttributes): Trace {
+    return {
+        id: uuidv4(),
+        name,
+        attributes: { ...attributes },
+        startedAt: Date.now(),
+        durationMs: 0,
+        spans: [],
+        totals: { inputTokens: 0, outputTokens: 0, costUsd: 0 }
+    };
+}
+
+function finishTrace(trace: Trace): void {
+    trace.durationMs = Date.now() - trace.startedAt;
+    for (const span of trace.spans) {
+        if (!span.usage) continue;
+        trace.totals.inputTokens += span.usage.inputTokens;
+        trace.totals.outputTokens += span.usage.outputTokens;
+        trace.totals.costUsd += span.costUsd ?? 0;
+    }
+    log.debug('Trace finished', {
+        name: trace.name,
+        traceId: trace.id,
+        durationMs: trace.durationMs,
+        spans: trace.spans.length,
+        inputTokens: trace.totals.inputTokens,
+        outputTokens: trace.totals.outputTokens,
+        costUsd: Number(trace.totals.costUsd.toFixed(6))
+    });
+    const file = process.env.PETER_TRACE_FILE;
+    if (!file) return;
+    sinkChain = sinkChain
+        .then(async () => {
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            await fs.appendFile(file, `${JSON.stringify(trace)}\n`, 'utf8');
+        })
+        .catch(error => log.error('Error in writing trace', { error, file }));
+}
+
+// Waits until every finished trace has been written to the trace file.
+export function flushTraces(): Promise<void> {
+    return sinkChain;
+}
+
+// A copy of what this process has spent so far.
+export function getSessionStats(): SessionStats {
+    return JSON.parse(JSON.stringify(session));
+}
+
+function modelSpec(model: { provider: string; model: string }): string {
+    return `${model.provider}:${model.model}`;
+}
+
+/**
+ * TracedChatProvider - Records every call to a chat model as an "llm" span
+ * with its latency, token usage and estimated cost.
+ */
+export class TracedChatProvider implements ChatProvider {
+    readonly provider: string;
+    readonly model: string;
+
+    constructor(readonly inner: ChatProvider, readonly role: string) {
+        this.provider = inner.provider;
+        this.model = inner.model;
+    }
+
+    async complete(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult> {
+        const scope = storage.getStore();
+        const startedAt = Date.now();
+        let result: ChatResult | null = null;
+        let failure: string | undefined;
+        try {
+            result = await this.inner.complete(messages, options);
+            return result;
+        } catch (error: any) {
+            failure = error?.message || String(error);
+            throw error;
+        } finally {
+            this.record(scope, startedAt, messages, result?.content || '', result?.usage, failure);
+        }
+    }
+
+    async *stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<StreamEvent> {
+        const scope = storage.getStore();
+        const startedAt = Date.now();
+        let output = '';
+        let failure: string | undefined;
+        try {
+            for await (const event of this.inner.stream(messages, options)) {
+                output += event.type === 'text' ? event.text : JSON.stringify(event.call.arguments);
+                yield event;
+            }
+        } catch (error: any) {
+            failure = error?.message || String(error);
+            throw error;
+        } finally {
+            this.record(scope, startedAt, messages, output, undefined, failure);
+        }
+    }
+
+    private record(
+        scope: TraceScope | undefined,
+        startedAt: number,
+        messages: ChatMessage[],
+        output: string,
+        reported: TokenUsage | undefined,
+        failure: string | undefined
+    ): void {
+        const usage = reported || {
+            inputTokens: countMessageTokens(messages, this.inner),
+            outputTokens: countTokens(output, this.inner)
+        };
+        const span = newSpan(scope, 'llm', startedAt, { role: this.role, messages: messages.length });
+        span.model = modelSpec(this.inner);
+        span.usage = usage;
+        span.estimated = !reported;
+        span.costUsd = estimateCost(span.model, usage);
+        span.error = failure;
+        recordSpan(scope, span);
+    }
+}
+
+/**
+ * TracedEmbeddingProvider - Records every embedding batch as an "embedding"
+ * span. Embedders don't report usage, so input tokens are estimated.
+ */
+export class TracedEmbeddingProvider implements EmbeddingProvider {
+    readonly provider: string;
+    readonly model: string;
+    readonly dimension: number;
+
+    constructor(readonly inner: EmbeddingProvider) {
+        this.provider = inner.provider;
+        this.model = inner.model;
+        this.dimension = inner.dimension;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const scope = storage.getStore();
+        const startedAt = Date.now();
+        let failure: string | undefined;
+        try {
+            return await this.inner.embed(texts);
+        } catch (error: any) {
+            failure = error?.message || String(error);
+            throw error;
+        } finally {
+            const span = newSpan(scope, 'embedding', startedAt, { texts: texts.length });
+            span.model = modelSpec(this.inner);
+            span.usage = { inputTokens: texts.reduce((sum, text) => sum + countTokens(text, this.inner), 0), outputTokens: 0 };
+            span.estimated = true;
+            span.costUsd = estimateCost(span.model, span.usage);
+            span.error = failure;
+            recordSpan(scope, span);
+        }
+    }
+}
+
+/**
+ * Wraps every model role so its calls are traced. Roles that already are
+ * traced are left alone, and so is an embedder behind the embedding cache
+ * (it is traced underneath, so cache hits cost nothing).
+ *
+ * @param models The models.
+ */
+export function traceModels(models: ModelRoles): ModelRoles {
+    const chat = (model: ChatProvider, role: string) =>
+        model instanceof TracedChatProvider ? model : new TracedChatProvider(model, role);
+    const embedder = models.embedder;
+    return {
+        reply: chat(models.reply, 'reply'),
+        summarizer: chat(models.summarizer, 'summarizer'),
+        classifier: chat(models.classifier, 'classifier'),
+        embedder: embedder instanceof TracedEmbeddingProvider || embedder instanceof CachedEmbeddingProvider
+            ? embedder
+            : new TracedEmbeddingProvider(embedder)
+    };
+}
@@ -0,0 +1,120 @@
+// vector store abstraction
+
+export type MetadataValue = string | number | boolean | string[];
+export type RecordMetadata = Record<string, MetadataValue>;
+
+/**
+ * Pinecone-style metadata filter. A plain value means equality, otherwise an
+ * operator object such as { $gte: 0.5 } or { $in: ["a", "b"] }. Filters can be
+ * combined with $and / $or.
+ */
+export type MetadataFilter = Record<string, any>;
+
+export interface VectorRecord {
+    id: string;
+    values: number[];
+    metadata: RecordMetadata;
+}
+
+export interface VectorMatch extends VectorRecord {
+    // Cosine similarity between the query vector and the record.
+    score: number;
+}
+
+export interface VectorQuery {
+    vector: number[];
+    topK: number;
+    filter?: MetadataFilter;
+}
+
+export interface ListOptions {
+    filter?: MetadataFilter;
+    limit?: number;
+    // Opaque cursor returned by a previous list call.
+    cursor?: string;
+}
+
+export interface ListPage {
+    records: VectorRecord[];
+    // Present when there are more records to page through.
+    cursor?: string;
+}
+
+/**
+ * VectorStore - The storage backend used by MemoryManager. Implementations must
+ * support upsert, nearest-neighbour queries with metadata filters, fetch by id,
+ * delete and paged listing.
+ *
+ * Records live in namespaces. A store instance operates on one namespace (the
+ * default one unless obtained through namespace()), and namespaces never see
+ * each other's records.
+ */
+export interface VectorStore {
+    upsert(records: VectorRecord[]): Promise<void>;
+    query(query: VectorQuery): Promise<VectorMatch[]>;
+    fetch(ids: string[]): Promise<VectorRecord[]>;
+    delete(ids: string[]): Promise<void>;
+    list(options?: ListOptions): Promise<ListPage>;
+    // Merges the given fields into a record's metadata without touching its vector.
+    updateMetadata(id: string, metadata: RecordMetadata): Promise<void>;
+    // Returns a view of the same backend scoped to the given namespace.
+    namespace(name: string): VectorStore;
+    // Names of all non-empty namespaces in the backend.
+    listNamespaces(): Promise<string[]>;
+    // Removes every record in the given namespace.
+    deleteNamespace(name: string): Promise<void>;
+}
+
+export function calculateCosineSimilarity(vecA: number[], vecB: number[]): number {
+    const dotProduct = vecA.reduce((sum, a, i) => sum + a * (vecB[i] || 0), 0);
+    const normA = Math.sqrt(vecA.reduce((sum, a) => sum + (a * a), 0));
+    const normB = Math.sqrt(vecB.reduce((sum, b) => sum + (b * b), 0));
+    return (normA === 0 || normB === 0) ? 0 : dotProduct / (normA * normB);
+}
+
+// Evaluates a single operator against a metadata value. Array values match if any element matches.
+function matchesOperator(value: MetadataValue | undefined, operator: string, operand: any): boolean {
+    if (Array.isArray(value) && operator !== '$exists') {
+        if (operator === '$ne' || operator === '$nin') {
+            return value.every(item => matchesOperator(item, operator, operand));
+        }
+        return value.some(item => matchesOperator(item, operator, operand));
+    }
+    switch (operator) {
+        case '$eq': return value === operand;
+        case '$ne': return value !== operand;
+        case '$gt': return value !== undefined && value > operand;
+        case '$gte': return value !== undefined && value >= operand;
+        case '$lt': return value !== undefined && value < operand;
+        case '$lte': return value !== undefined && value <= operand;
+        case '$in': return (operand as any[]).includes(value);
+        case '$nin': return !(operand as any[]).includes(value);
+        case '$exists': return (value !== undefined) === Boolean(operand);
+        default:
+            throw new Error(`Unsupported filter operator: ${operator}`);
+    }
+}
+
+/**
+ * Checks a record's metadata against a Pinecone-style filter. Used by stores that
+ * cannot push filters down to the backend.
+ *
+ * @param metadata The record metadata.
+ * @param filter The filter to apply.
+ */
+export function matchesFilter(metadata: RecordMetadata, filter: MetadataFilter = {}): boolean {
+    return Object.entries(filter).every(([key, condition]) => {
+        if (key === '$and') {
+            return (condition as MetadataFilter[]).every(sub => matchesFilter(metadata, sub));
+        }
+        if (key === '$or') {
+            return (condition as MetadataFilter[]).some(sub => matchesFilter(metadata, sub));
+        }
+        if (condition !== null && typeof condition === 'object' && !Array.isArray(condition)) {
+            return Object.entries(condition).every(([operator, operand]) =>
+                matchesOperator(metadata[key], operator, operand)
+            );
+        }
+        return matchesOperator(metadata[key], '$eq', condition);
+    });
+}
@@ -0,0 +1,23 @@
+import { dataPath } from './fileStorage.ts';
+import { LocalVectorStore } from './localVectorStore.ts';
+import { PineconeVectorStore } from './pineconeStore.ts';
+import { ResilientVectorStore } from './resilience.ts';
+import { VectorStore } from './vectorStore.ts';
+
+/**
+ * Creates the vector store selected by the VECTOR_STORE environment variable:
+ * "pinecone" (default) or "local". The local store persists to LOCAL_STORE_PATH,
+ * defaulting to a file in the Peter data directory. Pinecone calls get timeouts,
+ * retries and a circuit breaker (see resilience.ts).
+ */
+export function createVectorStore(): VectorStore {
+    const backend = (process.env.VECTOR_STORE || 'pinecone').toLowerCase();
+    switch (backend) {
+        case 'pinecone':
+            return new ResilientVectorStore(new PineconeVectorStore(process.env.PINECONE_INDEX || 'personal-assistant'), 'pinecone');
+        case 'local':
+            return new LocalVectorStore(process.env.LOCAL_STORE_PATH || dataPath('vectors.json'));
+        default:
+            throw new Error(`Unknown VECTOR_STORE: ${backend}`);
+    }
+}